@@ -1,11 +1,44 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import './App.css'
 import { TradingAnalysis } from './components/TradingAnalysis'
 import { WalletConnection } from './components/WalletConnection'
-import { wallet } from './lib/walletIntegration'
-import { TransactionData } from './lib/tradingAnalysis'
+import { getWallet, hardwareWallet, setActiveWallet, WalletBackend } from './lib/walletIntegration'
+import { PreparedTransaction } from './lib/transactionPreflight'
+import { toWalletError } from './lib/walletErrors'
+import { formatMist, TransactionExecutionResult } from './lib/transactionExecution'
 import Sidebar, { NavItemType } from './components/layout/sidebar'
 import { AIChat } from './components/AIChat'
+import { OpenOrders } from './components/OpenOrders'
+import { BalanceManagerPanel } from './components/BalanceManagerPanel'
+import { getDefaultBalanceManager } from './lib/balanceManager'
+import { NetworkSettings } from './components/NetworkSettings'
+import { AccountSwitcher } from './components/AccountSwitcher'
+import { DevicePromptDialog } from './components/DevicePromptDialog'
+import { MessageSigner } from './components/MessageSigner'
+import { MultisigPanel } from './components/MultisigPanel'
+import { EvmPanel } from './components/EvmPanel'
+import { EvmSettings } from './components/EvmSettings'
+import { useNetwork } from './hooks/use-network'
+import { useEvmMode } from './hooks/use-evm-mode'
+import { Button } from './components/ui/button'
+
+const CONNECTED_LABELS: Record<WalletBackend, string> = {
+  onekey: 'Wallet Connected',
+  keypair: 'Dev Keypair Connected',
+  watch: 'Watching (read-only)',
+}
+
+// Who signed a finalized transaction, a watched account only executes signatures collected elsewhere
+const SIGNED_BY: Record<WalletBackend, string> = {
+  onekey: 'Transaction signed by OneKey hardware wallet and finalized on chain',
+  keypair: 'Transaction signed by the dev keypair and finalized on chain',
+  watch: 'Transaction finalized on chain',
+}
+
+// Each account keeps its own default BalanceManager, discovery picks one when there is none
+function defaultManagerOf(address: string | null | undefined) {
+  return address ? getDefaultBalanceManager(address) ?? '' : ''
+}
 
 function App() {
   const [isWalletConnected, setIsWalletConnected] = useState(false)
@@ -13,13 +46,35 @@ function App() {
   const [transactionStatus, setTransactionStatus] = useState<{
     status: 'idle' | 'pending' | 'success' | 'error'
     message?: string
+    // Error kind heading and what the user can do about it
+    title?: string
+    recovery?: string
     txId?: string
+    result?: TransactionExecutionResult
   }>({ status: 'idle' })
   const [activeNavItem, setActiveNavItem] = useState<NavItemType>("Home")
+  const [balanceManager, setBalanceManager] = useState('')
+  const network = useNetwork()
+  const evmMode = useEvmMode()
+  const backend = getWallet().backend
+
+  // BalanceManagers and transactions belong to one network, so nothing carries over a switch
+  useEffect(() => {
+    setBalanceManager(defaultManagerOf(getWallet().address))
+    setTransactionStatus({ status: 'idle' })
+  }, [network])
 
   const handleWalletConnected = (address: string) => {
     setIsWalletConnected(true)
     setWalletAddress(address)
+    setBalanceManager(defaultManagerOf(address))
+  }
+
+  // Managers and pending results belong to the previous account, the new one starts from its own default
+  const handleAccountChange = (address: string) => {
+    setWalletAddress(address)
+    setBalanceManager(defaultManagerOf(address))
+    setTransactionStatus({ status: 'idle' })
   }
 
   const handleWalletDisconnected = () => {
@@ -27,7 +82,43 @@ function App() {
     setWalletAddress(null)
   }
 
-  const handleConfirmTransaction = async (transactionData: TransactionData) => {
+  // Back to the connect screen, where another backend can be picked
+  const handleDisconnect = () => {
+    getWallet().disconnect()
+    setActiveWallet(hardwareWallet)
+    handleWalletDisconnected()
+  }
+
+  const showExecutionResult = (result: TransactionExecutionResult) => {
+    if (result.status === 'success') {
+      setTransactionStatus({
+        status: 'success',
+        message: `${SIGNED_BY[backend]}. Gas used: ${formatMist(result.gasUsed.total)} SUI`,
+        txId: result.digest,
+        result
+      })
+    } else {
+      setTransactionStatus({
+        status: 'error',
+        message: `Transaction was executed on chain but failed: ${result.error ?? 'unknown error'}`,
+        txId: result.digest,
+        result
+      })
+    }
+  }
+
+  const showTransactionError = (error: unknown) => {
+    const walletError = toWalletError(error)
+    setTransactionStatus({
+      status: 'error',
+      title: walletError.kind === 'unknown' ? undefined : walletError.title,
+      message: walletError.message,
+      recovery: walletError.recovery
+    })
+    return walletError
+  }
+
+  const handleConfirmTransaction = async (prepared: PreparedTransaction) => {
     if (!isWalletConnected) {
       setTransactionStatus({
         status: 'error',
@@ -39,32 +130,15 @@ function App() {
     setTransactionStatus({ status: 'pending' })
 
     try {
-      const result = await wallet.signAndExecuteTransaction(transactionData)
-      
-      setTransactionStatus({
-        status: 'success',
-        message: 'Transaction has been signed and successfully executed by OneKey hardware wallet!',
-        txId: result.digest
-      })
+      const result = await getWallet().signAndExecutePrepared(prepared)
+      showExecutionResult(result)
+      return result
     } catch (error) {
-      let errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      
-      if (errorMessage.includes('device') || errorMessage.includes('Device')) {
-        errorMessage = `OneKey hardware wallet error: ${errorMessage}`;
-      } else if (errorMessage.includes('sign')) {
-        errorMessage = `Transaction signing failed: ${errorMessage}`;
-      } else {
-        errorMessage = `Transaction failed: ${errorMessage}`;
-      }
-      
-      setTransactionStatus({
-        status: 'error',
-        message: errorMessage
-      })
+      showTransactionError(error)
     }
   }
 
-  const handleConfirmActions = async (actions: []) => {
+  const handleConfirmActions = async (prepared: PreparedTransaction) => {
     if (!isWalletConnected) {
       setTransactionStatus({
         status: 'error',
@@ -76,28 +150,11 @@ function App() {
     setTransactionStatus({ status: 'pending' })
 
     try {
-      const result = await wallet.signAndExecuteSuiTransaction(actions)
-      
-      setTransactionStatus({
-        status: 'success',
-        message: 'Transaction has been signed and successfully executed by OneKey hardware wallet!',
-        txId: result.digest
-      })
+      const result = await getWallet().signAndExecutePrepared(prepared)
+      showExecutionResult(result)
+      return result
     } catch (error) {
-      let errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      
-      if (errorMessage.includes('device') || errorMessage.includes('Device')) {
-        errorMessage = `OneKey hardware wallet error: ${errorMessage}`;
-      } else if (errorMessage.includes('sign')) {
-        errorMessage = `Transaction signing failed: ${errorMessage}`;
-      } else {
-        errorMessage = `Transaction failed: ${errorMessage}`;
-      }
-      
-      setTransactionStatus({
-        status: 'error',
-        message: errorMessage
-      })
+      throw showTransactionError(error)
     }
   }
 
@@ -133,14 +190,24 @@ function App() {
               <div>
                 <div className="flex justify-between items-center mb-6">
                   <h1 className="text-2xl font-bold">Welcome to OneKey AI+</h1>
-                  <div className="text-sm bg-green-100 text-green-800 px-3 py-1 rounded-full flex items-center">
-                    <span className="w-2 h-2 bg-green-500 rounded-full mr-2"></span>
-                    Wallet Connected
+                  <div className="flex items-center space-x-2">
+                    <div className="text-sm bg-green-100 text-green-800 px-3 py-1 rounded-full flex items-center">
+                      <span className="w-2 h-2 bg-green-500 rounded-full mr-2"></span>
+                      {CONNECTED_LABELS[backend]}
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={handleDisconnect}>
+                      Disconnect
+                    </Button>
                   </div>
                 </div>
                 <p className="text-gray-600 mb-6">
                   Your wallet has been successfully connected. Now you can chat with the AI assistant or navigate to the trading page for analysis and transactions.
                 </p>
+                {backend === 'onekey' && (
+                  <div className="mb-6">
+                    <AccountSwitcher onAccountChange={handleAccountChange} />
+                  </div>
+                )}
                 <AIChat
                   onConfirmActions={handleConfirmActions}
                 />
@@ -164,7 +231,7 @@ function App() {
               </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-                {/* <div className="md:col-span-1">
+                <div className="md:col-span-1">
                   {transactionStatus.status !== 'idle' && (
                     <div className="mb-6">
                       <div className={`p-4 rounded-lg ${
@@ -175,14 +242,28 @@ function App() {
                         <h3 className="font-medium mb-2">
                           {transactionStatus.status === 'pending' ? 'Transaction Processing' :
                            transactionStatus.status === 'success' ? 'Transaction Successful' :
-                           'Transaction Failed'}
+                           transactionStatus.title ?? 'Transaction Failed'}
                         </h3>
                         <p className="text-sm">{transactionStatus.message}</p>
+                        {transactionStatus.recovery && (
+                          <p className="text-sm mt-2 font-medium">{transactionStatus.recovery}</p>
+                        )}
                         {transactionStatus.txId && (
-                          <p className="text-sm mt-2">
+                          <p className="text-sm mt-2 break-all">
                             Transaction ID: <span className="font-mono">{transactionStatus.txId}</span>
                           </p>
                         )}
+                        {transactionStatus.result && (
+                          <div className="text-sm mt-2 space-y-1">
+                            <p>Checkpoint: {transactionStatus.result.checkpoint ?? 'pending'}</p>
+                            <p>Objects changed: {transactionStatus.result.objectChanges.length}</p>
+                            {transactionStatus.result.balanceChanges.map((change, i) => (
+                              <p key={i} className="font-mono text-xs break-all">
+                                {change.amount} {change.coinType.split('::').pop()}
+                              </p>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     </div>
                   )}
@@ -190,10 +271,38 @@ function App() {
                     <span className="w-2 h-2 bg-green-500 rounded-full mr-2"></span>
                     Wallet Connected: {walletAddress?.slice(0, 8)}...{walletAddress?.slice(-6)}
                   </div>
-                </div> */}
+                  <div className="mt-6">
+                    <BalanceManagerPanel
+                      balanceManager={balanceManager}
+                      onBalanceManagerChange={setBalanceManager}
+                      onConfirmTransaction={handleConfirmTransaction}
+                      onRejectTransaction={handleRejectTransaction}
+                    />
+                  </div>
+                  <div className="mt-6">
+                    <OpenOrders
+                      balanceManager={balanceManager}
+                      onConfirmTransaction={handleConfirmTransaction}
+                      onRejectTransaction={handleRejectTransaction}
+                    />
+                  </div>
+                  <div className="mt-6">
+                    <MessageSigner address={walletAddress ?? ''} />
+                  </div>
+                  <div className="mt-6">
+                    <MultisigPanel />
+                  </div>
+                  {evmMode && backend === 'onekey' && (
+                    <div className="mt-6">
+                      <EvmPanel />
+                    </div>
+                  )}
+                </div>
                 
                 <div className="md:col-span-2">
                   <TradingAnalysis
+                    balanceManager={balanceManager}
+                    onBalanceManagerChange={setBalanceManager}
                     onConfirmTransaction={handleConfirmTransaction}
                     onRejectTransaction={handleRejectTransaction}
                   />
@@ -209,7 +318,17 @@ function App() {
       case "Browser":
         return <div className="p-6"><h1 className="text-2xl font-bold">Browser</h1><p className="mt-4">This feature is under development...</p></div>
       case "Settings":
-        return <div className="p-6"><h1 className="text-2xl font-bold">Settings</h1><p className="mt-4">This feature is under development...</p></div>
+        return (
+          <div className="p-6 space-y-6">
+            <h1 className="text-2xl font-bold">Settings</h1>
+            <div className="max-w-2xl">
+              <NetworkSettings />
+            </div>
+            <div className="max-w-2xl">
+              <EvmSettings />
+            </div>
+          </div>
+        )
       case "Download":
         return <div className="p-6"><h1 className="text-2xl font-bold">Download</h1><p className="mt-4">This feature is under development...</p></div>
       default:
@@ -221,10 +340,12 @@ function App() {
     <div className="min-h-screen bg-gray-50">
       <main className="flex">
         <Sidebar onNavigate={handleNavigate} activeItem={activeNavItem} />
-        <div className="flex-1">
+        {/* Remount the page on a network or account switch so no component keeps data from the previous one */}
+        <div className="flex-1" key={`${network.cacheKey}:${walletAddress}`}>
           {renderMainContent()}
         </div>
       </main>
+      <DevicePromptDialog />
     </div>
   )
 }
@@ -4,9 +4,15 @@ import { Button } from './ui/button'
 import { Input } from './ui/input'
 import { ArrowUp, Bot, User, ChevronRight, BarChart2, ExternalLink, Wallet, DollarSign } from 'lucide-react'
 import { getSuiAccountBalance, getSuiAccountDefiPortfolio } from '../lib/suivisionAPIs'
-import { wallet } from '../lib/walletIntegration'
+import { getWallet } from '../lib/walletIntegration'
 import { sui_tx_agent } from '@/lib/apis'
 import { DEFAULT_PROMPT } from '@/lib/constants'
+import { formatMist, TransactionExecutionResult } from '@/lib/transactionExecution'
+import { PreparedTransaction } from '@/lib/transactionPreflight'
+import { getExplorerTxUrl } from '@/lib/network'
+import { TransactionReviewDialog } from './TransactionReviewDialog'
+import { ActionPlan, ActionPlanError, parseActionPlan } from '@/lib/actionSchema'
+import { toWalletError } from '@/lib/walletErrors'
 
 
 type Message = {
@@ -26,6 +32,7 @@ interface TransactionState {
   messageId: string | null
   status: 'idle' | 'confirming' | 'processing' | 'completed' | 'failed'
   details?: string
+  digest?: string
 }
 
 // Define Coin type
@@ -41,7 +48,7 @@ interface Coin {
   isVerified?: boolean;
 }
 
-export function AIChat({ onConfirmActions }: { onConfirmActions: (actions: []) => void }) {
+export function AIChat({ onConfirmActions }: { onConfirmActions: (prepared: PreparedTransaction) => Promise<TransactionExecutionResult | undefined> }) {
   const [messages, setMessages] = useState<Message[]>([
     {
       id: '1',
@@ -56,7 +63,8 @@ export function AIChat({ onConfirmActions }: { onConfirmActions: (actions: []) =
     messageId: null,
     status: 'idle'
   })
-  const [actions, setActions] = useState<[]>([])
+  const [actions, setActions] = useState<ActionPlan>([])
+  const [review, setReview] = useState<{ messageId: string, prepared: PreparedTransaction } | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   
   const quickPrompts: QuickPrompt[] = [
@@ -84,12 +92,13 @@ export function AIChat({ onConfirmActions }: { onConfirmActions: (actions: []) =
     if (content.includes('holdings') || content.includes('returns')) {
       try {
         // Check if wallet is connected
-        if (!wallet.isConnected || !wallet.address) {
+        const { isConnected, address } = getWallet()
+        if (!isConnected || !address) {
           throw new Error('Wallet not connected, please connect your OneKey hardware wallet first');
         }
         
         // Use hardware wallet address to call API
-        const walletData = await getSuiAccountBalance(wallet.address);
+        const walletData = await getSuiAccountBalance(address);
         console.dir(walletData)
         // Parse returned data
         let response = ''
@@ -113,7 +122,7 @@ export function AIChat({ onConfirmActions }: { onConfirmActions: (actions: []) =
           })
           
           response += `\nTotal asset value: $${totalUSDValue.toFixed(2)}\n`
-          // response += `\nWallet address: ${wallet.address}\n`
+          // response += `\nWallet address: ${getWallet().address}\n`
         } else {
           response = 'Unable to retrieve your wallet data. Please verify your wallet address is correct or try again later.'
         }
@@ -156,17 +165,22 @@ export function AIChat({ onConfirmActions }: { onConfirmActions: (actions: []) =
           if (agent_response) {
             const response_text = JSON.parse(agent_response.artifacts[0].parts[0].text);
             console.dir(response_text)
-            let real_response = {}
+            let real_response: { summary?: string, actions?: unknown } = {}
             const match = response_text.response.substring(8, response_text.response.length - 3);
             console.log(match)
             if (match) {
               real_response = JSON.parse(match);
             }
             console.dir(real_response)
-            response = real_response.summary
-            setActions(real_response.actions)
+            response = real_response.summary ?? ''
+            try {
+              setActions(parseActionPlan(real_response.actions))
+              showTransactionButton = true
+            } catch (error) {
+              if (!(error instanceof ActionPlanError)) throw error
+              response += `\n\nI can't execute this plan:\n${error.issues.map(issue => `• Step ${issue.step} (${issue.action}): ${issue.message}`).join('\n')}`
+            }
           }
-          showTransactionButton = true
         } else if (content.toLowerCase().includes('trading opportunities') || content.toLowerCase().includes('opportunities')) {
           response = 'Based on recent market analysis, the following specific projects may present trading opportunities:\n\n1. Sui (SUI) - High-performance public chain\n   • Current price: $3.38\n   • Potential return: 50-70% (high risk)\n   • Suggested action: Test with small position, long-term project value needs further observation\n\nRisk notice: The above analysis is for reference only. Crypto markets are highly volatile, please allocate assets according to your risk tolerance and do not invest more than you can afford to lose.'
           showTransactionButton = false
@@ -193,33 +207,61 @@ export function AIChat({ onConfirmActions }: { onConfirmActions: (actions: []) =
     sendMessage(prompt)
   }
 
-  const handleExecuteTransaction = (messageId: string) => {
+  const handleReviewTransaction = async (messageId: string) => {
     setTransaction({
       messageId,
-      status: 'confirming',
-      details: 'Please confirm this transaction on your OneKey hardware wallet'
+      status: 'processing',
+      details: 'Simulating transaction...'
     })
 
-    // Simulate transaction processing
-    setTimeout(() => {
+    try {
+      const prepared = await getWallet().prepareSuiTransaction(actions)
+      setTransaction({ messageId: null, status: 'idle' })
+      setReview({ messageId, prepared })
+    } catch (error) {
       setTransaction({
         messageId,
-        status: 'processing',
-        details: 'Transaction is being processed...'
+        status: 'failed',
+        details: `Transaction preflight failed: ${error instanceof Error ? error.message : 'Unknown error'}`
       })
+    }
+  }
+
+  const handleExecuteTransaction = async (messageId: string, prepared: PreparedTransaction) => {
+    setReview(null)
+    setTransaction({
+      messageId,
+      status: 'confirming',
+      details: 'Please confirm this transaction on your OneKey hardware wallet'
+    })
 
-      setTimeout(() => {
-        // 80% success probability
-        const isSuccess = Math.random() > 0.2
+    try {
+      const result = await onConfirmActions(prepared)
+      if (!result) {
         setTransaction({
           messageId,
-          status: isSuccess ? 'completed' : 'failed',
-          details: isSuccess 
-            ? 'Transaction successfully executed! Transaction hash: 0x3a8d...7e2f' 
-            : 'Transaction failed: Network congestion, please try again later'
+          status: 'failed',
+          details: 'Transaction failed: wallet not connected'
         })
-      }, 2000)
-    }, 3000)
+        return
+      }
+
+      setTransaction({
+        messageId,
+        status: result.status === 'success' ? 'completed' : 'failed',
+        digest: result.digest,
+        details: result.status === 'success'
+          ? `Transaction successfully executed! Transaction hash: ${result.digest} (gas ${formatMist(result.gasUsed.total)} SUI)`
+          : `Transaction failed on chain: ${result.error ?? 'unknown error'}`
+      })
+    } catch (error) {
+      const walletError = toWalletError(error)
+      setTransaction({
+        messageId,
+        status: 'failed',
+        details: `${walletError.title}: ${walletError.message}. ${walletError.recovery}`
+      })
+    }
   }
 
   const getTransactionStatusColor = (status: TransactionState['status']) => {
@@ -231,6 +273,8 @@ export function AIChat({ onConfirmActions }: { onConfirmActions: (actions: []) =
       default: return ''
     }
   }
+
+  const explorerUrl = transaction.digest ? getExplorerTxUrl(transaction.digest) : null
   
   return (
     <Card className="flex flex-col h-[80vh]">
@@ -346,8 +390,13 @@ export function AIChat({ onConfirmActions }: { onConfirmActions: (actions: []) =
                           >
                             Close
                           </Button>
-                          {transaction.status === 'completed' && (
-                            <Button variant="outline" size="sm" className="ml-2">
+                          {transaction.status === 'completed' && explorerUrl && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="ml-2"
+                              onClick={() => window.open(explorerUrl, '_blank')}
+                            >
                               <ExternalLink size={14} className="mr-1" />
                               View Transaction
                             </Button>
@@ -359,10 +408,7 @@ export function AIChat({ onConfirmActions }: { onConfirmActions: (actions: []) =
                     <Button 
                       variant="default" 
                       size="sm" 
-                      onClick={() => {
-                        handleExecuteTransaction(message.id)
-                        onConfirmActions(actions)
-                      }}
+                      onClick={() => handleReviewTransaction(message.id)}
                       className="flex items-center bg-blue-500 hover:bg-blue-600 text-white"
                     >
                       <BarChart2 size={14} className="mr-1" />
@@ -432,6 +478,12 @@ export function AIChat({ onConfirmActions }: { onConfirmActions: (actions: []) =
           </Button>
         </div>
       </CardFooter>
+
+      <TransactionReviewDialog
+        prepared={review?.prepared ?? null}
+        onConfirm={(prepared) => review && handleExecuteTransaction(review.messageId, prepared)}
+        onCancel={() => setReview(null)}
+      />
     </Card>
   )
 } 
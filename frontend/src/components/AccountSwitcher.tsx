@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { AlertCircle, Check, Loader2, Pencil, Plus, RefreshCw, Trash2, X } from 'lucide-react';
+import { hardwareWallet } from '../lib/walletIntegration';
+import { formatMist } from '../lib/transactionExecution';
+import {
+  addCustomAccountPath,
+  removeCustomAccountPath,
+  setAccountLabel,
+  SuiAccount,
+} from '../lib/suiAccounts';
+
+interface AccountSwitcherProps {
+  onAccountChange: (address: string) => void;
+}
+
+interface EditingLabel {
+  path: string;
+  label: string;
+}
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 8)}...${address.slice(-6)}`;
+}
+
+export function AccountSwitcher({ onAccountChange }: AccountSwitcherProps) {
+  const [accounts, setAccounts] = useState<SuiAccount[]>([]);
+  const [activePath, setActivePath] = useState<string>(hardwareWallet.path);
+  const [customPath, setCustomPath] = useState<string>('');
+  const [editing, setEditing] = useState<EditingLabel | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [switchingPath, setSwitchingPath] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAccounts = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setAccounts(await hardwareWallet.discoverAccounts());
+    } catch (err) {
+      console.error('Failed to discover accounts:', err);
+      setError(`Failed to discover accounts: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  const handleSelect = async (path: string) => {
+    setSwitchingPath(path);
+    setError(null);
+    try {
+      const address = await hardwareWallet.selectAccount(path);
+      setActivePath(path);
+      onAccountChange(address);
+    } catch (err) {
+      console.error('Failed to switch account:', err);
+      setError(`Failed to switch account: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setSwitchingPath(null);
+    }
+  };
+
+  const handleSaveLabel = () => {
+    if (!editing || !hardwareWallet.walletId) return;
+    setAccountLabel(hardwareWallet.walletId, editing.path, editing.label);
+    setEditing(null);
+    loadAccounts();
+  };
+
+  const handleAddCustomPath = () => {
+    if (!hardwareWallet.walletId) return;
+    try {
+      addCustomAccountPath(hardwareWallet.walletId, customPath);
+      setCustomPath('');
+      loadAccounts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const handleRemoveCustomPath = (path: string) => {
+    if (!hardwareWallet.walletId) return;
+    removeCustomAccountPath(hardwareWallet.walletId, path);
+    setAccounts((current) => current.filter((account) => account.path !== path));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>Accounts</CardTitle>
+            <CardDescription>SUI accounts derived from your OneKey device</CardDescription>
+          </div>
+          <Button variant="outline" size="icon" onClick={loadAccounts} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {accounts.length === 0 ? (
+          <p className="text-sm text-gray-500">{isLoading ? 'Scanning device...' : 'No accounts found'}</p>
+        ) : (
+          <div className="space-y-2">
+            {accounts.map((account) => (
+              <div
+                key={account.path}
+                className={`flex items-center justify-between border rounded-md p-2 ${
+                  account.path === activePath ? 'border-blue-500 bg-blue-50' : ''
+                }`}
+              >
+                <div className="min-w-0 flex-1">
+                  {editing?.path === account.path ? (
+                    <div className="flex items-center space-x-1">
+                      <input
+                        type="text"
+                        value={editing.label}
+                        onChange={(e) => setEditing({ ...editing, label: e.target.value })}
+                        className="w-40 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        autoFocus
+                      />
+                      <Button variant="ghost" size="icon" onClick={handleSaveLabel}>
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setEditing(null)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-sm">{account.label}</span>
+                      {account.path === activePath && <Badge variant="outline">Active</Badge>}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => setEditing({ path: account.path, label: account.label })}
+                        title="Rename"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                  <div className="text-xs text-gray-500 font-mono" title={account.address}>
+                    {shortAddress(account.address)} · {account.path}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm font-mono">{formatMist(account.balance)} SUI</span>
+                  {account.custom && (
+                    <Button variant="ghost" size="icon" onClick={() => handleRemoveCustomPath(account.path)} title="Remove path">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleSelect(account.path)}
+                    disabled={account.path === activePath || switchingPath !== null}
+                  >
+                    {switchingPath === account.path ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Use'}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex space-x-2 border-t pt-4">
+          <input
+            type="text"
+            value={customPath}
+            onChange={(e) => setCustomPath(e.target.value)}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+            placeholder="m/44'/784'/0'/0'/0'"
+          />
+          <Button variant="outline" onClick={handleAddCustomPath} disabled={!customPath.trim()}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add path
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
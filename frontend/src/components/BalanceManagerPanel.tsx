@@ -0,0 +1,301 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { AlertCircle, ArrowDownToLine, ArrowUpFromLine, Loader2, PlusCircle, RefreshCw, Star } from 'lucide-react';
+import { getWallet, OneKeyWallet } from '../lib/walletIntegration';
+import { getCoinMap, parseUnits, resolveCoin } from '../lib/coins';
+import {
+  buildCreateBalanceManagerTransaction,
+  buildDepositTransaction,
+  buildWithdrawTransaction,
+  discoverBalanceManagers,
+  findCreatedBalanceManager,
+  getDefaultBalanceManager,
+  getManagerBalances,
+  ManagerAssetBalance,
+  setDefaultBalanceManager,
+} from '../lib/balanceManager';
+import { PreparedTransaction } from '../lib/transactionPreflight';
+import { TransactionExecutionResult } from '../lib/transactionExecution';
+import { TransactionReviewDialog } from './TransactionReviewDialog';
+
+interface BalanceManagerPanelProps {
+  balanceManager: string;
+  onBalanceManagerChange: (balanceManager: string) => void;
+  onConfirmTransaction: (prepared: PreparedTransaction) => Promise<TransactionExecutionResult | undefined>;
+  onRejectTransaction: () => void;
+}
+
+function shortId(id: string) {
+  return `${id.slice(0, 8)}...${id.slice(-6)}`;
+}
+
+function formatAmount(value: number) {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 6 });
+}
+
+export function BalanceManagerPanel({ balanceManager, onBalanceManagerChange, onConfirmTransaction, onRejectTransaction }: BalanceManagerPanelProps) {
+  const [managers, setManagers] = useState<string[]>([]);
+  const [defaultManager, setDefaultManager] = useState<string | null>(() => {
+    const { address } = getWallet();
+    return address ? getDefaultBalanceManager(address) : null;
+  });
+  const [balances, setBalances] = useState<ManagerAssetBalance[]>([]);
+  const [coin, setCoin] = useState<string>('SUI');
+  const [amount, setAmount] = useState<string>('');
+  const [isDiscovering, setIsDiscovering] = useState<boolean>(false);
+  const [isLoadingBalances, setIsLoadingBalances] = useState<boolean>(false);
+  const [isPreparing, setIsPreparing] = useState<boolean>(false);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [prepared, setPrepared] = useState<PreparedTransaction | null>(null);
+
+  // Discovery reads the latest selection without running again each time a manager is picked
+  const selection = useRef({ balanceManager, onBalanceManagerChange });
+  useEffect(() => {
+    selection.current = { balanceManager, onBalanceManagerChange };
+  }, [balanceManager, onBalanceManagerChange]);
+
+  const address = getWallet().address;
+
+  useEffect(() => {
+    async function discover() {
+      if (!address) return;
+      setIsDiscovering(true);
+      try {
+        const found = await discoverBalanceManagers(address);
+        setManagers(found);
+        if (!selection.current.balanceManager && found.length > 0) {
+          selection.current.onBalanceManagerChange(found[0]);
+        }
+      } catch (err) {
+        console.error('Failed to discover BalanceManagers:', err);
+        setError(`Failed to discover BalanceManagers: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      } finally {
+        setIsDiscovering(false);
+      }
+    }
+
+    discover();
+  }, [address]);
+
+  const loadBalances = useCallback(async () => {
+    const { address } = getWallet();
+    if (!address || !balanceManager) {
+      setBalances([]);
+      return;
+    }
+
+    setIsLoadingBalances(true);
+    try {
+      setBalances(await getManagerBalances(address, balanceManager));
+    } catch (err) {
+      console.error('Failed to load BalanceManager balances:', err);
+      setError(`Failed to load balances: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsLoadingBalances(false);
+    }
+  }, [balanceManager]);
+
+  useEffect(() => {
+    loadBalances();
+  }, [loadBalances]);
+
+  const review = async (description: string, build: Parameters<OneKeyWallet["prepareTransactionBlock"]>[1]) => {
+    setIsPreparing(true);
+    setError(null);
+
+    try {
+      setPrepared(await getWallet().prepareTransactionBlock(description, build));
+    } catch (err) {
+      console.error('Transaction preflight failed:', err);
+      setError(`Transaction preflight failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleCreate = () => {
+    review('Create BalanceManager', (sender) => buildCreateBalanceManagerTransaction(sender));
+  };
+
+  const handleDeposit = () => {
+    review(`Deposit ${amount} ${coin} into BalanceManager`, (sender) => {
+      const resolved = resolveCoin(coin);
+      return buildDepositTransaction(sender, balanceManager, [
+        { coin: resolved, amount: parseUnits(amount, resolved.scalar) },
+      ]);
+    });
+  };
+
+  const handleWithdraw = (all: boolean) => {
+    review(`Withdraw ${all ? 'all' : amount} ${coin} from BalanceManager`, (sender) => {
+      const resolved = resolveCoin(coin);
+      return buildWithdrawTransaction(sender, balanceManager, [
+        { coin: resolved, amount: all ? 'max' : parseUnits(amount, resolved.scalar) },
+      ]);
+    });
+  };
+
+  const handleSetDefault = () => {
+    const { address } = getWallet();
+    if (!address) return;
+    setDefaultBalanceManager(address, balanceManager);
+    setDefaultManager(getDefaultBalanceManager(address));
+  };
+
+  const handleReviewConfirm = async (reviewed: PreparedTransaction) => {
+    setIsSubmitting(true);
+    try {
+      const result = await onConfirmTransaction(reviewed);
+      if (result?.status === 'success') {
+        const created = findCreatedBalanceManager(result.objectChanges);
+        if (created) {
+          setManagers((current) => [created, ...current]);
+          onBalanceManagerChange(created);
+        } else {
+          setAmount('');
+          await loadBalances();
+        }
+      }
+    } finally {
+      setIsSubmitting(false);
+      setPrepared(null);
+    }
+  };
+
+  const handleReviewCancel = () => {
+    setPrepared(null);
+    onRejectTransaction();
+  };
+
+  const managerOptions = balanceManager && !managers.includes(balanceManager) ? [balanceManager, ...managers] : managers;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>BalanceManager</CardTitle>
+        <CardDescription>Funds available to your DeepBook orders</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <div className="flex-1">
+            <Select value={balanceManager} onValueChange={onBalanceManagerChange} disabled={isDiscovering || managerOptions.length === 0}>
+              <SelectTrigger>
+                {isDiscovering ? (
+                  <div className="flex items-center">
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    <span>Searching...</span>
+                  </div>
+                ) : (
+                  <SelectValue placeholder="No BalanceManager yet" />
+                )}
+              </SelectTrigger>
+              <SelectContent>
+                {managerOptions.map((id) => (
+                  <SelectItem key={id} value={id}>
+                    <span className="font-mono">{shortId(id)}</span>
+                    {id === defaultManager && ' (default)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={handleSetDefault}
+            disabled={!balanceManager || balanceManager === defaultManager}
+            title="Use as default on this network"
+          >
+            <Star className={`h-4 w-4 ${balanceManager && balanceManager === defaultManager ? 'fill-yellow-400 text-yellow-500' : ''}`} />
+          </Button>
+          <Button variant="outline" size="icon" onClick={handleCreate} disabled={isPreparing} title="Create a new BalanceManager">
+            <PlusCircle className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {balanceManager && (
+          <>
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <h4 className="font-medium text-sm">Balances</h4>
+                <Button variant="ghost" size="icon" onClick={loadBalances} disabled={isLoadingBalances}>
+                  <RefreshCw className={`h-4 w-4 ${isLoadingBalances ? 'animate-spin' : ''}`} />
+                </Button>
+              </div>
+              {balances.length === 0 ? (
+                <p className="text-sm text-gray-500">{isLoadingBalances ? 'Loading balances...' : 'No funds deposited'}</p>
+              ) : (
+                <div className="grid grid-cols-3 gap-1 text-sm">
+                  <span className="text-gray-500">Asset</span>
+                  <span className="text-gray-500 text-right">Settled</span>
+                  <span className="text-gray-500 text-right">Locked</span>
+                  {balances.map((balance) => (
+                    <div key={balance.symbol} className="contents">
+                      <span>{balance.symbol}</span>
+                      <span className="text-right font-mono">{formatAmount(balance.settled)}</span>
+                      <span className="text-right font-mono">{formatAmount(balance.locked)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="border-t pt-4 space-y-2">
+              <div className="flex space-x-2">
+                <Select value={coin} onValueChange={setCoin}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.keys(getCoinMap()).map((symbol) => (
+                      <SelectItem key={symbol} value={symbol}>{symbol}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <input
+                  type="text"
+                  value={amount}
+                  onChange={(e) => /^\d*\.?\d*$/.test(e.target.value) && setAmount(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+                  placeholder="Amount"
+                />
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" size="sm" onClick={handleDeposit} disabled={isPreparing || !amount}>
+                  <ArrowDownToLine className="mr-1 h-4 w-4" />
+                  Deposit
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleWithdraw(false)} disabled={isPreparing || !amount}>
+                  <ArrowUpFromLine className="mr-1 h-4 w-4" />
+                  Withdraw
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleWithdraw(true)} disabled={isPreparing}>
+                  Withdraw all
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <TransactionReviewDialog
+        prepared={prepared}
+        isSubmitting={isSubmitting}
+        onConfirm={handleReviewConfirm}
+        onCancel={handleReviewCancel}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { AlertCircle, Delete, Fingerprint, KeyRound, Loader2, ShieldAlert } from 'lucide-react';
+import { useDevicePrompt } from '../hooks/use-device-prompt';
+import {
+  dismissDevicePrompt,
+  enterPinOnDevice,
+  submitPassphrase,
+  submitPin,
+} from '../lib/onekeyUiBridge';
+
+// The device shows a scrambled keypad, the user clicks the matching positions laid out like a numpad
+const PIN_MATRIX = [7, 8, 9, 4, 5, 6, 1, 2, 3];
+
+const TITLES = {
+  pin: 'Enter PIN',
+  passphrase: 'Enter Passphrase',
+  passphraseOnDevice: 'Enter Passphrase on Device',
+  button: 'Confirm on Device',
+  firmware: 'Firmware Notice',
+};
+
+export function DevicePromptDialog() {
+  const prompt = useDevicePrompt();
+  const [pin, setPin] = useState<string>('');
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [confirmation, setConfirmation] = useState<string>('');
+
+  // Never keep secrets around once the prompt is gone
+  useEffect(() => {
+    setPin('');
+    setPassphrase('');
+    setConfirmation('');
+  }, [prompt]);
+
+  if (!prompt) return null;
+
+  const passphraseMismatch = passphrase !== confirmation;
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) dismissDevicePrompt(); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{TITLES[prompt.kind]}</DialogTitle>
+          <DialogDescription>{prompt.device}</DialogDescription>
+        </DialogHeader>
+
+        {prompt.kind === 'pin' && (
+          <div className="space-y-4">
+            {prompt.invalid && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Wrong PIN</AlertTitle>
+                <AlertDescription>The PIN was not accepted, try again.</AlertDescription>
+              </Alert>
+            )}
+            <p className="text-sm text-gray-500">Click the positions of your PIN digits as shown on the device screen.</p>
+            <div className="flex items-center justify-between border rounded-md px-3 py-2">
+              <span className="font-mono tracking-widest">{'•'.repeat(pin.length) || ' '}</span>
+              <Button variant="ghost" size="icon" onClick={() => setPin(pin.slice(0, -1))} disabled={!pin}>
+                <Delete className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {PIN_MATRIX.map((position) => (
+                <Button key={position} variant="outline" className="h-12" onClick={() => setPin(pin + position)}>
+                  •
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {prompt.kind === 'passphrase' && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-500">The passphrase opens a hidden wallet. A different passphrase opens a different wallet.</p>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              placeholder="Passphrase"
+              autoFocus
+            />
+            <input
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              placeholder="Confirm passphrase"
+            />
+            {passphraseMismatch && confirmation && <p className="text-sm text-red-600">Passphrases do not match</p>}
+          </div>
+        )}
+
+        {prompt.kind === 'passphraseOnDevice' && (
+          <div className="flex items-center text-sm text-gray-600">
+            <KeyRound className="h-5 w-5 mr-2" />
+            Type your passphrase on the device to open the hidden wallet.
+          </div>
+        )}
+
+        {prompt.kind === 'button' && (
+          <div className="flex items-center text-sm text-gray-600">
+            <Fingerprint className="h-5 w-5 mr-2" />
+            <span>Check the details on your device and confirm there.</span>
+            <Loader2 className="h-4 w-4 ml-auto animate-spin" />
+          </div>
+        )}
+
+        {prompt.kind === 'firmware' && (
+          <Alert>
+            <ShieldAlert className="h-4 w-4" />
+            <AlertTitle>Firmware</AlertTitle>
+            <AlertDescription>{prompt.message}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          {prompt.kind === 'pin' && (
+            <>
+              <Button variant="outline" onClick={enterPinOnDevice}>Enter on device</Button>
+              <Button onClick={() => submitPin(pin)} disabled={!pin}>Unlock</Button>
+            </>
+          )}
+          {prompt.kind === 'passphrase' && (
+            <>
+              <Button variant="outline" onClick={() => submitPassphrase('', true)}>Enter on device</Button>
+              <Button onClick={() => submitPassphrase(passphrase)} disabled={passphraseMismatch}>Open wallet</Button>
+            </>
+          )}
+          {prompt.kind === 'firmware' ? (
+            <Button variant="outline" onClick={dismissDevicePrompt}>Close</Button>
+          ) : (
+            <Button variant="ghost" onClick={dismissDevicePrompt}>Cancel</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
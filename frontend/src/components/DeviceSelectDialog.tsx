@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { AlertCircle, Loader2, RefreshCw, Usb } from 'lucide-react';
+import { getLastDeviceId, listDevices, OneKeyDevice, preferredDevice } from '../lib/onekeyDevices';
+
+interface DeviceSelectDialogProps {
+  open: boolean;
+  isConnecting?: boolean;
+  onSelect: (device: OneKeyDevice, hiddenWallet: boolean) => void;
+  onCancel: () => void;
+}
+
+export function DeviceSelectDialog({ open, isConnecting = false, onSelect, onCancel }: DeviceSelectDialogProps) {
+  const [devices, setDevices] = useState<OneKeyDevice[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [hiddenWallet, setHiddenWallet] = useState<boolean>(false);
+  const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const search = useCallback(async () => {
+    setIsSearching(true);
+    setError(null);
+    try {
+      const found = await listDevices();
+      setDevices(found);
+      setSelected(preferredDevice(found)?.connectId ?? null);
+    } catch (err) {
+      console.error('Failed to search devices:', err);
+      setError(`Failed to search devices: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsSearching(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) search();
+  }, [open, search]);
+
+  const lastDeviceId = getLastDeviceId();
+  const device = devices.find((d) => d.connectId === selected);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onCancel(); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Select OneKey Device</DialogTitle>
+          <DialogDescription>Choose the hardware wallet to connect</DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {devices.length === 0 ? (
+          <div className="text-center py-6 text-sm text-gray-500">
+            {isSearching ? (
+              <div className="flex items-center justify-center">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Searching for devices...
+              </div>
+            ) : (
+              'No OneKey devices found. Plug in your device and unlock it.'
+            )}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {devices.map((d) => (
+              <button
+                key={d.connectId}
+                type="button"
+                onClick={() => setSelected(d.connectId)}
+                className={`w-full text-left border rounded-md p-3 ${
+                  d.connectId === selected ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Usb className="h-4 w-4 text-gray-500" />
+                    <span className="font-medium">{d.label}</span>
+                    {d.deviceId === lastDeviceId && <Badge variant="outline">Last used</Badge>}
+                  </div>
+                  <span className="text-sm text-gray-500">{d.model}</span>
+                </div>
+                <div className="mt-1 text-xs text-gray-500">
+                  Firmware {d.firmwareVersion} · <span className="font-mono">{d.connectId}</span>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <label className="flex items-start space-x-2 text-sm">
+          <Checkbox
+            className="mt-0.5"
+            checked={hiddenWallet}
+            onCheckedChange={(checked) => setHiddenWallet(checked === true)}
+          />
+          <span>
+            Hidden wallet (passphrase)
+            <span className="block text-xs text-gray-500">You will be asked for the passphrase that opens it</span>
+          </span>
+        </label>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={search} disabled={isSearching || isConnecting}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isSearching ? 'animate-spin' : ''}`} />
+            Search again
+          </Button>
+          <Button onClick={() => device && onSelect(device, hiddenWallet)} disabled={!device || isConnecting}>
+            {isConnecting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Connect
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { AlertCircle, Copy, ExternalLink, Loader2, PenLine, RefreshCw } from 'lucide-react';
+import { hardwareWallet } from '../lib/walletIntegration';
+import { ETHEREUM_EXPLORER_ADDRESS_URL, EvmBalance, getEvmPortfolio } from '../lib/evmPortfolio';
+import { toWalletError, WalletError } from '../lib/walletErrors';
+
+export function EvmPanel() {
+  const [address, setAddress] = useState<string | null>(hardwareWallet.evm_address);
+  const [balances, setBalances] = useState<EvmBalance[]>([]);
+  const [isDeriving, setIsDeriving] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>('');
+  const [signature, setSignature] = useState<string | null>(null);
+  const [isSigning, setIsSigning] = useState<boolean>(false);
+  const [error, setError] = useState<WalletError | null>(null);
+
+  const loadBalances = useCallback(async (owner: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setBalances(await getEvmPortfolio(owner));
+    } catch (err) {
+      console.error('Failed to load Ethereum balances:', err);
+      setError(toWalletError(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (address) loadBalances(address);
+  }, [address, loadBalances]);
+
+  const handleDerive = async () => {
+    setIsDeriving(true);
+    setError(null);
+    try {
+      setAddress(await hardwareWallet.deriveEvmAddress());
+    } catch (err) {
+      console.error('Failed to derive EVM address:', err);
+      setError(toWalletError(err));
+    } finally {
+      setIsDeriving(false);
+    }
+  };
+
+  const handleSign = async () => {
+    setIsSigning(true);
+    setError(null);
+    setSignature(null);
+    try {
+      const signed = await hardwareWallet.signEvmPersonalMessage(message);
+      setSignature(signed.signature);
+    } catch (err) {
+      console.error('Failed to sign EVM message:', err);
+      setError(toWalletError(err));
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>Ethereum</CardTitle>
+            <CardDescription>Read-only mainnet balances of your OneKey EVM account</CardDescription>
+          </div>
+          {address && (
+            <Button variant="outline" size="icon" onClick={() => loadBalances(address)} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>{error.title}</AlertTitle>
+            <AlertDescription>
+              <p>{error.message}</p>
+              <p className="mt-1 font-medium">{error.recovery}</p>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!address ? (
+          <Button className="w-full" onClick={handleDerive} disabled={isDeriving}>
+            {isDeriving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isDeriving ? 'Confirm on your device...' : 'Derive Ethereum address'}
+          </Button>
+        ) : (
+          <>
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-mono" title={address}>{address.slice(0, 8)}...{address.slice(-6)}</span>
+              <a
+                href={`${ETHEREUM_EXPLORER_ADDRESS_URL}${address}`}
+                target="_blank"
+                rel="noreferrer"
+                className="flex items-center text-blue-600 hover:underline"
+              >
+                Etherscan
+                <ExternalLink className="ml-1 h-3 w-3" />
+              </a>
+            </div>
+
+            <div className="space-y-1">
+              {balances.length === 0 ? (
+                <p className="text-sm text-gray-500">{isLoading ? 'Loading balances...' : 'No balances loaded'}</p>
+              ) : (
+                balances.map((balance) => (
+                  <div key={balance.symbol} className="flex justify-between text-sm">
+                    <span className="text-gray-600">{balance.symbol}</span>
+                    <span className="font-mono">{balance.formatted}</span>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="space-y-2 border-t pt-4">
+              <label className="block text-sm font-medium text-gray-700">Sign message (EIP-191)</label>
+              <textarea
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                className="w-full h-20 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                placeholder="Message to sign"
+              />
+              <Button variant="outline" className="w-full" onClick={handleSign} disabled={!message || isSigning}>
+                {isSigning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PenLine className="mr-2 h-4 w-4" />}
+                {isSigning ? 'Confirm on your device...' : 'Sign with OneKey'}
+              </Button>
+              {signature && (
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Signature</span>
+                    <Button variant="ghost" size="sm" onClick={() => navigator.clipboard.writeText(signature)}>
+                      <Copy className="mr-1 h-4 w-4" />
+                      Copy
+                    </Button>
+                  </div>
+                  <p className="text-xs font-mono break-all bg-gray-50 border rounded-md p-2">{signature}</p>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,33 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Checkbox } from './ui/checkbox';
+import { useEvmMode } from '../hooks/use-evm-mode';
+import { setEvmMode } from '../lib/evmMode';
+
+export function EvmSettings() {
+  const evmMode = useEvmMode();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Ethereum</CardTitle>
+        <CardDescription>Optional read-only Ethereum view of the same device</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <label className="flex items-start space-x-2 text-sm">
+          <Checkbox
+            className="mt-0.5"
+            checked={evmMode}
+            onCheckedChange={(checked) => setEvmMode(checked === true)}
+          />
+          <span>
+            Enable EVM mode
+            <span className="block text-xs text-gray-500">
+              Derives your Ethereum address, which needs one more confirmation on the device, and shows its mainnet
+              balances and EIP-191 message signing on the home page.
+            </span>
+          </span>
+        </label>
+      </CardContent>
+    </Card>
+  );
+}
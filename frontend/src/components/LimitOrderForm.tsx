@@ -0,0 +1,296 @@
+import { useMemo, useState } from 'react';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { AlertCircle, Loader2, PlusCircle, Wallet } from 'lucide-react';
+import { TransactionData } from '../lib/tradingAnalysis';
+import { getWallet, OneKeyWallet } from '../lib/walletIntegration';
+import { parseUnits, resolveCoin } from '../lib/coins';
+import { buildLimitOrderTransaction, getPoolMap, LimitOrderType, resolvePoolKey } from '../lib/deepbookOrders';
+import { buildCreateBalanceManagerTransaction, buildDepositTransaction, findCreatedBalanceManager } from '../lib/balanceManager';
+import { PreparedTransaction } from '../lib/transactionPreflight';
+import { TransactionExecutionResult } from '../lib/transactionExecution';
+import { TransactionReviewDialog } from './TransactionReviewDialog';
+
+interface LimitOrderFormProps {
+  transactionData: TransactionData;
+  balanceManager: string;
+  onBalanceManagerChange: (balanceManager: string) => void;
+  onConfirmTransaction: (prepared: PreparedTransaction) => Promise<TransactionExecutionResult | undefined>;
+  onRejectTransaction: () => void;
+}
+
+type ReviewPurpose = 'createManager' | 'deposit' | 'order';
+
+const ORDER_TYPES: { value: LimitOrderType; label: string }[] = [
+  { value: 'NO_RESTRICTION', label: 'Good till cancelled' },
+  { value: 'POST_ONLY', label: 'Post only' },
+  { value: 'IMMEDIATE_OR_CANCEL', label: 'Immediate or cancel' },
+  { value: 'FILL_OR_KILL', label: 'Fill or kill' },
+];
+
+const EXPIRATIONS: { value: string; label: string; ms: number | null }[] = [
+  { value: 'never', label: 'Never', ms: null },
+  { value: '1h', label: '1 hour', ms: 60 * 60 * 1000 },
+  { value: '1d', label: '1 day', ms: 24 * 60 * 60 * 1000 },
+  { value: '7d', label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
+const decimalPattern = /^\d*\.?\d*$/;
+
+export function LimitOrderForm({ transactionData, balanceManager, onBalanceManagerChange, onConfirmTransaction, onRejectTransaction }: LimitOrderFormProps) {
+  const [side, setSide] = useState<'buy' | 'sell'>(transactionData.transactionType);
+  const [price, setPrice] = useState<string>(transactionData.price);
+  const [quantity, setQuantity] = useState<string>('');
+  const [orderType, setOrderType] = useState<LimitOrderType>('NO_RESTRICTION');
+  const [expiration, setExpiration] = useState<string>('never');
+  const [depositAmount, setDepositAmount] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [isPreparing, setIsPreparing] = useState<boolean>(false);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [prepared, setPrepared] = useState<PreparedTransaction | null>(null);
+  const [purpose, setPurpose] = useState<ReviewPurpose>('order');
+
+  const pool = useMemo(() => {
+    try {
+      const poolKey = resolvePoolKey(transactionData.poolName);
+      const { baseCoin, quoteCoin } = getPoolMap()[poolKey];
+      return { poolKey, base: resolveCoin(baseCoin), quote: resolveCoin(quoteCoin) };
+    } catch {
+      return null;
+    }
+  }, [transactionData.poolName]);
+
+  if (!pool) {
+    return (
+      <Alert>
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Limit orders unavailable</AlertTitle>
+        <AlertDescription>{transactionData.pair} is not a known DeepBook pool on this network.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  // Bids lock quote coins in the BalanceManager, asks lock base coins
+  const fundingCoin = side === 'buy' ? pool.quote : pool.base;
+  const orderTotal = parseFloat(price || '0') * parseFloat(quantity || '0');
+
+  const review = async (nextPurpose: ReviewPurpose, description: string, build: Parameters<OneKeyWallet["prepareTransactionBlock"]>[1]) => {
+    setIsPreparing(true);
+    setError(null);
+
+    try {
+      setPurpose(nextPurpose);
+      setPrepared(await getWallet().prepareTransactionBlock(description, build));
+    } catch (err) {
+      console.error('Transaction preflight failed:', err);
+      setError(`Transaction preflight failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  // Called inside the builders so invalid amounts surface as preflight errors
+  const getDeposits = () => {
+    if (!depositAmount || parseFloat(depositAmount) === 0) return [];
+    return [{ coin: fundingCoin, amount: parseUnits(depositAmount, fundingCoin.scalar) }];
+  };
+
+  const handleCreateManager = () => {
+    const hasDeposit = depositAmount !== '' && parseFloat(depositAmount) > 0;
+    review(
+      'createManager',
+      hasDeposit
+        ? `Create BalanceManager and deposit ${depositAmount} ${fundingCoin.symbol}`
+        : 'Create BalanceManager',
+      (sender) => buildCreateBalanceManagerTransaction(sender, getDeposits())
+    );
+  };
+
+  const handleDeposit = () => {
+    review(
+      'deposit',
+      `Deposit ${depositAmount} ${fundingCoin.symbol} into BalanceManager`,
+      (sender) => buildDepositTransaction(sender, balanceManager, getDeposits())
+    );
+  };
+
+  const handlePlaceOrder = () => {
+    // Immediate orders never rest on the book, so an expiration does not apply to them
+    const isImmediate = orderType === 'IMMEDIATE_OR_CANCEL' || orderType === 'FILL_OR_KILL';
+    const selectedExpiration = isImmediate ? null : EXPIRATIONS.find((e) => e.value === expiration)?.ms ?? null;
+    review(
+      'order',
+      `${side === 'buy' ? 'Buy' : 'Sell'} ${quantity} ${pool.base.symbol} at ${price} ${pool.quote.symbol} on ${transactionData.pair}`,
+      (sender) =>
+        buildLimitOrderTransaction(sender, {
+          poolKey: pool.poolKey,
+          balanceManager,
+          isBid: side === 'buy',
+          price: price.trim(),
+          quantity: quantity.trim(),
+          orderType,
+          expiration: selectedExpiration === null ? undefined : Date.now() + selectedExpiration,
+        })
+    );
+  };
+
+  const handleReviewConfirm = async (reviewed: PreparedTransaction) => {
+    setIsSubmitting(true);
+    try {
+      const result = await onConfirmTransaction(reviewed);
+      if (result?.status === 'success') {
+        if (purpose === 'createManager') {
+          onBalanceManagerChange(findCreatedBalanceManager(result.objectChanges) ?? '');
+        }
+        setDepositAmount('');
+      }
+    } finally {
+      setIsSubmitting(false);
+      setPrepared(null);
+    }
+  };
+
+  const handleReviewCancel = () => {
+    setPrepared(null);
+    onRejectTransaction();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Side</label>
+          <Select value={side} onValueChange={(value) => setSide(value as 'buy' | 'sell')}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="buy">Buy {pool.base.symbol}</SelectItem>
+              <SelectItem value="sell">Sell {pool.base.symbol}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Order type</label>
+          <Select value={orderType} onValueChange={(value) => setOrderType(value as LimitOrderType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ORDER_TYPES.map((type) => (
+                <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Price ({pool.quote.symbol})
+          </label>
+          <input
+            type="text"
+            value={price}
+            onChange={(e) => decimalPattern.test(e.target.value) && setPrice(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            placeholder="Limit price"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Quantity ({pool.base.symbol})
+          </label>
+          <input
+            type="text"
+            value={quantity}
+            onChange={(e) => decimalPattern.test(e.target.value) && setQuantity(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            placeholder="Order size"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+          <Select value={expiration} onValueChange={setExpiration} disabled={orderType === 'IMMEDIATE_OR_CANCEL' || orderType === 'FILL_OR_KILL'}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRATIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Total ({pool.quote.symbol})</label>
+          <input
+            type="text"
+            value={orderTotal.toFixed(6)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-50"
+            disabled
+          />
+        </div>
+      </div>
+
+      <div className="border rounded-md p-3 space-y-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">BalanceManager</label>
+          <input
+            type="text"
+            value={balanceManager}
+            onChange={(e) => onBalanceManagerChange(e.target.value.trim())}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+            placeholder="0x... or create a new one"
+          />
+        </div>
+        <div className="flex items-end space-x-2">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Deposit ({fundingCoin.symbol})
+            </label>
+            <input
+              type="text"
+              value={depositAmount}
+              onChange={(e) => decimalPattern.test(e.target.value) && setDepositAmount(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              placeholder={side === 'buy' ? orderTotal.toFixed(6) : quantity || '0'}
+            />
+          </div>
+          {balanceManager ? (
+            <Button variant="outline" onClick={handleDeposit} disabled={isPreparing || !depositAmount}>
+              <Wallet className="mr-2 h-4 w-4" />
+              Deposit
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={handleCreateManager} disabled={isPreparing}>
+              <PlusCircle className="mr-2 h-4 w-4" />
+              Create
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex justify-end">
+        <Button onClick={handlePlaceOrder} disabled={isPreparing || !balanceManager || !price || !quantity}>
+          {isPreparing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+          {isPreparing ? 'Simulating...' : 'Review Limit Order'}
+        </Button>
+      </div>
+
+      <TransactionReviewDialog
+        prepared={prepared}
+        isSubmitting={isSubmitting}
+        onConfirm={handleReviewConfirm}
+        onCancel={handleReviewCancel}
+      />
+    </div>
+  );
+}
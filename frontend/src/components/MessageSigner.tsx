@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { AlertCircle, CheckCircle2, Copy, Loader2, PenLine, XCircle } from 'lucide-react';
+import { getWallet } from '../lib/walletIntegration';
+import { MessageVerification, SignedMessage, verifyMessageSignature } from '../lib/messageSigning';
+import { toWalletError, WalletError } from '../lib/walletErrors';
+
+interface MessageSignerProps {
+  address: string;
+}
+
+export function MessageSigner({ address }: MessageSignerProps) {
+  const [message, setMessage] = useState<string>('');
+  const [signed, setSigned] = useState<SignedMessage | null>(null);
+  const [isSigning, setIsSigning] = useState<boolean>(false);
+  const [error, setError] = useState<WalletError | null>(null);
+
+  const [verifyMessage, setVerifyMessage] = useState<string>('');
+  const [verifySignature, setVerifySignature] = useState<string>('');
+  const [verifyAddress, setVerifyAddress] = useState<string>(address);
+  const [verification, setVerification] = useState<MessageVerification | null>(null);
+  const [isVerifying, setIsVerifying] = useState<boolean>(false);
+  const { backend, canSign } = getWallet();
+
+  const handleSign = async () => {
+    setIsSigning(true);
+    setError(null);
+    setSigned(null);
+    try {
+      setSigned(await getWallet().signPersonalMessage(message));
+    } catch (err) {
+      console.error('Failed to sign message:', err);
+      setError(toWalletError(err));
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    try {
+      setVerification(await verifyMessageSignature(verifyMessage, verifySignature, verifyAddress));
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  // Carry a fresh signature over to the verify tab
+  const handleCheckSigned = () => {
+    if (!signed) return;
+    setVerifyMessage(signed.message);
+    setVerifySignature(signed.signature);
+    setVerifyAddress(signed.address);
+    setVerification(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sign Message</CardTitle>
+        <CardDescription>Prove you own this address to an off-chain service</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="sign">
+          <TabsList className="mb-4">
+            <TabsTrigger value="sign">Sign</TabsTrigger>
+            <TabsTrigger value="verify" onClick={handleCheckSigned}>Verify</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="sign" className="space-y-3">
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              className="w-full h-24 px-3 py-2 border border-gray-300 rounded-md text-sm"
+              placeholder="Message to sign, e.g. the login challenge of the agent server"
+            />
+            <p className="text-xs text-gray-500">
+              {!canSign
+                ? 'Watched addresses cannot sign. Use the Verify tab to check signatures.'
+                : backend === 'onekey'
+                  ? 'Review the message on your device before confirming. Only sign messages you understand.'
+                  : 'Only sign messages you understand.'}
+            </p>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>{error.title}</AlertTitle>
+                <AlertDescription>
+                  <p>{error.message}</p>
+                  <p className="mt-1 font-medium">{error.recovery}</p>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Button className="w-full" onClick={handleSign} disabled={!message || isSigning || !canSign}>
+              {isSigning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PenLine className="mr-2 h-4 w-4" />}
+              {isSigning ? 'Signing...' : backend === 'onekey' ? 'Sign with OneKey' : 'Sign'}
+            </Button>
+
+            {signed && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Signature</span>
+                  <Button variant="ghost" size="sm" onClick={() => navigator.clipboard.writeText(signed.signature)}>
+                    <Copy className="mr-1 h-4 w-4" />
+                    Copy
+                  </Button>
+                </div>
+                <p className="text-xs font-mono break-all bg-gray-50 border rounded-md p-2">{signed.signature}</p>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="verify" className="space-y-3">
+            <textarea
+              value={verifyMessage}
+              onChange={(e) => { setVerifyMessage(e.target.value); setVerification(null); }}
+              className="w-full h-20 px-3 py-2 border border-gray-300 rounded-md text-sm"
+              placeholder="Signed message"
+            />
+            <input
+              type="text"
+              value={verifySignature}
+              onChange={(e) => { setVerifySignature(e.target.value); setVerification(null); }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+              placeholder="Base64 signature"
+            />
+            <input
+              type="text"
+              value={verifyAddress}
+              onChange={(e) => { setVerifyAddress(e.target.value); setVerification(null); }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+              placeholder="0x... signer address"
+            />
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={handleVerify}
+              disabled={!verifyMessage || !verifySignature || !verifyAddress || isVerifying}
+            >
+              {isVerifying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Verify signature
+            </Button>
+
+            {verification && (
+              verification.valid ? (
+                <div className="flex items-center text-sm text-green-700">
+                  <CheckCircle2 className="h-4 w-4 mr-2" />
+                  Valid signature from this address
+                </div>
+              ) : (
+                <div className="text-sm text-red-600">
+                  <div className="flex items-center">
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Signature does not match this message and address
+                  </div>
+                  {verification.error && <p className="mt-1 text-xs break-all">{verification.error}</p>}
+                </div>
+              )
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,368 @@
+import { useMemo, useState } from 'react';
+import { Transaction } from '@mysten/sui/transactions';
+import { isValidSuiAddress } from '@mysten/sui/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { Progress } from './ui/progress';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { AlertCircle, CheckCircle2, Circle, Copy, KeyRound, Loader2, PenLine, Plus, Send, Trash2, Upload, XCircle } from 'lucide-react';
+import { getWallet } from '../lib/walletIntegration';
+import { parseUnits, resolveCoin } from '../lib/coins';
+import { addCoinTransfer } from '../lib/coinSelection';
+import { formatMist } from '../lib/transactionExecution';
+import {
+  createMultisigTransaction,
+  executeMultisigTransaction,
+  exportMultisigTransaction,
+  importMultisigTransaction,
+  loadMultisigConfig,
+  MAX_MULTISIG_MEMBERS,
+  MultisigConfig,
+  MultisigMember,
+  PendingMultisigTransaction,
+  saveMultisigConfig,
+  signAsMember,
+  signedWeight,
+  toMultisigPublicKey,
+} from '../lib/multisig';
+import { toWalletError, WalletError } from '../lib/walletErrors';
+
+const decimalPattern = /^\d*\.?\d*$/;
+
+const EMPTY_CONFIG: MultisigConfig = { threshold: 1, members: [] };
+
+function shortId(id: string) {
+  return `${id.slice(0, 8)}...${id.slice(-6)}`;
+}
+
+export function MultisigPanel() {
+  const [config, setConfig] = useState<MultisigConfig>(() => loadMultisigConfig() ?? EMPTY_CONFIG);
+  const [saved, setSaved] = useState<boolean>(true);
+  const [recipient, setRecipient] = useState<string>('');
+  const [amount, setAmount] = useState<string>('');
+  const [pending, setPending] = useState<PendingMultisigTransaction | null>(null);
+  const [importText, setImportText] = useState<string>('');
+  const [busy, setBusy] = useState<'key' | 'create' | 'sign' | 'import' | 'submit' | null>(null);
+  const [digest, setDigest] = useState<string | null>(null);
+  const [error, setError] = useState<WalletError | null>(null);
+  const { backend, canSign } = getWallet();
+
+  // Address of the configuration being edited, or why it is not valid yet
+  const derived = useMemo(() => {
+    try {
+      return { address: toMultisigPublicKey(config).toSuiAddress(), problem: null };
+    } catch (err) {
+      return { address: null, problem: err instanceof Error ? err.message : String(err) };
+    }
+  }, [config]);
+
+  const run = async (step: NonNullable<typeof busy>, action: () => Promise<void>) => {
+    setBusy(step);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(`Multisig ${step} failed:`, err);
+      setError(toWalletError(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const updateConfig = (next: MultisigConfig) => {
+    setConfig(next);
+    setSaved(false);
+  };
+
+  const updateMember = (index: number, change: Partial<MultisigMember>) => {
+    updateConfig({
+      ...config,
+      members: config.members.map((member, i) => (i === index ? { ...member, ...change } : member)),
+    });
+  };
+
+  const handleAddMember = () => {
+    updateConfig({ ...config, members: [...config.members, { label: '', publicKey: '', weight: 1 }] });
+  };
+
+  const handleRemoveMember = (index: number) => {
+    updateConfig({ ...config, members: config.members.filter((_, i) => i !== index) });
+  };
+
+  const handleAddOwnKey = () =>
+    run('key', async () => {
+      const publicKey = await getWallet().getSignerPublicKey();
+      if (config.members.some((member) => member.publicKey.trim() === publicKey)) {
+        throw new Error('This wallet is already a member');
+      }
+      updateConfig({
+        ...config,
+        members: [...config.members, { label: backend === 'onekey' ? 'My OneKey' : 'This wallet', publicKey, weight: 1 }],
+      });
+    });
+
+  const handleSave = () => {
+    try {
+      saveMultisigConfig(config);
+      setSaved(true);
+      setPending(null);
+    } catch (err) {
+      setError(toWalletError(err));
+    }
+  };
+
+  const handleCreate = () =>
+    run('create', async () => {
+      if (!isValidSuiAddress(recipient)) {
+        throw new Error(`"${recipient}" is not a SUI address`);
+      }
+      const sui = resolveCoin('SUI');
+      const value = parseUnits(amount, sui.scalar);
+      setDigest(null);
+      setPending(
+        await createMultisigTransaction(config, `Send ${amount} SUI to ${shortId(recipient)}`, async (sender) => {
+          const tx = new Transaction();
+          await addCoinTransfer(tx, { owner: sender, coin: sui, amount: value, recipient });
+          return tx;
+        })
+      );
+    });
+
+  const handleSign = () =>
+    run('sign', async () => {
+      if (!pending) return;
+      setPending(await signAsMember(getWallet(), pending));
+    });
+
+  const handleImport = () =>
+    run('import', async () => {
+      setPending(await importMultisigTransaction(importText.trim(), pending));
+      setImportText('');
+      setDigest(null);
+    });
+
+  const handleSubmit = () =>
+    run('submit', async () => {
+      if (!pending) return;
+      const result = await executeMultisigTransaction(pending);
+      if (result.status !== 'success') {
+        throw new WalletError(`Transaction ${result.digest} failed on chain: ${result.error}`);
+      }
+      setDigest(result.digest);
+      setPending(null);
+    });
+
+  const weight = pending ? signedWeight(pending) : 0;
+  const threshold = pending?.config.threshold ?? config.threshold;
+  const preflightFailed = pending?.prepared.preflight.status !== 'success';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Multisig</CardTitle>
+        <CardDescription>Sign treasury transactions as one member of a Sui multisig</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>{error.title}</AlertTitle>
+            <AlertDescription>
+              <p className="break-all">{error.message}</p>
+              <p className="mt-1 font-medium">{error.recovery}</p>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Tabs defaultValue={derived.address ? 'transaction' : 'members'}>
+          <TabsList className="mb-4">
+            <TabsTrigger value="members">Members</TabsTrigger>
+            <TabsTrigger value="transaction">Transaction</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="members" className="space-y-3">
+            {config.members.length === 0 && (
+              <p className="text-sm text-gray-500">Add the public key of every member, including your own.</p>
+            )}
+            {config.members.map((member, index) => (
+              <div key={index} className="space-y-2 border rounded-md p-3">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={member.label}
+                    onChange={(e) => updateMember(index, { label: e.target.value })}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    placeholder="Name"
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    max={255}
+                    value={member.weight}
+                    onChange={(e) => updateMember(index, { weight: Number(e.target.value) })}
+                    className="w-20 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    title="Weight"
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => handleRemoveMember(index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <input
+                  type="text"
+                  value={member.publicKey}
+                  onChange={(e) => updateMember(index, { publicKey: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs"
+                  placeholder="Base64 Sui public key"
+                />
+              </div>
+            ))}
+
+            <div className="flex space-x-2">
+              <Button variant="outline" className="flex-1" onClick={handleAddMember} disabled={config.members.length >= MAX_MULTISIG_MEMBERS}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add member
+              </Button>
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={handleAddOwnKey}
+                disabled={!canSign || busy !== null || config.members.length >= MAX_MULTISIG_MEMBERS}
+              >
+                {busy === 'key' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+                Add my key
+              </Button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Threshold</label>
+              <input
+                type="number"
+                min={1}
+                value={config.threshold}
+                onChange={(e) => updateConfig({ ...config, threshold: Number(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+
+            {derived.address ? (
+              <div className="text-sm">
+                <span className="text-gray-600">Multisig address: </span>
+                <span className="font-mono break-all">{derived.address}</span>
+              </div>
+            ) : (
+              config.members.length > 0 && <p className="text-sm text-red-600">{derived.problem}</p>
+            )}
+
+            <Button className="w-full" onClick={handleSave} disabled={!derived.address || saved}>
+              {saved && derived.address ? 'Saved' : 'Save members'}
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="transaction" className="space-y-3">
+            {!derived.address ? (
+              <p className="text-sm text-gray-500">Set up the members to build a transaction, or import one from another member.</p>
+            ) : (
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">Send SUI from {shortId(derived.address)}</label>
+                <input
+                  type="text"
+                  value={recipient}
+                  onChange={(e) => setRecipient(e.target.value.trim())}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+                  placeholder="0x... recipient"
+                />
+                <input
+                  type="text"
+                  value={amount}
+                  onChange={(e) => decimalPattern.test(e.target.value) && setAmount(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  placeholder="Amount in SUI"
+                />
+                <Button variant="outline" className="w-full" onClick={handleCreate} disabled={!recipient || !amount || busy !== null}>
+                  {busy === 'create' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Build transaction
+                </Button>
+              </div>
+            )}
+
+            {pending && (
+              <div className="space-y-3 border-t pt-3">
+                <div className="text-sm">
+                  <p className="font-medium">{pending.prepared.description}</p>
+                  {preflightFailed ? (
+                    <p className="flex items-center text-red-600 break-all">
+                      <XCircle className="h-4 w-4 mr-2 shrink-0" />
+                      Dry run failed: {pending.prepared.preflight.error}
+                    </p>
+                  ) : (
+                    <p className="flex items-center text-green-700">
+                      <CheckCircle2 className="h-4 w-4 mr-2" />
+                      Dry run passed, estimated gas {formatMist(pending.prepared.preflight.estimatedGas)} SUI
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span>Signatures</span>
+                    <span>{weight} / {threshold}</span>
+                  </div>
+                  <Progress value={Math.min(100, (weight / threshold) * 100)} />
+                  {pending.config.members.map((member) => {
+                    const signed = pending.signatures.some((s) => s.publicKey === member.publicKey.trim());
+                    return (
+                      <div key={member.publicKey} className="flex items-center text-sm">
+                        {signed ? <CheckCircle2 className="h-4 w-4 mr-2 text-green-600" /> : <Circle className="h-4 w-4 mr-2 text-gray-400" />}
+                        <span className="flex-1">{member.label || shortId(member.publicKey)}</span>
+                        <span className="text-gray-500">weight {member.weight}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <Button onClick={handleSign} disabled={!canSign || preflightFailed || busy !== null}>
+                    {busy === 'sign' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PenLine className="mr-2 h-4 w-4" />}
+                    {backend === 'onekey' ? 'Sign with OneKey' : 'Sign'}
+                  </Button>
+                  <Button variant="outline" onClick={() => navigator.clipboard.writeText(exportMultisigTransaction(pending))}>
+                    <Copy className="mr-2 h-4 w-4" />
+                    Copy for members
+                  </Button>
+                </div>
+                <Button className="w-full" onClick={handleSubmit} disabled={weight < threshold || preflightFailed || busy !== null}>
+                  {busy === 'submit' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                  Combine and submit
+                </Button>
+                <Button variant="ghost" className="w-full" onClick={() => setPending(null)} disabled={busy !== null}>
+                  Discard
+                </Button>
+              </div>
+            )}
+
+            <div className="space-y-2 border-t pt-3">
+              <label className="block text-sm font-medium text-gray-700">Import from another member</label>
+              <textarea
+                value={importText}
+                onChange={(e) => setImportText(e.target.value)}
+                className="w-full h-20 px-3 py-2 border border-gray-300 rounded-md font-mono text-xs"
+                placeholder="Paste a transaction copied by another member"
+              />
+              <Button variant="outline" className="w-full" onClick={handleImport} disabled={!importText.trim() || busy !== null}>
+                {busy === 'import' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                Import signatures
+              </Button>
+            </div>
+
+            {digest && (
+              <p className="text-sm text-green-700 break-all">
+                Submitted: <span className="font-mono">{digest}</span>
+              </p>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { useNetwork } from '../hooks/use-network';
+import { DEFAULT_LOCALNET_RPC_URL, NETWORK_NAMES, NetworkName, probeRpcUrl, setNetwork } from '../lib/network';
+
+const NETWORK_LABELS: Record<NetworkName, string> = {
+  mainnet: 'Mainnet',
+  testnet: 'Testnet',
+  localnet: 'Localnet',
+};
+
+export function NetworkSettings() {
+  const network = useNetwork();
+  const [name, setName] = useState<NetworkName>(network.name);
+  const [localnetRpcUrl, setLocalnetRpcUrl] = useState<string>(
+    network.name === 'localnet' ? network.rpcUrl : DEFAULT_LOCALNET_RPC_URL
+  );
+  const [isSwitching, setIsSwitching] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = async () => {
+    setIsSwitching(true);
+    setError(null);
+
+    try {
+      if (name === 'localnet') {
+        // A node that does not answer would leave every view failing, so refuse it up front
+        await probeRpcUrl(localnetRpcUrl.trim());
+      }
+      setNetwork(name, localnetRpcUrl);
+    } catch (err) {
+      console.error('Failed to switch network:', err);
+      setError(`Failed to switch network: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  const unchanged = name === network.name && (name !== 'localnet' || localnetRpcUrl.trim() === network.rpcUrl);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Network</CardTitle>
+        <CardDescription>Chain used for balances, quotes, orders and transactions</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">Network</label>
+          <Select value={name} onValueChange={(value) => setName(value as NetworkName)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {NETWORK_NAMES.map((option) => (
+                <SelectItem key={option} value={option}>{NETWORK_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {name === 'localnet' && (
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Localnet RPC URL</label>
+            <input
+              type="text"
+              value={localnetRpcUrl}
+              onChange={(e) => setLocalnetRpcUrl(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+              placeholder={DEFAULT_LOCALNET_RPC_URL}
+            />
+            <p className="text-xs text-gray-500">DeepBook, swaps and market data are not available on localnet.</p>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={handleApply} disabled={isSwitching || unchanged}>
+            {isSwitching && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Switch network
+          </Button>
+        </div>
+
+        <div className="border-t pt-4 grid grid-cols-3 gap-1 text-sm">
+          <span className="text-gray-500">Connected to</span>
+          <span className="col-span-2">{NETWORK_LABELS[network.name]}</span>
+          <span className="text-gray-500">RPC</span>
+          <span className="col-span-2 font-mono break-all">{network.rpcUrl}</span>
+          <span className="text-gray-500">DeepBook indexer</span>
+          <span className="col-span-2 font-mono break-all">{network.indexerUrl ?? 'None'}</span>
+          <span className="text-gray-500">DeepBook package</span>
+          <span className="col-span-2 font-mono break-all">{network.packageIds?.DEEPBOOK_PACKAGE_ID ?? 'Not deployed'}</span>
+          <span className="text-gray-500">Known coins</span>
+          <span className="col-span-2">{Object.keys(network.coins).join(', ')}</span>
+          <span className="text-gray-500">Pools</span>
+          <span className="col-span-2">{Object.keys(network.pools).length}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,246 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isValidSuiObjectId } from '@mysten/sui/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { AlertCircle, Check, Loader2, Pencil, RefreshCw, Trash2, X } from 'lucide-react';
+import { OrderInfo } from '../lib/deepbookClient';
+import {
+  buildCancelAllOrdersTransaction,
+  buildCancelOrdersTransaction,
+  buildModifyOrderTransaction,
+  getAllOpenOrders,
+  PoolOpenOrders,
+} from '../lib/deepbookOrders';
+import { getWallet, OneKeyWallet } from '../lib/walletIntegration';
+import { PreparedTransaction } from '../lib/transactionPreflight';
+import { TransactionExecutionResult } from '../lib/transactionExecution';
+import { TransactionReviewDialog } from './TransactionReviewDialog';
+
+interface OpenOrdersProps {
+  balanceManager: string;
+  onConfirmTransaction: (prepared: PreparedTransaction) => Promise<TransactionExecutionResult | undefined>;
+  onRejectTransaction: () => void;
+}
+
+interface EditingOrder {
+  poolKey: string;
+  orderId: string;
+  quantity: string;
+}
+
+function formatAmount(value: number) {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 6 });
+}
+
+export function OpenOrders({ balanceManager, onConfirmTransaction, onRejectTransaction }: OpenOrdersProps) {
+  const [pools, setPools] = useState<PoolOpenOrders[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isPreparing, setIsPreparing] = useState<boolean>(false);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<EditingOrder | null>(null);
+  const [prepared, setPrepared] = useState<PreparedTransaction | null>(null);
+
+  const latestRequest = useRef(0);
+
+  const loadOrders = useCallback(async () => {
+    // Orders of a manager that is no longer selected can arrive late and are dropped
+    const request = ++latestRequest.current;
+    const isCurrent = () => request === latestRequest.current;
+    const { address } = getWallet();
+    // The id comes from a text field, partial ids are never queried across every pool
+    if (!address || !isValidSuiObjectId(balanceManager)) {
+      setPools([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const found = await getAllOpenOrders(address, balanceManager);
+      if (isCurrent()) setPools(found);
+    } catch (err) {
+      if (!isCurrent()) return;
+      console.error('Failed to load open orders:', err);
+      setError(`Failed to load open orders: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      if (isCurrent()) setIsLoading(false);
+    }
+  }, [balanceManager]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  const review = async (description: string, build: Parameters<OneKeyWallet["prepareTransactionBlock"]>[1]) => {
+    setIsPreparing(true);
+    setError(null);
+
+    try {
+      setPrepared(await getWallet().prepareTransactionBlock(description, build));
+    } catch (err) {
+      console.error('Transaction preflight failed:', err);
+      setError(`Transaction preflight failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleCancel = (pool: PoolOpenOrders, order: OrderInfo) => {
+    review(
+      `Cancel ${order.isBid ? 'buy' : 'sell'} order at ${order.normalized_price} on ${pool.pair}`,
+      (sender) => buildCancelOrdersTransaction(sender, balanceManager, pool.poolKey, [order.orderId])
+    );
+  };
+
+  const handleCancelAll = (pool: PoolOpenOrders) => {
+    review(
+      `Cancel all ${pool.orders.length} orders on ${pool.pair}`,
+      (sender) => buildCancelAllOrdersTransaction(sender, balanceManager, pool.poolKey)
+    );
+  };
+
+  const handleModify = (pool: PoolOpenOrders, order: OrderInfo) => {
+    if (!editing) return;
+    const newQuantity = parseFloat(editing.quantity);
+    review(
+      `Reduce order at ${order.normalized_price} on ${pool.pair} to ${editing.quantity}`,
+      (sender) => buildModifyOrderTransaction(sender, balanceManager, pool.poolKey, order, newQuantity)
+    );
+  };
+
+  const handleReviewConfirm = async (reviewed: PreparedTransaction) => {
+    setIsSubmitting(true);
+    try {
+      const result = await onConfirmTransaction(reviewed);
+      if (result?.status === 'success') {
+        setEditing(null);
+        await loadOrders();
+      }
+    } finally {
+      setIsSubmitting(false);
+      setPrepared(null);
+    }
+  };
+
+  const handleReviewCancel = () => {
+    setPrepared(null);
+    onRejectTransaction();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>Open Orders</CardTitle>
+            <CardDescription>DeepBook orders of your BalanceManager</CardDescription>
+          </div>
+          <Button variant="outline" size="icon" onClick={loadOrders} disabled={isLoading || !balanceManager}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!balanceManager ? (
+          <p className="text-sm text-gray-500">Set a BalanceManager to see its orders.</p>
+        ) : isLoading && pools.length === 0 ? (
+          <div className="flex items-center text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading orders...
+          </div>
+        ) : pools.length === 0 ? (
+          <p className="text-sm text-gray-500">No open orders</p>
+        ) : (
+          pools.map((pool) => (
+            <div key={pool.poolKey} className="space-y-2">
+              <div className="flex justify-between items-center">
+                <h4 className="font-medium">{pool.pair}</h4>
+                <Button variant="ghost" size="sm" onClick={() => handleCancelAll(pool)} disabled={isPreparing}>
+                  <Trash2 className="mr-1 h-4 w-4" />
+                  Cancel all
+                </Button>
+              </div>
+
+              {pool.orders.map((order) => {
+                const isEditing = editing?.poolKey === pool.poolKey && editing.orderId === order.orderId;
+                const filled = order.quantity > 0 ? (order.filled_quantity / order.quantity) * 100 : 0;
+
+                return (
+                  <div key={order.orderId} className="border rounded-md p-2 space-y-2">
+                    <div className="flex justify-between items-center text-sm">
+                      <Badge className={order.isBid ? 'bg-green-600' : 'bg-red-500'}>
+                        {order.isBid ? 'Buy' : 'Sell'}
+                      </Badge>
+                      <span className="font-mono">
+                        {formatAmount(order.quantity)} @ {formatAmount(order.normalized_price)}
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Progress value={filled} className="flex-1" />
+                      <span className="text-xs text-gray-500 w-24 text-right">
+                        {formatAmount(order.filled_quantity)} filled
+                      </span>
+                    </div>
+
+                    {isEditing ? (
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="text"
+                          value={editing.quantity}
+                          onChange={(e) => /^\d*\.?\d*$/.test(e.target.value) && setEditing({ ...editing, quantity: e.target.value })}
+                          className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                          placeholder="New quantity"
+                        />
+                        <Button size="icon" variant="outline" onClick={() => handleModify(pool, order)} disabled={isPreparing || !editing.quantity}>
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => setEditing(null)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex justify-end space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setEditing({ poolKey: pool.poolKey, orderId: order.orderId, quantity: String(order.quantity) })}
+                        >
+                          <Pencil className="mr-1 h-3 w-3" />
+                          Modify
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleCancel(pool, order)} disabled={isPreparing}>
+                          <X className="mr-1 h-3 w-3" />
+                          Cancel
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <TransactionReviewDialog
+        prepared={prepared}
+        isSubmitting={isSubmitting}
+        onConfirm={handleReviewConfirm}
+        onCancel={handleReviewCancel}
+      />
+    </Card>
+  );
+}
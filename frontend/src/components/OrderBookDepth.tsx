@@ -0,0 +1,195 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Area, AreaChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { AlertCircle, Loader2, RefreshCw } from 'lucide-react';
+import { BookLevel, bookLiquidity, cumulativeDepth, fetchOrderBook, Level2Book } from '../lib/orderBookDepth';
+
+interface OrderBookDepthProps {
+  pair: string;
+  poolName: string;
+}
+
+const LADDER_LEVELS = 10;
+// The depth chart spans this far either side of mid, in percent
+const CHART_RANGE_PERCENT = 5;
+const BID_COLOR = '#16a34a';
+const ASK_COLOR = '#dc2626';
+
+function formatPrice(value: number) {
+  return value.toPrecision(6);
+}
+
+function formatSize(value: number) {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+interface LadderRow extends BookLevel {
+  total: number;
+}
+
+function withTotals(levels: BookLevel[]): LadderRow[] {
+  let total = 0;
+  return levels.slice(0, LADDER_LEVELS).map((level) => {
+    total += level.quantity;
+    return { ...level, total };
+  });
+}
+
+export function OrderBookDepth({ pair, poolName }: OrderBookDepthProps) {
+  const [book, setBook] = useState<Level2Book | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBook = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setBook(await fetchOrderBook(poolName));
+    } catch (err) {
+      console.error('Failed to load order book:', err);
+      setBook(null);
+      setError(`Failed to load order book: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [poolName]);
+
+  useEffect(() => {
+    loadBook();
+  }, [loadBook]);
+
+  const [baseSymbol, quoteSymbol] = pair.split('/');
+  const liquidity = book ? bookLiquidity(book) : null;
+  const asks = book ? withTotals(book.asks) : [];
+  const bids = book ? withTotals(book.bids) : [];
+  const maxTotal = Math.max(asks[asks.length - 1]?.total ?? 0, bids[bids.length - 1]?.total ?? 0);
+  const depthData = book && liquidity
+    ? cumulativeDepth(book).filter(
+        (point) => Math.abs(point.price - liquidity.mid) <= (liquidity.mid * CHART_RANGE_PERCENT) / 100
+      )
+    : [];
+
+  const renderRow = (row: LadderRow, color: string) => (
+    <div key={row.price} className="relative grid grid-cols-3 px-2 py-0.5 text-xs font-mono">
+      <div
+        className="absolute inset-y-0 right-0 opacity-10"
+        style={{ width: `${(row.total / maxTotal) * 100}%`, backgroundColor: color }}
+      />
+      <span style={{ color }}>{formatPrice(row.price)}</span>
+      <span className="text-right">{formatSize(row.quantity)}</span>
+      <span className="text-right">{formatSize(row.total)}</span>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle>{pair} Order Book</CardTitle>
+            <CardDescription>
+              DeepBook level-2 depth around the mid price
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadBook} disabled={isLoading}>
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!liquidity ? (
+          <p className="text-sm text-gray-500">
+            {isLoading ? 'Loading order book...' : `No resting orders in ${pair}`}
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500">Mid</p>
+                <p className="font-medium">{formatPrice(liquidity.mid)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Spread</p>
+                <p className="font-medium">{(liquidity.spread * 100).toFixed(3)}%</p>
+              </div>
+              {[liquidity.within1Pct, liquidity.within2Pct].map((depth) => (
+                <div key={depth.percent}>
+                  <p className="text-gray-500">Within ±{depth.percent}% ({baseSymbol})</p>
+                  <p className="font-medium">
+                    <span style={{ color: BID_COLOR }}>{formatSize(depth.bidBase)}</span>
+                    {' / '}
+                    <span style={{ color: ASK_COLOR }}>{formatSize(depth.askBase)}</span>
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="border rounded-md">
+                <div className="grid grid-cols-3 px-2 py-1 text-xs text-gray-500 border-b">
+                  <span>Price ({quoteSymbol})</span>
+                  <span className="text-right">Size ({baseSymbol})</span>
+                  <span className="text-right">Total</span>
+                </div>
+                {[...asks].reverse().map((row) => renderRow(row, ASK_COLOR))}
+                <div className="px-2 py-1 text-xs font-medium border-y bg-gray-50">
+                  Mid {formatPrice(liquidity.mid)}
+                </div>
+                {bids.map((row) => renderRow(row, BID_COLOR))}
+              </div>
+
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={depthData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      dataKey="price"
+                      type="number"
+                      domain={['dataMin', 'dataMax']}
+                      tickFormatter={formatPrice}
+                      tick={{ fontSize: 10 }}
+                    />
+                    <YAxis tickFormatter={formatSize} tick={{ fontSize: 10 }} width={60} />
+                    <Tooltip
+                      labelFormatter={(price: number) => `Price ${formatPrice(price)}`}
+                      formatter={(value: number) => formatSize(value)}
+                    />
+                    <ReferenceLine x={liquidity.mid} stroke="#94a3b8" strokeDasharray="3 3" />
+                    <Area
+                      dataKey="bidDepth"
+                      name={`Bids (${baseSymbol})`}
+                      type="stepBefore"
+                      stroke={BID_COLOR}
+                      fill={BID_COLOR}
+                      fillOpacity={0.2}
+                      isAnimationActive={false}
+                    />
+                    <Area
+                      dataKey="askDepth"
+                      name={`Asks (${baseSymbol})`}
+                      type="stepAfter"
+                      stroke={ASK_COLOR}
+                      fill={ASK_COLOR}
+                      fillOpacity={0.2}
+                      isAnimationActive={false}
+                    />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,342 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { isValidSuiObjectId } from '@mysten/sui/utils';
+import {
+  Bar,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Line,
+  ReferenceDot,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { AlertCircle, Loader2, RefreshCw } from 'lucide-react';
+import { AccountFill, Candle, CANDLE_INTERVAL_MS, CandleInterval, getAccountFills, getCandles } from '../lib/marketHistory';
+import { bollinger, ema, sma } from '../lib/indicators';
+import { OrderInfo } from '../lib/deepbookClient';
+import { getOpenOrders, resolvePoolKey } from '../lib/deepbookOrders';
+import { getWallet } from '../lib/walletIntegration';
+
+interface PriceChartProps {
+  pair: string;
+  poolName: string;
+  balanceManager: string;
+}
+
+const TIMEFRAMES: CandleInterval[] = ['1m', '5m', '1h', '4h', '1d'];
+const CANDLE_COUNT = 120;
+const UP_COLOR = '#16a34a';
+const DOWN_COLOR = '#dc2626';
+
+type Overlay = 'sma20' | 'ema20' | 'bollinger';
+
+const OVERLAY_LABELS: Record<Overlay, string> = {
+  sma20: 'SMA 20',
+  ema20: 'EMA 20',
+  bollinger: 'Bollinger (20, 2)',
+};
+
+interface ChartPoint extends Candle {
+  // Low to high, drawn as the wick of the candle
+  range: [number, number];
+  sma20: number | null;
+  ema20: number | null;
+  bbUpper: number | null;
+  bbLower: number | null;
+}
+
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: ChartPoint;
+}
+
+// Recharts draws the low-high range bar, the body is placed inside it at the open and close
+function CandleShape({ x = 0, y = 0, width = 0, height = 0, payload }: CandleShapeProps) {
+  if (!payload) return <g />;
+  const { open, close, high, low } = payload;
+  const priceToY = (price: number) => (high === low ? y : y + ((high - price) / (high - low)) * height);
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const bodyTop = priceToY(Math.max(open, close));
+  const bodyHeight = Math.max(priceToY(Math.min(open, close)) - bodyTop, 1);
+  const center = x + width / 2;
+
+  return (
+    <g stroke={color} fill={color}>
+      <line x1={center} x2={center} y1={y} y2={y + height} />
+      <rect x={x + width * 0.15} y={bodyTop} width={width * 0.7} height={bodyHeight} />
+    </g>
+  );
+}
+
+function formatPrice(value: number) {
+  return value.toPrecision(6);
+}
+
+function formatTime(time: number, interval: CandleInterval) {
+  const date = new Date(time);
+  return interval === '1d'
+    ? date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+    : date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+}
+
+interface CandleTooltipProps {
+  active?: boolean;
+  payload?: { payload: ChartPoint }[];
+  interval: CandleInterval;
+}
+
+function CandleTooltip({ active, payload, interval }: CandleTooltipProps) {
+  const point = active ? payload?.[0]?.payload : undefined;
+  if (!point) return null;
+
+  return (
+    <div className="rounded-md border bg-white p-2 text-xs shadow">
+      <p className="font-medium">{new Date(point.time).toLocaleString()} ({interval})</p>
+      <p>O {formatPrice(point.open)} H {formatPrice(point.high)} L {formatPrice(point.low)} C {formatPrice(point.close)}</p>
+      <p>Volume {point.volume.toLocaleString(undefined, { maximumFractionDigits: 2 })}</p>
+      {point.sma20 !== null && <p>SMA 20 {formatPrice(point.sma20)}</p>}
+      {point.ema20 !== null && <p>EMA 20 {formatPrice(point.ema20)}</p>}
+    </div>
+  );
+}
+
+export function PriceChart({ pair, poolName, balanceManager }: PriceChartProps) {
+  const [timeframe, setTimeframe] = useState<CandleInterval>('1h');
+  const [candles, setCandles] = useState<Candle[]>([]);
+  // Interval the shown candles were loaded with, the selected timeframe changes before they arrive
+  const [candleInterval, setCandleInterval] = useState<CandleInterval>('1h');
+  const [fills, setFills] = useState<AccountFill[]>([]);
+  const [orders, setOrders] = useState<OrderInfo[]>([]);
+  const [overlays, setOverlays] = useState<Record<Overlay, boolean>>({ sma20: true, ema20: false, bollinger: false });
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+
+  // The id comes from a text field, partial ids are never sent to the indexer
+  const accountManager = isValidSuiObjectId(balanceManager) ? balanceManager : '';
+
+  const loadChart = useCallback(async () => {
+    // Responses for an earlier pair or timeframe can arrive late and are dropped
+    const request = ++latestRequest.current;
+    const isCurrent = () => request === latestRequest.current;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { candles: history } = await getCandles(poolName, timeframe, CANDLE_COUNT);
+
+      // The user's own activity is optional, the chart is still useful without it
+      const { address } = getWallet();
+      let accountFills: AccountFill[] = [];
+      let openOrders: OrderInfo[] = [];
+      if (address && accountManager && history.length > 0) {
+        [accountFills, openOrders] = await Promise.all([
+          getAccountFills(poolName, accountManager, history[0].time).catch((err) => {
+            console.warn(`No fills readable for ${poolName}:`, err);
+            return [];
+          }),
+          // Indexer pools missing from the SDK pool map throw while resolving the key
+          Promise.resolve()
+            .then(() => getOpenOrders(address, accountManager, resolvePoolKey(poolName)))
+            .catch((err) => {
+              console.warn(`No open orders readable for ${poolName}:`, err);
+              return [];
+            }),
+        ]);
+      }
+
+      if (!isCurrent()) return;
+      setCandles(history);
+      setCandleInterval(timeframe);
+      setFills(accountFills);
+      setOrders(openOrders);
+    } catch (err) {
+      if (!isCurrent()) return;
+      console.error('Failed to load candles:', err);
+      setCandles([]);
+      setError(`Failed to load candles: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      if (isCurrent()) setIsLoading(false);
+    }
+  }, [poolName, timeframe, accountManager]);
+
+  useEffect(() => {
+    loadChart();
+  }, [loadChart]);
+
+  const data = useMemo<ChartPoint[]>(() => {
+    const closes = candles.map((candle) => candle.close);
+    const sma20 = sma(closes, 20);
+    const ema20 = ema(closes, 20);
+    const bands = bollinger(closes, 20, 2);
+    return candles.map((candle, i) => ({
+      ...candle,
+      range: [candle.low, candle.high],
+      sma20: sma20[i],
+      ema20: ema20[i],
+      bbUpper: bands[i]?.upper ?? null,
+      bbLower: bands[i]?.lower ?? null,
+    }));
+  }, [candles]);
+
+  // Fills are pinned to the candle they happened in
+  const intervalMs = CANDLE_INTERVAL_MS[candleInterval];
+  const candleTimes = new Set(data.map((point) => point.time));
+  const fillMarkers = fills
+    .map((fill) => ({ ...fill, candleTime: Math.floor(fill.time / intervalMs) * intervalMs }))
+    .filter((fill) => candleTimes.has(fill.candleTime));
+
+  const low = Math.min(...data.map((point) => point.low));
+  const high = Math.max(...data.map((point) => point.high));
+  const hiddenOrders = orders.filter((order) => order.normalized_price < low || order.normalized_price > high).length;
+  const hovered = hoverIndex !== null ? data[hoverIndex] : undefined;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle>{pair} Price</CardTitle>
+            <CardDescription>
+              DeepBook candles with your fills and open orders
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadChart} disabled={isLoading}>
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex space-x-1">
+            {TIMEFRAMES.map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={option === timeframe ? 'default' : 'outline'}
+                onClick={() => setTimeframe(option)}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+          <div className="flex space-x-4">
+            {(Object.keys(OVERLAY_LABELS) as Overlay[]).map((overlay) => (
+              <label key={overlay} className="flex items-center space-x-1 text-sm">
+                <Checkbox
+                  checked={overlays[overlay]}
+                  onCheckedChange={(checked) => setOverlays({ ...overlays, [overlay]: checked === true })}
+                />
+                <span>{OVERLAY_LABELS[overlay]}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {data.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {isLoading ? 'Loading candles...' : `No trades in ${pair} for this timeframe`}
+          </p>
+        ) : (
+          <div>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart
+                  data={data}
+                  syncId="price-chart"
+                  onMouseMove={(state) => setHoverIndex(state.activeTooltipIndex ?? null)}
+                  onMouseLeave={() => setHoverIndex(null)}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="time" hide />
+                  <YAxis domain={['auto', 'auto']} tickFormatter={formatPrice} tick={{ fontSize: 10 }} width={70} />
+                  <Tooltip
+                    content={<CandleTooltip interval={candleInterval} />}
+                    cursor={{ stroke: '#94a3b8', strokeDasharray: '3 3' }}
+                    isAnimationActive={false}
+                  />
+                  <Bar dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+                  {overlays.sma20 && (
+                    <Line dataKey="sma20" stroke="#2563eb" dot={false} isAnimationActive={false} connectNulls />
+                  )}
+                  {overlays.ema20 && (
+                    <Line dataKey="ema20" stroke="#9333ea" dot={false} isAnimationActive={false} connectNulls />
+                  )}
+                  {overlays.bollinger && (
+                    <Line dataKey="bbUpper" stroke="#f59e0b" strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+                  )}
+                  {overlays.bollinger && (
+                    <Line dataKey="bbLower" stroke="#f59e0b" strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+                  )}
+                  {hovered && (
+                    <ReferenceLine y={hovered.close} stroke="#94a3b8" strokeDasharray="3 3" />
+                  )}
+                  {orders.map((order) => (
+                    <ReferenceLine
+                      key={order.orderId}
+                      y={order.normalized_price}
+                      stroke={order.isBid ? UP_COLOR : DOWN_COLOR}
+                      strokeDasharray="6 3"
+                      label={{
+                        value: `${order.isBid ? 'Bid' : 'Ask'} ${order.quantity - order.filled_quantity}`,
+                        position: 'insideRight',
+                        fontSize: 10,
+                        fill: order.isBid ? UP_COLOR : DOWN_COLOR,
+                      }}
+                    />
+                  ))}
+                  {fillMarkers.map((fill) => (
+                    <ReferenceDot
+                      key={`${fill.tradeId}-${fill.role}`}
+                      x={fill.candleTime}
+                      y={fill.price}
+                      r={4}
+                      fill={fill.side === 'buy' ? UP_COLOR : DOWN_COLOR}
+                      stroke="#ffffff"
+                    />
+                  ))}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="h-24">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={data} syncId="price-chart">
+                  <XAxis dataKey="time" tickFormatter={(time: number) => formatTime(time, candleInterval)} tick={{ fontSize: 10 }} />
+                  <YAxis tick={{ fontSize: 10 }} width={70} />
+                  <Tooltip content={() => null} cursor={{ stroke: '#94a3b8', strokeDasharray: '3 3' }} />
+                  <Bar dataKey="volume" isAnimationActive={false}>
+                    {data.map((point) => (
+                      <Cell key={point.time} fill={point.close >= point.open ? UP_COLOR : DOWN_COLOR} fillOpacity={0.5} />
+                    ))}
+                  </Bar>
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              {fillMarkers.length} fills, {orders.length} open orders
+              {hiddenOrders > 0 && ` (${hiddenOrders} outside the visible price range)`}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
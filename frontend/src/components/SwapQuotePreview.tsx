@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { ArrowRight, Clock } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { formatUnits, resolveCoinWithMetadata, ResolvedCoin } from '../lib/coins';
+import { SwapQuote } from '../lib/swapQuote';
+
+interface SwapQuotePreviewProps {
+  quote: SwapQuote;
+}
+
+function symbolOf(coinType: string) {
+  return coinType.split('::').pop() ?? coinType;
+}
+
+function useCoin(coinType: string) {
+  const [coin, setCoin] = useState<ResolvedCoin | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    resolveCoinWithMetadata(coinType)
+      .then((resolved) => !cancelled && setCoin(resolved))
+      .catch(() => !cancelled && setCoin(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [coinType]);
+
+  return coin;
+}
+
+export function SwapQuotePreview({ quote }: SwapQuotePreviewProps) {
+  const fromCoin = useCoin(quote.from);
+  const targetCoin = useCoin(quote.target);
+  const [now, setNow] = useState<number>(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const format = (amount: bigint, coin: ResolvedCoin | null, coinType: string) =>
+    coin ? `${formatUnits(amount, coin.scalar)} ${coin.symbol}` : `${amount.toString()} ${symbolOf(coinType)}`;
+
+  const secondsLeft = Math.max(0, Math.ceil((quote.expiresAt - now) / 1000));
+  const impactColor = quote.priceImpact >= 0.05 ? 'text-red-600' : quote.priceImpact >= 0.01 ? 'text-orange-500' : 'text-gray-900';
+
+  return (
+    <div className="border rounded-md p-3 space-y-3">
+      <div className="flex justify-between items-center">
+        <h4 className="font-medium text-sm">Swap Quote</h4>
+        <span className={`flex items-center text-xs ${secondsLeft === 0 ? 'text-red-600' : 'text-gray-500'}`}>
+          <Clock className="h-3 w-3 mr-1" />
+          {secondsLeft === 0 ? 'Expired' : `Expires in ${secondsLeft}s`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-1 text-sm">
+        <span className="text-gray-500">You pay</span>
+        <span className="text-right font-mono">{format(quote.amountIn, fromCoin, quote.from)}</span>
+        <span className="text-gray-500">Expected output</span>
+        <span className="text-right font-mono">{format(quote.amountOut, targetCoin, quote.target)}</span>
+        {quote.byAmountIn ? (
+          <>
+            <span className="text-gray-500">Minimum received</span>
+            <span className="text-right font-mono">{format(quote.minAmountOut, targetCoin, quote.target)}</span>
+          </>
+        ) : (
+          <>
+            <span className="text-gray-500">Maximum sold</span>
+            <span className="text-right font-mono">{format(quote.maxAmountIn, fromCoin, quote.from)}</span>
+          </>
+        )}
+        <span className="text-gray-500">Price impact</span>
+        <span className={`text-right font-mono ${impactColor}`}>{(quote.priceImpact * 100).toFixed(2)}%</span>
+        <span className="text-gray-500">LP fees</span>
+        <span className="text-right font-mono">{format(quote.feeAmount, fromCoin, quote.from)}</span>
+        <span className="text-gray-500">Slippage tolerance</span>
+        <span className="text-right font-mono">{(quote.settings.slippage * 100).toFixed(2)}%</span>
+      </div>
+
+      <div className="space-y-2">
+        <h5 className="text-xs font-medium text-gray-500">Route</h5>
+        {quote.routes.map((route, i) => (
+          <div key={i} className="flex items-center flex-wrap gap-1 text-xs">
+            <Badge variant="outline">{(route.split * 100).toFixed(1)}%</Badge>
+            {route.hops.map((hop, j) => (
+              <span key={j} className="flex items-center">
+                {j > 0 && <ArrowRight className="h-3 w-3 mx-1 text-gray-400" />}
+                <span title={hop.poolId}>
+                  {symbolOf(hop.from)}/{symbolOf(hop.target)} via {hop.provider}
+                </span>
+              </span>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -4,23 +4,60 @@ import { Button } from '../components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { Badge } from '../components/ui/badge';
 import { Alert, AlertDescription, AlertTitle } from '../components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { ArrowUpCircle, ArrowDownCircle, AlertCircle, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
-import { analyzeTradingPair, getTradingPairs, AnalysisResult, TransactionData } from '../lib/tradingAnalysis';
+import { ArrowUpCircle, ArrowDownCircle, AlertCircle, CheckCircle2, XCircle, Loader2, RefreshCw } from 'lucide-react';
+import { analyzeTradingPair, fetchTradingPairs, AnalysisResult, TradingPair } from '../lib/tradingAnalysis';
+import { getWallet } from '../lib/walletIntegration';
+import { PreparedTransaction } from '../lib/transactionPreflight';
+import { TransactionExecutionResult } from '../lib/transactionExecution';
+import { DEFAULT_SWAP_SETTINGS, MAX_ROUTE_DEPTH, SwapQuote } from '../lib/swapQuote';
+import { AmountMode, amountCoinSide, TradeSide } from '../lib/tradeIntent';
+import { TransactionReviewDialog } from './TransactionReviewDialog';
+import { LimitOrderForm } from './LimitOrderForm';
+import { SwapQuotePreview } from './SwapQuotePreview';
+import { PriceChart } from './PriceChart';
+import { OrderBookDepth } from './OrderBookDepth';
+import { estimateSlippage } from '../lib/orderBookDepth';
+import {
+  defaultStrategyConfig,
+  explainFactor,
+  FACTOR_LABELS,
+  FactorId,
+  PAIR_CLASS_LABELS,
+  SCORING_STRATEGIES,
+  StrategyId,
+} from '../lib/scoringStrategies';
 
 interface TradingAnalysisProps {
-  onConfirmTransaction: (transactionData: TransactionData) => void;
+  balanceManager: string;
+  onBalanceManagerChange: (balanceManager: string) => void;
+  onConfirmTransaction: (prepared: PreparedTransaction) => Promise<TransactionExecutionResult | undefined>;
   onRejectTransaction: () => void;
 }
 
-export function TradingAnalysis({ onConfirmTransaction, onRejectTransaction }: TradingAnalysisProps) {
+export function TradingAnalysis({ balanceManager, onBalanceManagerChange, onConfirmTransaction, onRejectTransaction }: TradingAnalysisProps) {
   const [selectedPair, setSelectedPair] = useState<string>('');
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [amount, setAmount] = useState<string>('0');
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [tradingPairs, setTradingPairs] = useState<string[]>([]);
+  const [pairData, setPairData] = useState<Record<string, TradingPair>>({});
   const [isLoadingPairs, setIsLoadingPairs] = useState<boolean>(true);
+  const [isPreparing, setIsPreparing] = useState<boolean>(false);
+  const [prepared, setPrepared] = useState<PreparedTransaction | null>(null);
+  const [orderMode, setOrderMode] = useState<'market' | 'limit'>('market');
+  const [slippagePercent, setSlippagePercent] = useState<string>(String(DEFAULT_SWAP_SETTINGS.slippage * 100));
+  const [routeDepth, setRouteDepth] = useState<string>(String(DEFAULT_SWAP_SETTINGS.depth));
+  const [quoteTtlSeconds, setQuoteTtlSeconds] = useState<string>(String(DEFAULT_SWAP_SETTINGS.quoteTtlMs / 1000));
+  const [quote, setQuote] = useState<SwapQuote | null>(null);
+  const [tradeSide, setTradeSide] = useState<TradeSide>('buy');
+  const [amountMode, setAmountMode] = useState<AmountMode>('exactIn');
+  const [isQuoting, setIsQuoting] = useState<boolean>(false);
+  // 'auto' scores each pair with the default strategy of its class
+  const [strategyChoice, setStrategyChoice] = useState<StrategyId | 'auto'>('auto');
+  const [weightInputs, setWeightInputs] = useState<Partial<Record<FactorId, string>>>({});
 
   useEffect(() => {
     async function loadTradingPairs() {
@@ -28,8 +65,10 @@ export function TradingAnalysis({ onConfirmTransaction, onRejectTransaction }: T
       setError(null);
       
       try {
-        const pairs = await getTradingPairs();
+        const data = await fetchTradingPairs();
+        const pairs = Object.keys(data);
         setTradingPairs(pairs);
+        setPairData(data);
         
         if (pairs.length > 0 && !selectedPair) {
           setSelectedPair(pairs[0]);
@@ -45,6 +84,27 @@ export function TradingAnalysis({ onConfirmTransaction, onRejectTransaction }: T
     loadTradingPairs();
   }, [selectedPair]);
 
+  const handleStrategyChange = (value: string) => {
+    setStrategyChoice(value as StrategyId | 'auto');
+    if (value === 'auto') {
+      setWeightInputs({});
+      return;
+    }
+    const { weights } = SCORING_STRATEGIES[value as StrategyId];
+    setWeightInputs(Object.fromEntries(
+      (Object.keys(FACTOR_LABELS) as FactorId[]).map((factor) => [factor, String(weights[factor] ?? 0)])
+    ));
+  };
+
+  const getStrategyConfig = () => {
+    if (strategyChoice === 'auto') return undefined;
+    const config = defaultStrategyConfig(strategyChoice);
+    config.weights = Object.fromEntries(
+      Object.entries(weightInputs).map(([factor, weight]) => [factor, parseFloat(weight || '0')])
+    );
+    return config;
+  };
+
   const handleAnalyze = async () => {
     if (!selectedPair) {
       setError('Please select a trading pair');
@@ -55,8 +115,10 @@ export function TradingAnalysis({ onConfirmTransaction, onRejectTransaction }: T
     setError(null);
 
     try {
-      const result = await analyzeTradingPair(selectedPair);
+      const result = await analyzeTradingPair(selectedPair, getStrategyConfig());
       setAnalysisResult(result);
+      setTradeSide(result.transactionData.transactionType);
+      setQuote(null);
     } catch (err) {
       console.error('Analysis failed:', err);
       setError(`Analysis failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
@@ -69,6 +131,7 @@ export function TradingAnalysis({ onConfirmTransaction, onRejectTransaction }: T
     const value = e.target.value;
     if (/^\d*\.?\d*$/.test(value)) {
       setAmount(value);
+      setQuote(null);
       
       if (analysisResult && analysisResult.transactionData) {
         analysisResult.transactionData.amount = value;
@@ -77,16 +140,76 @@ export function TradingAnalysis({ onConfirmTransaction, onRejectTransaction }: T
     }
   };
 
-  const handleConfirm = () => {
+  const [baseSymbol, quoteSymbol] = analysisResult ? analysisResult.transactionData.pair.split('/') : ['', ''];
+  const amountSide = amountCoinSide(tradeSide, amountMode);
+  const price = analysisResult ? parseFloat(analysisResult.transactionData.price) : 0;
+  // Rough counter amount at the analysis price, the quote gives the routed figure
+  const estimatedCounterAmount = amountSide === 'base'
+    ? parseFloat(amount || '0') * price
+    : price > 0 ? parseFloat(amount || '0') / price : 0;
+  // Walks the book captured at analysis time, the quote gives the routed figure
+  const slippage = analysisResult?.orderBook
+    ? estimateSlippage(analysisResult.orderBook, tradeSide, parseFloat(amount || '0'), amountSide)
+    : null;
+
+  const getTransactionData = () => ({
+    ...analysisResult!.transactionData,
+    transactionType: tradeSide,
+    amountMode,
+    amount,
+    total: (parseFloat(amount) * parseFloat(analysisResult!.transactionData.price)).toString()
+  });
+
+  const handleQuote = async () => {
     if (!analysisResult) return;
-    
-    const transactionData = {
-      ...analysisResult.transactionData,
-      amount,
-      total: (parseFloat(amount) * parseFloat(analysisResult.transactionData.price)).toString()
-    };
-    
-    onConfirmTransaction(transactionData);
+
+    setIsQuoting(true);
+    setError(null);
+
+    try {
+      setQuote(await getWallet().quoteTransaction(getTransactionData(), {
+        slippage: parseFloat(slippagePercent) / 100,
+        depth: parseInt(routeDepth, 10),
+        quoteTtlMs: parseFloat(quoteTtlSeconds) * 1000,
+      }));
+    } catch (err) {
+      console.error('Quote failed:', err);
+      setQuote(null);
+      setError(`Quote failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsQuoting(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!analysisResult || !quote) return;
+
+    setIsPreparing(true);
+    setError(null);
+
+    try {
+      // Dry-run first so the user reviews the predicted effects before touching the device
+      setPrepared(await getWallet().prepareQuotedSwap(
+        quote,
+        `${tradeSide === 'buy' ? 'Buy' : 'Sell'} ${baseSymbol} ${amountMode === 'exactIn' ? 'spending' : 'receiving'} ${amount} ${amountSide === 'base' ? baseSymbol : quoteSymbol}`
+      ));
+    } catch (err) {
+      console.error('Transaction preflight failed:', err);
+      setError(`Transaction preflight failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleReviewConfirm = (reviewed: PreparedTransaction) => {
+    setPrepared(null);
+    setQuote(null);
+    onConfirmTransaction(reviewed);
+  };
+
+  const handleReviewCancel = () => {
+    setPrepared(null);
+    onRejectTransaction();
   };
 
   const getScoreColor = (score: number) => {
@@ -114,12 +237,13 @@ export function TradingAnalysis({ onConfirmTransaction, onRejectTransaction }: T
     }
   };
 
-  const chartData = analysisResult ? [
-    { name: 'Volume', value: analysisResult.score >= 3 ? 3 : analysisResult.score },
-    { name: 'Change', value: analysisResult.score >= 6 ? 3 : analysisResult.score / 2 },
-    { name: 'Volatility', value: analysisResult.score >= 8 ? 2 : analysisResult.score / 4 },
-    { name: 'Liquidity', value: analysisResult.score >= 7 ? 2 : analysisResult.score / 5 },
-  ] : [];
+  // Points each factor added next to the most it could add with its weight
+  const totalWeight = analysisResult ? analysisResult.breakdown.reduce((sum, entry) => sum + entry.weight, 0) : 0;
+  const chartData = analysisResult ? analysisResult.breakdown.map((entry) => ({
+    name: entry.label,
+    points: Number(entry.contribution.toFixed(2)),
+    max: Number(((entry.weight / totalWeight) * 10).toFixed(2)),
+  })) : [];
 
   return (
     <div className="space-y-6">
@@ -170,6 +294,45 @@ export function TradingAnalysis({ onConfirmTransaction, onRejectTransaction }: T
               </Button>
             </div>
 
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Scoring strategy
+              </label>
+              <Select value={strategyChoice} onValueChange={handleStrategyChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto (by pair class)</SelectItem>
+                  {Object.values(SCORING_STRATEGIES).map((strategy) => (
+                    <SelectItem key={strategy.id} value={strategy.id}>{strategy.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-gray-500">
+                {strategyChoice === 'auto'
+                  ? 'Peg monitor for stablecoin pairs, momentum for major pairs, liquidity first for low-cap pairs'
+                  : SCORING_STRATEGIES[strategyChoice].description}
+              </p>
+              {strategyChoice !== 'auto' && (
+                <div className="grid grid-cols-4 gap-2">
+                  {(Object.keys(FACTOR_LABELS) as FactorId[]).map((factor) => (
+                    <div key={factor}>
+                      <label className="block text-xs text-gray-600 mb-1">
+                        {FACTOR_LABELS[factor]}
+                      </label>
+                      <input
+                        type="text"
+                        value={weightInputs[factor] ?? '0'}
+                        onChange={(e) => { if (/^\d*\.?\d*$/.test(e.target.value)) setWeightInputs({ ...weightInputs, [factor]: e.target.value }); }}
+                        className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
             {error && (
               <Alert variant="destructive">
                 <AlertCircle className="h-4 w-4" />
@@ -192,15 +355,19 @@ export function TradingAnalysis({ onConfirmTransaction, onRejectTransaction }: T
                     <div className="mt-1">
                       {getRecommendationBadge(analysisResult.recommendation)}
                     </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {analysisResult.strategy.name} strategy, {PAIR_CLASS_LABELS[analysisResult.strategy.pairClass].toLowerCase()}
+                    </p>
                   </div>
-                  <div className="h-24 w-48">
+                  <div className="h-32 w-72">
                     <ResponsiveContainer width="100%" height="100%">
                       <BarChart data={chartData}>
                         <CartesianGrid strokeDasharray="3 3" />
-                        <XAxis dataKey="name" />
-                        <YAxis domain={[0, 3]} />
+                        <XAxis dataKey="name" tick={{ fontSize: 10 }} />
+                        <YAxis domain={[0, 'dataMax']} tick={{ fontSize: 10 }} />
                         <Tooltip />
-                        <Bar dataKey="value" fill="#8884d8" />
+                        <Bar dataKey="points" name="Points" fill="#8884d8" />
+                        <Bar dataKey="max" name="Max points" fill="#d4d4f7" />
                       </BarChart>
                     </ResponsiveContainer>
                   </div>
@@ -225,51 +392,182 @@ export function TradingAnalysis({ onConfirmTransaction, onRejectTransaction }: T
                   </div>
                 </div>
 
+                <div>
+                  <h4 className="font-medium mb-1">Score Breakdown</h4>
+                  <ul className="text-sm text-gray-600 space-y-1">
+                    {analysisResult.breakdown.map((entry) => (
+                      <li key={entry.factor}>{explainFactor(entry)}</li>
+                    ))}
+                  </ul>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Total {analysisResult.breakdown.reduce((sum, entry) => sum + entry.contribution, 0).toFixed(1)} points, rounded to {analysisResult.score}/10
+                  </p>
+                </div>
+
                 <div className="border-t pt-4">
                   <h3 className="text-lg font-medium mb-2">Transaction Details</h3>
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">
-                        Amount
-                      </label>
-                      <input
-                        type="text"
-                        value={amount}
-                        onChange={handleAmountChange}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                        placeholder="Enter amount"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">
-                        Total ({analysisResult.transactionData.price} × Amount)
-                      </label>
-                      <input
-                        type="text"
-                        value={(parseFloat(amount || '0') * parseFloat(analysisResult.transactionData.price)).toFixed(6)}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-50"
-                        disabled
+                  <Tabs value={orderMode} onValueChange={(value) => setOrderMode(value as 'market' | 'limit')}>
+                    <TabsList className="mb-4">
+                      <TabsTrigger value="market">Market Swap</TabsTrigger>
+                      <TabsTrigger value="limit">DeepBook Limit</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="market">
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Side
+                          </label>
+                          <Select value={tradeSide} onValueChange={(value) => { setTradeSide(value as TradeSide); setQuote(null); }}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="buy">Buy {baseSymbol} with {quoteSymbol}</SelectItem>
+                              <SelectItem value="sell">Sell {baseSymbol} for {quoteSymbol}</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Amount mode
+                          </label>
+                          <Select value={amountMode} onValueChange={(value) => { setAmountMode(value as AmountMode); setQuote(null); }}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="exactIn">Spend exactly</SelectItem>
+                              <SelectItem value="exactOut">Receive exactly</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Amount ({amountSide === 'base' ? baseSymbol : quoteSymbol})
+                          </label>
+                          <input
+                            type="text"
+                            value={amount}
+                            onChange={handleAmountChange}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                            placeholder="Enter amount"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Estimated {amountSide === 'base' ? quoteSymbol : baseSymbol} (at {analysisResult.transactionData.price})
+                          </label>
+                          <input
+                            type="text"
+                            value={estimatedCounterAmount.toFixed(6)}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-50"
+                            disabled
+                          />
+                        </div>
+                      </div>
+                      {slippage && (
+                        <p className={`text-sm mt-2 ${slippage.complete ? 'text-gray-600' : 'text-red-600'}`}>
+                          {slippage.complete
+                            ? `Estimated DeepBook slippage ${(slippage.slippage * 100).toFixed(3)}% at an average price of ${slippage.averagePrice.toPrecision(6)}, worst level ${slippage.worstPrice.toPrecision(6)}`
+                            : `The ${baseSymbol}/${quoteSymbol} book only fills ${slippage.filledBase.toPrecision(6)} ${baseSymbol} of this amount, ${(slippage.slippage * 100).toFixed(3)}% from mid`}
+                        </p>
+                      )}
+                      <div className="grid grid-cols-3 gap-4 mt-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Slippage (%)
+                          </label>
+                          <input
+                            type="text"
+                            value={slippagePercent}
+                            onChange={(e) => { if (/^\d*\.?\d*$/.test(e.target.value)) { setSlippagePercent(e.target.value); setQuote(null); } }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Route depth
+                          </label>
+                          <Select value={routeDepth} onValueChange={(value) => { setRouteDepth(value); setQuote(null); }}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Array.from({ length: MAX_ROUTE_DEPTH }, (_, i) => String(i + 1)).map((depth) => (
+                                <SelectItem key={depth} value={depth}>{depth} {depth === '1' ? 'hop' : 'hops'}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Quote valid for (s)
+                          </label>
+                          <input
+                            type="text"
+                            value={quoteTtlSeconds}
+                            onChange={(e) => { if (/^\d*$/.test(e.target.value)) { setQuoteTtlSeconds(e.target.value); setQuote(null); } }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                          />
+                        </div>
+                      </div>
+                      {quote && (
+                        <div className="mt-4">
+                          <SwapQuotePreview quote={quote} />
+                        </div>
+                      )}
+                    </TabsContent>
+                    <TabsContent value="limit">
+                      <LimitOrderForm
+                        key={analysisResult.pair}
+                        transactionData={analysisResult.transactionData}
+                        balanceManager={balanceManager}
+                        onBalanceManagerChange={onBalanceManagerChange}
+                        onConfirmTransaction={onConfirmTransaction}
+                        onRejectTransaction={onRejectTransaction}
                       />
-                    </div>
-                  </div>
+                    </TabsContent>
+                  </Tabs>
                 </div>
               </div>
             )}
           </div>
         </CardContent>
-        {analysisResult && (
+        {analysisResult && orderMode === 'market' && (
           <CardFooter className="flex justify-end space-x-4">
             <Button variant="outline" onClick={onRejectTransaction}>
               <XCircle className="mr-2 h-4 w-4" />
               Reject
             </Button>
-            <Button onClick={handleConfirm}>
-              <CheckCircle2 className="mr-2 h-4 w-4" />
-              Confirm with OneKey
+            <Button variant="outline" onClick={handleQuote} disabled={isQuoting || isPreparing}>
+              {isQuoting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+              {quote ? 'Refresh Quote' : 'Get Quote'}
+            </Button>
+            <Button onClick={handleConfirm} disabled={!quote || isPreparing || isQuoting}>
+              {isPreparing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle2 className="mr-2 h-4 w-4" />}
+              {isPreparing ? 'Simulating...' : 'Review & Confirm'}
             </Button>
           </CardFooter>
         )}
       </Card>
+
+      {pairData[selectedPair] && (
+        <PriceChart
+          pair={selectedPair}
+          poolName={pairData[selectedPair].poolName}
+          balanceManager={balanceManager}
+        />
+      )}
+
+      {pairData[selectedPair] && (
+        <OrderBookDepth pair={selectedPair} poolName={pairData[selectedPair].poolName} />
+      )}
+
+      <TransactionReviewDialog
+        prepared={prepared}
+        onConfirm={handleReviewConfirm}
+        onCancel={handleReviewCancel}
+      />
     </div>
   );
 }
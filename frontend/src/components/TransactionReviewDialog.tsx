@@ -0,0 +1,107 @@
+import type { BalanceChange } from '@mysten/sui/client';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { AlertCircle, CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import { getCoinMap } from '../lib/coins';
+import { formatMist } from '../lib/transactionExecution';
+import { PreparedTransaction } from '../lib/transactionPreflight';
+
+interface TransactionReviewDialogProps {
+  prepared: PreparedTransaction | null;
+  isSubmitting?: boolean;
+  onConfirm: (prepared: PreparedTransaction) => void;
+  onCancel: () => void;
+}
+
+function formatBalanceChange(change: BalanceChange) {
+  const coin = Object.entries(getCoinMap()).find(([, c]) => c.type === change.coinType);
+  const symbol = coin ? coin[0] : change.coinType.split('::').pop();
+  const amount = BigInt(change.amount);
+  if (!coin) {
+    return `${amount > 0n ? '+' : ''}${amount.toString()} ${symbol}`;
+  }
+  const value = Number(amount) / coin[1].scalar;
+  return `${value > 0 ? '+' : ''}${value.toLocaleString(undefined, { maximumFractionDigits: 9 })} ${symbol}`;
+}
+
+function ownerLabel(change: BalanceChange, sender: string) {
+  const owner = change.owner;
+  if (typeof owner === 'object' && 'AddressOwner' in owner) {
+    return owner.AddressOwner === sender ? 'You' : `${owner.AddressOwner.slice(0, 8)}...${owner.AddressOwner.slice(-6)}`;
+  }
+  return 'Object';
+}
+
+export function TransactionReviewDialog({ prepared, isSubmitting = false, onConfirm, onCancel }: TransactionReviewDialogProps) {
+  const preflight = prepared?.preflight;
+  const failed = preflight?.status !== 'success';
+
+  return (
+    <Dialog open={prepared !== null} onOpenChange={(open) => { if (!open) onCancel(); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Review Transaction</DialogTitle>
+          <DialogDescription>{prepared?.description}</DialogDescription>
+        </DialogHeader>
+
+        {prepared && preflight && (
+          <div className="space-y-4">
+            {failed ? (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Dry run failed</AlertTitle>
+                <AlertDescription className="break-all">
+                  This transaction would abort on chain and will not be sent to your OneKey device: {preflight.error}
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <div className="flex items-center text-sm text-green-700">
+                <CheckCircle2 className="h-4 w-4 mr-2" />
+                Dry run succeeded
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <span className="text-gray-500">Estimated gas</span>
+              <span className="text-right font-mono">{formatMist(preflight.estimatedGas)} SUI</span>
+              <span className="text-gray-500">Gas budget</span>
+              <span className="text-right font-mono">{failed ? '-' : `${formatMist(preflight.gasBudget)} SUI`}</span>
+              <span className="text-gray-500">Gas price</span>
+              <span className="text-right font-mono">{preflight.gasPrice.toString()} MIST</span>
+            </div>
+
+            <div>
+              <h4 className="font-medium text-sm mb-1">Predicted balance changes</h4>
+              {preflight.balanceChanges.length === 0 ? (
+                <p className="text-sm text-gray-500">No balance changes</p>
+              ) : (
+                <div className="space-y-1">
+                  {preflight.balanceChanges.map((change, i) => (
+                    <div key={i} className="flex justify-between text-sm">
+                      <span className="text-gray-500">{ownerLabel(change, prepared.sender)}</span>
+                      <span className={`font-mono ${BigInt(change.amount) < 0n ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatBalanceChange(change)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isSubmitting}>
+            <XCircle className="mr-2 h-4 w-4" />
+            Reject
+          </Button>
+          <Button onClick={() => prepared && onConfirm(prepared)} disabled={failed || isSubmitting}>
+            {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle2 className="mr-2 h-4 w-4" />}
+            Confirm with OneKey
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
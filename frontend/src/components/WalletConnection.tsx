@@ -2,10 +2,23 @@ import { useState, useEffect } from 'react';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardFooter } from '../components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from '../components/ui/alert';
-import { Wallet, CheckCircle2, AlertCircle, Usb } from 'lucide-react';
-import { wallet } from '../lib/walletIntegration';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Wallet, CheckCircle2, AlertCircle, Usb, KeyRound, Eye } from 'lucide-react';
+import { getWallet, hardwareWallet, OneKeyWallet, setActiveWallet, WalletBackend } from '../lib/walletIntegration';
+import { generateSecretKey, keypairWallet } from '../lib/keypairWallet';
+import { watchOnlyWallet } from '../lib/watchOnlyWallet';
+import { useNetwork } from '../hooks/use-network';
 import { initOneKeySDK, setupDeviceListeners } from '../lib/onekeySdkUtils';
 import { toast } from '@/hooks/use-toast';
+import { OneKeyDevice } from '../lib/onekeyDevices';
+import { DeviceSelectDialog } from './DeviceSelectDialog';
+import { toWalletError, WalletError } from '../lib/walletErrors';
+
+const BACKEND_LABELS: Record<WalletBackend, string> = {
+  onekey: 'OneKey hardware wallet',
+  keypair: 'Development keypair',
+  watch: 'Watch address (read-only)',
+};
 
 interface WalletConnectionProps {
   onWalletConnected: (address: string) => void;
@@ -14,16 +27,22 @@ interface WalletConnectionProps {
 
 export function WalletConnection({ onWalletConnected, onWalletDisconnected }: WalletConnectionProps) {
   const [isConnecting, setIsConnecting] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [isSelectingDevice, setIsSelectingDevice] = useState(false);
+  const [error, setError] = useState<WalletError | null>(null);
   const [walletAddress, setWalletAddress] = useState<string | null>(null);
   const [deviceStatus, setDeviceStatus] = useState<'disconnected' | 'connected'>('disconnected');
+  const [backend, setBackend] = useState<WalletBackend>('onekey');
+  const [secretKey, setSecretKey] = useState<string>('');
+  const [watchAddress, setWatchAddress] = useState<string>('');
+  const network = useNetwork();
 
   useEffect(() => {
     initOneKeySDK();
     
-    if (wallet.isConnected && wallet.address) {
-      setWalletAddress(wallet.address);
-      onWalletConnected(wallet.address);
+    const active = getWallet();
+    if (active.isConnected && active.address) {
+      setWalletAddress(active.address);
+      onWalletConnected(active.address);
     }
   }, [onWalletConnected]);
   
@@ -42,35 +61,46 @@ export function WalletConnection({ onWalletConnected, onWalletDisconnected }: Wa
     return cleanup;
   }, []);
 
-  const handleConnect = async () => {
+  // Every backend connects differently, then becomes the wallet the app trades with
+  const connectBackend = async (target: OneKeyWallet, connect: () => Promise<string>) => {
     setIsConnecting(true);
     setError(null);
 
     try {
-      const address = await wallet.connect();
+      const address = await connect();
+      setIsSelectingDevice(false);
       if (address) {
+        setActiveWallet(target);
         setWalletAddress(address);
         onWalletConnected(address);
         toast({
           title: "Connected Successfully",
-          description: "OneKey hardware wallet has been successfully connected"
+          description: `${BACKEND_LABELS[target.backend]} has been successfully connected`
         });
       }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(`Wallet connection failed: ${errorMessage}`);
+      const walletError = toWalletError(err);
+      setError(walletError);
       toast({
         variant: "destructive",
-        title: "Connection Failed",
-        description: errorMessage
+        title: `Connection Failed: ${walletError.title}`,
+        description: walletError.recovery
       });
     } finally {
       setIsConnecting(false);
     }
   };
 
+  const handleConnect = (device: OneKeyDevice, hiddenWallet: boolean) =>
+    connectBackend(hardwareWallet, () => hardwareWallet.connect(device, { hiddenWallet }));
+
+  const handleConnectKeypair = () => connectBackend(keypairWallet, () => keypairWallet.connect(secretKey));
+
+  const handleWatch = () => connectBackend(watchOnlyWallet, () => watchOnlyWallet.connect(watchAddress));
+
   const handleDisconnect = () => {
-    wallet.disconnect();
+    getWallet().disconnect();
+    setActiveWallet(hardwareWallet);
     setWalletAddress(null);
     onWalletDisconnected();
   };
@@ -82,8 +112,11 @@ export function WalletConnection({ onWalletConnected, onWalletDisconnected }: Wa
         {error && (
           <Alert variant="destructive" className="mb-4">
             <AlertCircle className="h-4 w-4" />
-            <AlertTitle>Error</AlertTitle>
-            <AlertDescription>{error}</AlertDescription>
+            <AlertTitle>{error.title}</AlertTitle>
+            <AlertDescription>
+              <p>Wallet connection failed: {error.message}</p>
+              <p className="mt-1 font-medium">{error.recovery}</p>
+            </AlertDescription>
           </Alert>
         )}
 
@@ -98,21 +131,75 @@ export function WalletConnection({ onWalletConnected, onWalletDisconnected }: Wa
             </div>
           </div>
         ) : (
-          <div className="text-center py-4">
-            <Wallet className="h-12 w-12 mx-auto mb-4 text-gray-400" />
-            <p className="text-gray-500 mb-4">
-              Connect your OneKey hardware wallet to start trading
-            </p>
-            <div className={`text-sm ${deviceStatus === 'connected' ? 'text-green-600' : 'text-yellow-600'}`}>
-              <div className="flex items-center justify-center">
-                <Usb className="h-4 w-4 mr-1" />
-                <span>
-                  Hardware wallet: {deviceStatus === 'connected' ? 
-                    'Detected (ready to connect)' : 
-                    'Not detected (please connect your device)'}
-                </span>
+          <div className="space-y-4 pt-6">
+            <Select value={backend} onValueChange={(value) => { setBackend(value as WalletBackend); setError(null); }}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(BACKEND_LABELS) as WalletBackend[]).map((option) => (
+                  <SelectItem key={option} value={option}>{BACKEND_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {backend === 'onekey' && (
+              <div className="text-center py-4">
+                <Wallet className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                <p className="text-gray-500 mb-4">
+                  Connect your OneKey hardware wallet to start trading
+                </p>
+                <div className={`text-sm ${deviceStatus === 'connected' ? 'text-green-600' : 'text-yellow-600'}`}>
+                  <div className="flex items-center justify-center">
+                    <Usb className="h-4 w-4 mr-1" />
+                    <span>
+                      Hardware wallet: {deviceStatus === 'connected' ? 
+                        'Detected (ready to connect)' : 
+                        'Not detected (please connect your device)'}
+                    </span>
+                  </div>
+                </div>
               </div>
-            </div>
+            )}
+
+            {backend === 'keypair' && (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-500">
+                  An Ed25519 key kept in this page, for testnet and localnet development only.
+                </p>
+                {network.name === 'mainnet' ? (
+                  <p className="text-sm text-yellow-600">Switch to testnet or localnet in Settings to use a development keypair.</p>
+                ) : (
+                  <div className="flex space-x-2">
+                    <input
+                      type="text"
+                      value={secretKey}
+                      onChange={(e) => setSecretKey(e.target.value)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+                      placeholder="suiprivkey..."
+                    />
+                    <Button variant="outline" onClick={() => setSecretKey(generateSecretKey())}>
+                      Generate
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {backend === 'watch' && (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-500">
+                  Follow any address: analysis, balances and order previews work, signing is disabled.
+                </p>
+                <input
+                  type="text"
+                  value={watchAddress}
+                  onChange={(e) => setWatchAddress(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+                  placeholder="0x..."
+                />
+              </div>
+            )}
           </div>
         )}
       </CardContent>
@@ -122,11 +209,34 @@ export function WalletConnection({ onWalletConnected, onWalletDisconnected }: Wa
             Disconnect Wallet
           </Button>
         ) : (
-          <Button onClick={handleConnect} disabled={isConnecting}>
-            {isConnecting ? 'Connecting...' : 'Connect OneKey Wallet'}
-          </Button>
+          <>
+            {backend === 'onekey' && (
+              <Button onClick={() => setIsSelectingDevice(true)} disabled={isConnecting}>
+                {isConnecting ? 'Connecting...' : 'Connect OneKey Wallet'}
+              </Button>
+            )}
+            {backend === 'keypair' && (
+              <Button onClick={handleConnectKeypair} disabled={isConnecting || !secretKey.trim() || network.name === 'mainnet'}>
+                <KeyRound className="mr-2 h-4 w-4" />
+                {isConnecting ? 'Connecting...' : 'Use Keypair'}
+              </Button>
+            )}
+            {backend === 'watch' && (
+              <Button onClick={handleWatch} disabled={isConnecting || !watchAddress.trim()}>
+                <Eye className="mr-2 h-4 w-4" />
+                {isConnecting ? 'Connecting...' : 'Watch Address'}
+              </Button>
+            )}
+          </>
         )}
       </CardFooter>
+
+      <DeviceSelectDialog
+        open={isSelectingDevice}
+        isConnecting={isConnecting}
+        onSelect={handleConnect}
+        onCancel={() => setIsSelectingDevice(false)}
+      />
     </Card>
   );
 }
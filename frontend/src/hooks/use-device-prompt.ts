@@ -0,0 +1,6 @@
+import * as React from "react"
+import { getDevicePrompt, subscribeDevicePrompt } from "@/lib/onekeyUiBridge"
+
+export function useDevicePrompt() {
+  return React.useSyncExternalStore(subscribeDevicePrompt, getDevicePrompt)
+}
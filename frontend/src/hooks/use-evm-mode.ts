@@ -0,0 +1,6 @@
+import * as React from "react"
+import { getEvmMode, subscribeEvmMode } from "@/lib/evmMode"
+
+export function useEvmMode() {
+  return React.useSyncExternalStore(subscribeEvmMode, getEvmMode)
+}
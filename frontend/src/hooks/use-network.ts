@@ -0,0 +1,6 @@
+import * as React from "react"
+import { getNetwork, subscribeNetwork } from "@/lib/network"
+
+export function useNetwork() {
+  return React.useSyncExternalStore(subscribeNetwork, getNetwork)
+}
@@ -0,0 +1,178 @@
+import { z } from "zod";
+import { isValidSuiAddress } from "@mysten/sui/utils";
+import { TransactionBuildError } from "./walletErrors";
+
+const suiAddress = z
+  .string()
+  .refine((value) => isValidSuiAddress(value), { message: "Invalid Sui address" });
+
+// The agent sometimes emits numbers, keep amounts as decimal strings so they can be scaled exactly
+const decimalAmount = z
+  .union([z.string(), z.number()])
+  .transform((value) => String(value).trim())
+  .pipe(
+    z
+      .string()
+      .regex(/^\d+(\.\d+)?$/, { message: "Amount must be a positive decimal number" })
+      .refine((value) => /[1-9]/.test(value), { message: "Amount must be greater than zero" })
+  );
+
+// Limit orders are checked digit by digit against the pool's tick and lot size, a JSON number may
+// already have been rounded to the nearest double when the plan was parsed
+const exactDecimal = z
+  .string({ invalid_type_error: "Must be a decimal string, a number can lose digits" })
+  .pipe(decimalAmount);
+
+const coinRef = z.string().min(1, { message: "Coin is required" });
+
+const baseAction = {
+  chain: z.string().optional(),
+  app: z.string().optional(),
+};
+
+export const transferActionSchema = z.object({
+  ...baseAction,
+  action: z.literal("transfer"),
+  coin: coinRef.default("SUI"),
+  // "max" sends the whole balance, keeping a gas reserve when the coin is SUI
+  amount: z.union([z.literal("max"), decimalAmount]),
+  recipient: suiAddress,
+});
+
+export const swapActionSchema = z.object({
+  ...baseAction,
+  action: z.literal("swap"),
+  from: coinRef,
+  to: coinRef,
+  amount: decimalAmount,
+  slippage: z.number().positive().max(0.5).optional(),
+});
+
+export const deepbookLimitOrderActionSchema = z.object({
+  ...baseAction,
+  action: z.literal("deepbook_limit_order"),
+  pool: z.string().min(1, { message: "Pool is required" }),
+  side: z.enum(["buy", "sell"]),
+  price: exactDecimal,
+  quantity: exactDecimal,
+  orderType: z
+    .enum(["NO_RESTRICTION", "IMMEDIATE_OR_CANCEL", "FILL_OR_KILL", "POST_ONLY"])
+    .default("NO_RESTRICTION"),
+  expiration: z.number().int().positive().optional(),
+  balanceManager: suiAddress.optional(),
+});
+
+export const deepbookCancelActionSchema = z.object({
+  ...baseAction,
+  action: z.literal("deepbook_cancel"),
+  pool: z.string().min(1, { message: "Pool is required" }),
+  orderId: z.string().regex(/^\d+$/, { message: "Order ID must be a u128 integer" }),
+  balanceManager: suiAddress.optional(),
+});
+
+export const mergeCoinsActionSchema = z.object({
+  ...baseAction,
+  action: z.literal("merge_coins"),
+  coin: coinRef,
+});
+
+export const stakeActionSchema = z.object({
+  ...baseAction,
+  action: z.literal("stake"),
+  amount: decimalAmount,
+  validator: suiAddress,
+});
+
+export const actionSchema = z.discriminatedUnion("action", [
+  transferActionSchema,
+  swapActionSchema,
+  deepbookLimitOrderActionSchema,
+  deepbookCancelActionSchema,
+  mergeCoinsActionSchema,
+  stakeActionSchema,
+]);
+
+export type TransferAction = z.infer<typeof transferActionSchema>;
+export type SwapAction = z.infer<typeof swapActionSchema>;
+export type DeepbookLimitOrderAction = z.infer<typeof deepbookLimitOrderActionSchema>;
+export type DeepbookCancelAction = z.infer<typeof deepbookCancelActionSchema>;
+export type MergeCoinsAction = z.infer<typeof mergeCoinsActionSchema>;
+export type StakeAction = z.infer<typeof stakeActionSchema>;
+export type Action = z.infer<typeof actionSchema>;
+export type ActionPlan = Action[];
+
+export const SUPPORTED_ACTIONS = actionSchema.options.map((option) => option.shape.action.value);
+
+export interface ActionPlanIssue {
+  step: number;
+  action: string;
+  message: string;
+}
+
+/**
+ * Raised when an action plan fails validation or one of its steps cannot be built
+ */
+export class ActionPlanError extends TransactionBuildError {
+  issues: ActionPlanIssue[];
+
+  constructor(issues: ActionPlanIssue[]) {
+    super(
+      issues
+        .map((issue) => `Step ${issue.step} (${issue.action}): ${issue.message}`)
+        .join("\n")
+    );
+    this.name = "ActionPlanError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validate an AI produced action plan step by step
+ * @param input Parsed JSON `actions` array from the agent
+ * @returns The validated plan
+ * @throws ActionPlanError listing every invalid step
+ */
+export function parseActionPlan(input: unknown): ActionPlan {
+  if (!Array.isArray(input)) {
+    throw new ActionPlanError([{ step: 0, action: "plan", message: "Actions must be an array" }]);
+  }
+  if (input.length === 0) {
+    throw new ActionPlanError([{ step: 0, action: "plan", message: "Action plan is empty" }]);
+  }
+
+  const plan: ActionPlan = [];
+  const issues: ActionPlanIssue[] = [];
+
+  input.forEach((raw, index) => {
+    const step = index + 1;
+    const name =
+      raw && typeof raw === "object" && "action" in raw ? String(raw.action) : "unknown";
+
+    if (!(SUPPORTED_ACTIONS as string[]).includes(name)) {
+      issues.push({
+        step,
+        action: name,
+        message: `Unsupported action, expected one of ${SUPPORTED_ACTIONS.join(", ")}`,
+      });
+      return;
+    }
+
+    const result = actionSchema.safeParse(raw);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        issues.push({
+          step,
+          action: name,
+          message: issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message,
+        });
+      }
+      return;
+    }
+    plan.push(result.data);
+  });
+
+  if (issues.length > 0) {
+    throw new ActionPlanError(issues);
+  }
+  return plan;
+}
@@ -0,0 +1,288 @@
+import type { SuiObjectChange } from "@mysten/sui/client";
+import { coinWithBalance, Transaction, TransactionArgument } from "@mysten/sui/transactions";
+import { isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils";
+import { getNetwork, getSuiClient } from "./network";
+import {
+  BALANCE_MANAGER_KEY,
+  getDeepBookPackageId,
+  getManagedDeepBook,
+  getPoolMap,
+} from "./deepbookOrders";
+import { getCoinMap } from "./coins";
+import type { ResolvedCoin } from "./coins";
+
+// Pages of the owner's events scanned when looking for BalanceManagers they created
+const DISCOVERY_MAX_PAGES = 20;
+
+export interface BalanceManagerDeposit {
+  coin: ResolvedCoin;
+  amount: bigint;
+}
+
+export interface BalanceManagerWithdrawal {
+  coin: ResolvedCoin;
+  amount: bigint | "max";
+}
+
+export interface ManagerAssetBalance {
+  symbol: string;
+  coinType: string;
+  // Free balance held by the manager, available to withdraw or trade
+  settled: number;
+  // Balance reserved by open orders across all pools
+  locked: number;
+}
+
+/**
+ * Full Move type of the DeepBook BalanceManager on the current network
+ * @returns Type string
+ */
+export function getBalanceManagerType(): string {
+  return `${getDeepBookPackageId()}::balance_manager::BalanceManager`;
+}
+
+function addDeposit(tx: Transaction, manager: TransactionArgument, deposit: BalanceManagerDeposit) {
+  if (deposit.amount <= 0n) {
+    throw new Error(`Deposit of ${deposit.coin.symbol} must be greater than zero`);
+  }
+
+  tx.moveCall({
+    target: `${getDeepBookPackageId()}::balance_manager::deposit`,
+    arguments: [manager, coinWithBalance({ type: deposit.coin.type, balance: deposit.amount })],
+    typeArguments: [deposit.coin.type],
+  });
+}
+
+/**
+ * Build a transaction creating a shared BalanceManager, optionally funding it in the same block
+ * @param sender Owner of the new manager
+ * @param deposits Coins to deposit right after creation
+ * @returns Transaction ready for preflight
+ */
+export function buildCreateBalanceManagerTransaction(
+  sender: string,
+  deposits: BalanceManagerDeposit[] = []
+): Transaction {
+  const tx = new Transaction();
+  tx.setSender(sender);
+
+  const manager = tx.moveCall({
+    target: `${getDeepBookPackageId()}::balance_manager::new`,
+  });
+  for (const deposit of deposits) {
+    addDeposit(tx, manager, deposit);
+  }
+  tx.moveCall({
+    target: "0x2::transfer::public_share_object",
+    arguments: [manager],
+    typeArguments: [getBalanceManagerType()],
+  });
+
+  return tx;
+}
+
+/**
+ * Build a transaction depositing coins into an existing BalanceManager
+ * @param sender Owner of the manager
+ * @param managerId BalanceManager object id
+ * @param deposits Coins to deposit
+ * @returns Transaction ready for preflight
+ */
+export function buildDepositTransaction(
+  sender: string,
+  managerId: string,
+  deposits: BalanceManagerDeposit[]
+): Transaction {
+  if (deposits.length === 0) {
+    throw new Error("Nothing to deposit");
+  }
+
+  const tx = new Transaction();
+  tx.setSender(sender);
+  for (const deposit of deposits) {
+    addDeposit(tx, tx.object(managerId), deposit);
+  }
+  return tx;
+}
+
+/**
+ * Find the BalanceManager created by an executed transaction
+ * @param objectChanges Object changes of the executed transaction
+ * @returns Object id of the new manager, or null if none was created
+ */
+export function findCreatedBalanceManager(objectChanges: SuiObjectChange[]): string | null {
+  const created = objectChanges.find(
+    (change) =>
+      change.type === "created" && change.objectType.endsWith("::balance_manager::BalanceManager")
+  );
+  return created && created.type === "created" ? created.objectId : null;
+}
+
+/**
+ * Build a transaction withdrawing coins from a BalanceManager to its owner
+ * @param sender Owner of the manager, receives the coins
+ * @param managerId BalanceManager object id
+ * @param withdrawals Coins to withdraw, "max" withdraws the whole settled balance
+ * @returns Transaction ready for preflight
+ */
+export function buildWithdrawTransaction(
+  sender: string,
+  managerId: string,
+  withdrawals: BalanceManagerWithdrawal[]
+): Transaction {
+  if (withdrawals.length === 0) {
+    throw new Error("Nothing to withdraw");
+  }
+
+  const tx = new Transaction();
+  tx.setSender(sender);
+  const coins = withdrawals.map(({ coin, amount }) => {
+    if (amount === "max") {
+      return tx.moveCall({
+        target: `${getDeepBookPackageId()}::balance_manager::withdraw_all`,
+        arguments: [tx.object(managerId)],
+        typeArguments: [coin.type],
+      });
+    }
+    if (amount <= 0n) {
+      throw new Error(`Withdrawal of ${coin.symbol} must be greater than zero`);
+    }
+    return tx.moveCall({
+      target: `${getDeepBookPackageId()}::balance_manager::withdraw`,
+      arguments: [tx.object(managerId), tx.pure.u64(amount)],
+      typeArguments: [coin.type],
+    });
+  });
+  tx.transferObjects(coins, sender);
+  return tx;
+}
+
+/**
+ * Find the BalanceManagers an account created, using the events their creation emitted
+ * @param owner Account address
+ * @returns Manager object ids, newest first
+ */
+export async function discoverBalanceManagers(owner: string): Promise<string[]> {
+  const client = getSuiClient();
+  const managers: string[] = [];
+  let cursor: Parameters<typeof client.queryEvents>[0]["cursor"] = null;
+
+  for (let page = 0; page < DISCOVERY_MAX_PAGES; page++) {
+    const events = await client.queryEvents({
+      query: { Sender: owner },
+      cursor,
+      order: "descending",
+    });
+
+    for (const event of events.data) {
+      if (!event.type.endsWith("::balance_manager::BalanceManagerEvent")) continue;
+      const { balance_manager_id, owner: managerOwner } = event.parsedJson as {
+        balance_manager_id: string;
+        owner: string;
+      };
+      if (managerOwner === owner && !managers.includes(balance_manager_id)) {
+        managers.push(balance_manager_id);
+      }
+    }
+
+    if (!events.hasNextPage) break;
+    cursor = events.nextCursor;
+  }
+
+  return managers;
+}
+
+/**
+ * Read settled and locked balances of a BalanceManager for every known coin
+ * @param owner Owner of the manager
+ * @param managerId BalanceManager object id
+ * @returns Balances in human units, only assets with a non-zero balance
+ */
+export async function getManagerBalances(
+  owner: string,
+  managerId: string
+): Promise<ManagerAssetBalance[]> {
+  const deepBook = getManagedDeepBook(owner, managerId);
+  const coins = getCoinMap();
+  const locked: Record<string, number> = {};
+
+  // Locked funds sit in each pool's vault, so they are summed per coin across pools
+  await Promise.all(
+    Object.entries(getPoolMap()).map(async ([poolKey, pool]) => {
+      try {
+        const { base, quote, deep } = await deepBook.lockedBalance(poolKey, BALANCE_MANAGER_KEY);
+        locked[pool.baseCoin] = (locked[pool.baseCoin] ?? 0) + base;
+        locked[pool.quoteCoin] = (locked[pool.quoteCoin] ?? 0) + quote;
+        locked.DEEP = (locked.DEEP ?? 0) + deep;
+      } catch {
+        // The manager has no account in this pool
+      }
+    })
+  );
+
+  const balances = await Promise.all(
+    Object.entries(coins).map(async ([symbol, coin]) => {
+      const { balance } = await deepBook.checkManagerBalance(BALANCE_MANAGER_KEY, symbol);
+      return {
+        symbol,
+        coinType: coin.type,
+        settled: Number(balance),
+        locked: locked[symbol] ?? 0,
+      };
+    })
+  );
+
+  return balances.filter((b) => b.settled > 0 || b.locked > 0);
+}
+
+// Defaults are per account, a manager chosen by one account must not be used for another
+function defaultManagerStorageKey(owner: string) {
+  return `deepbook.balanceManager.${getNetwork().cacheKey}.${normalizeSuiAddress(owner)}`;
+}
+
+/**
+ * BalanceManager an account uses by default on the current network
+ * @param owner Account address
+ * @returns Manager object id, or null if none was chosen
+ */
+export function getDefaultBalanceManager(owner: string): string | null {
+  const stored = localStorage.getItem(defaultManagerStorageKey(owner));
+  return stored && isValidSuiAddress(stored) ? stored : null;
+}
+
+/**
+ * Remember the BalanceManager an account uses by default on the current network
+ * @param owner Account address
+ * @param managerId Manager object id, or null to forget the default
+ */
+export function setDefaultBalanceManager(owner: string, managerId: string | null) {
+  if (managerId && isValidSuiAddress(managerId)) {
+    localStorage.setItem(defaultManagerStorageKey(owner), managerId);
+  } else {
+    localStorage.removeItem(defaultManagerStorageKey(owner));
+  }
+}
+
+/**
+ * Default BalanceManager of an account, checked on chain to be owned by it before it is traded with
+ * @param owner Account address that will sign the transaction
+ * @returns Manager object id, or null if none was chosen
+ * @throws Error if the manager no longer exists or belongs to another account
+ */
+export async function getVerifiedDefaultBalanceManager(owner: string): Promise<string | null> {
+  const managerId = getDefaultBalanceManager(owner);
+  if (!managerId) return null;
+
+  const { data } = await getSuiClient().getObject({ id: managerId, options: { showContent: true } });
+  const content = data?.content;
+  if (content?.dataType !== "moveObject" || !content.type.endsWith("::balance_manager::BalanceManager")) {
+    throw new Error(`Default BalanceManager ${managerId} was not found on this network`);
+  }
+  const managerOwner = (content.fields as { owner: string }).owner;
+  if (normalizeSuiAddress(managerOwner) !== normalizeSuiAddress(owner)) {
+    throw new Error(
+      `Default BalanceManager ${managerId} is owned by ${managerOwner}, not by the signing account`
+    );
+  }
+  return managerId;
+}
@@ -0,0 +1,123 @@
+import type { CoinStruct } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeStructTag, SUI_TYPE_ARG } from "@mysten/sui/utils";
+import { getSuiClient } from "./network";
+import { formatUnits, ResolvedCoin } from "./coins";
+
+// SUI kept back in "send max" mode so the transaction can still pay for gas (0.05 SUI)
+export const SUI_GAS_RESERVE_MIST = 50_000_000n;
+// Upper bound on coin objects referenced by one transfer
+const MAX_INPUT_COINS = 255;
+
+export interface CoinTransferParams {
+  owner: string;
+  coin: ResolvedCoin;
+  amount: bigint | "max";
+  recipient: string;
+}
+
+/**
+ * Check whether a coin type is native SUI
+ * @param coinType Full Move type
+ * @returns True for 0x2::sui::SUI in any address form
+ */
+export function isSuiCoinType(coinType: string): boolean {
+  return normalizeStructTag(coinType) === normalizeStructTag(SUI_TYPE_ARG);
+}
+
+/**
+ * Fetch every coin object of a type owned by an address
+ * @param owner Owner address
+ * @param coinType Full Move type of the coin
+ * @returns Coin objects, largest balance first
+ */
+export async function getAllCoins(owner: string, coinType: string): Promise<CoinStruct[]> {
+  const coins: CoinStruct[] = [];
+  let cursor: string | null | undefined = undefined;
+  do {
+    const page = await getSuiClient().getCoins({ owner, coinType, cursor });
+    coins.push(...page.data);
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+
+  return coins.sort((a, b) => (BigInt(b.balance) > BigInt(a.balance) ? 1 : -1));
+}
+
+/**
+ * Pick the fewest coin objects (largest first) that cover an amount
+ * @param coins Owned coin objects
+ * @param amount Amount needed in base units
+ * @returns Selected coins
+ */
+export function selectCoins(coins: CoinStruct[], amount: bigint): CoinStruct[] {
+  const sorted = [...coins].sort((a, b) => (BigInt(b.balance) > BigInt(a.balance) ? 1 : -1));
+  const selected: CoinStruct[] = [];
+  let total = 0n;
+  for (const coin of sorted) {
+    if (total >= amount) break;
+    selected.push(coin);
+    total += BigInt(coin.balance);
+  }
+
+  if (total < amount) {
+    throw new Error(`Insufficient balance: have ${total}, need ${amount}`);
+  }
+  if (selected.length > MAX_INPUT_COINS) {
+    throw new Error(
+      `Amount needs ${selected.length} coin objects, merge your coins first (max ${MAX_INPUT_COINS})`
+    );
+  }
+  return selected;
+}
+
+/**
+ * Add a transfer of any coin type to a transaction.
+ * SUI is split from the gas coin; other coins are merged from the owner's coin objects first.
+ * @param tx Transaction to extend
+ * @param params Owner, coin, amount (or "max") and recipient
+ */
+export async function addCoinTransfer(tx: Transaction, params: CoinTransferParams) {
+  const { owner, coin, amount, recipient } = params;
+
+  if (isSuiCoinType(coin.type)) {
+    let value = amount;
+    if (value === "max") {
+      const { totalBalance } = await getSuiClient().getBalance({ owner });
+      value = BigInt(totalBalance) - SUI_GAS_RESERVE_MIST;
+      if (value <= 0n) {
+        throw new Error(
+          `SUI balance is below the ${formatUnits(SUI_GAS_RESERVE_MIST, coin.scalar)} SUI gas reserve`
+        );
+      }
+    }
+
+    const [split] = tx.splitCoins(tx.gas, [value]);
+    tx.transferObjects([split], recipient);
+    return;
+  }
+
+  const owned = await getAllCoins(owner, coin.type);
+  if (owned.length === 0) {
+    throw new Error(`Account holds no ${coin.symbol}`);
+  }
+
+  // Sending only some of the coin objects would fall short of the whole balance
+  if (amount === "max" && owned.length > MAX_INPUT_COINS) {
+    throw new Error(
+      `Sending all ${coin.symbol} needs ${owned.length} coin objects, merge your coins first (max ${MAX_INPUT_COINS})`
+    );
+  }
+  const selected = amount === "max" ? owned : selectCoins(owned, amount);
+  const [primary, ...rest] = selected.map((c) => tx.object(c.coinObjectId));
+  if (rest.length > 0) {
+    tx.mergeCoins(primary, rest);
+  }
+
+  if (amount === "max") {
+    tx.transferObjects([primary], recipient);
+    return;
+  }
+
+  const [split] = tx.splitCoins(primary, [amount]);
+  tx.transferObjects([split], recipient);
+}
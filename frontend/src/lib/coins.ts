@@ -0,0 +1,120 @@
+import { normalizeStructTag, parseStructTag } from "@mysten/sui/utils";
+import type { CoinMap } from "./constants";
+import { getNetwork, getSuiClient } from "./network";
+import type { Coin } from "./types";
+
+export interface ResolvedCoin extends Coin {
+  symbol: string;
+}
+
+/**
+ * Number of decimals represented by a coin scalar (10^decimals)
+ * @param scalar Coin scalar from constants.ts
+ * @returns Decimal places
+ */
+export function scalarToDecimals(scalar: number): number {
+  const digits = scalar.toString();
+  if (!/^10*$/.test(digits)) {
+    throw new Error(`Coin scalar ${scalar} is not a power of ten`);
+  }
+  return digits.length - 1;
+}
+
+/**
+ * Convert a human entered decimal amount to integer base units without floating point
+ * @param amount Decimal string such as "0.1"
+ * @param scalar Coin scalar from constants.ts
+ * @returns Amount in the coin's smallest unit
+ */
+export function parseUnits(amount: string, scalar: number): bigint {
+  const decimals = scalarToDecimals(scalar);
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(amount.trim());
+  if (!match || (match[1] === "" && !match[2])) {
+    throw new Error(`"${amount}" is not a valid amount`);
+  }
+
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > decimals && /[1-9]/.test(fraction.slice(decimals))) {
+    throw new Error(`"${amount}" has more than ${decimals} decimal places`);
+  }
+
+  return BigInt((whole || "0") + fraction.slice(0, decimals).padEnd(decimals, "0"));
+}
+
+/**
+ * Convert integer base units back to a decimal string
+ * @param units Amount in the coin's smallest unit
+ * @param scalar Coin scalar from constants.ts
+ * @returns Decimal string without trailing zeros
+ */
+export function formatUnits(units: bigint, scalar: number): string {
+  const decimals = scalarToDecimals(scalar);
+  const sign = units < 0n ? "-" : "";
+  const digits = (units < 0n ? -units : units).toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return `${sign}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/**
+ * Coins known for the network the app is connected to
+ * @returns Coin map of the current network
+ */
+export function getCoinMap(): CoinMap {
+  return getNetwork().coins;
+}
+
+/**
+ * Look up a coin by symbol (case-insensitive) or by its full Move type
+ * @param coin Symbol like "SUI" or a type like "0x2::sui::SUI"
+ * @returns The coin definition with its symbol
+ */
+export function resolveCoin(coin: string): ResolvedCoin {
+  const coins = getCoinMap();
+  if (coin.includes("::")) {
+    const type = normalizeStructTag(coin);
+    const entry = Object.entries(coins).find(
+      ([, c]) => normalizeStructTag(c.type) === type
+    );
+    if (!entry) {
+      throw new Error(`Unknown coin type ${coin}`);
+    }
+    return { symbol: entry[0], ...entry[1] };
+  }
+
+  const entry = Object.entries(coins).find(
+    ([symbol]) => symbol.toUpperCase() === coin.toUpperCase()
+  );
+  if (!entry) {
+    throw new Error(`Unknown coin ${coin}`);
+  }
+  return { symbol: entry[0], ...entry[1] };
+}
+
+/**
+ * Resolve a coin from constants.ts, falling back to on-chain CoinMetadata for other coin types
+ * @param coin Symbol or full Move type
+ * @returns The coin definition with its symbol
+ */
+export async function resolveCoinWithMetadata(coin: string): Promise<ResolvedCoin> {
+  try {
+    return resolveCoin(coin);
+  } catch (error) {
+    if (!coin.includes("::")) {
+      throw error;
+    }
+  }
+
+  const type = normalizeStructTag(coin);
+  const metadata = await getSuiClient().getCoinMetadata({ coinType: type });
+  if (!metadata) {
+    throw new Error(`No CoinMetadata found for ${coin}`);
+  }
+
+  return {
+    symbol: metadata.symbol,
+    address: parseStructTag(type).address,
+    type,
+    scalar: 10 ** metadata.decimals,
+  };
+}
@@ -260,6 +260,19 @@ export const DEFAULT_PROMPT = `你是一名精通区块链技术和自然语言
 
 ---
 
+### 客户端支持的动作
+客户端只会执行以下动作，其他动作会被拒绝。金额一律使用十进制字符串（例如 "0.1"），币种使用符号（例如 "SUI"、"USDC"）或完整的 Move 类型：
+   - "transfer"：\`coin\`（任意账户持有的币种）、\`amount\`（或 "max" 表示全部余额，SUI 会预留 Gas）、\`recipient\`（完整的 Sui 地址）。
+   - "swap"：\`from\`、\`to\`、\`amount\`，可选 \`slippage\`（例如 0.01）。
+   - "deepbook_limit_order"：\`pool\`（例如 "SUI_USDC"）、\`side\`（"buy" 或 "sell"）、\`price\`、\`quantity\`（十进制字符串，须为池子最小价格变动和最小数量单位的整数倍，否则会被拒绝），可选 \`orderType\`、\`expiration\`（毫秒时间戳）、\`balanceManager\`。
+   - "deepbook_cancel"：\`pool\`、\`orderId\`，可选 \`balanceManager\`。
+   - "merge_coins"：\`coin\`。
+   - "stake"：\`amount\`（至少 1 SUI）、\`validator\`（验证者地址）。
+
+DeepBook 动作未提供 \`balanceManager\` 时，客户端使用当前网络的默认 BalanceManager。
+
+---
+
 ### 输出示例
 **用户输入**：  
 \\"帮我把链 A 应用 B 中的质押转到链 C 尾号为 XXX 的卡 D 中\\"
@@ -1,12 +1,34 @@
-import { SuiClient, getFullnodeUrl } from "@mysten/sui/client";
 import { Transaction } from "@mysten/sui/transactions";
-import { AggregatorClient } from "@cetusprotocol/aggregator-sdk";
+import { AggregatorClient, Env } from "@cetusprotocol/aggregator-sdk";
+import { DeepBookClient } from "@mysten/deepbook-v3";
+import type { BalanceManager } from "./types";
+import {
+  assertQuoteFresh,
+  buildSwapQuote,
+  DEFAULT_SWAP_SETTINGS,
+  SwapQuote,
+  SwapSettings,
+  validateSwapSettings,
+} from "./swapQuote";
+import { getDeepBookEnv, getNetwork, getSuiClient } from "./network";
 
-const suiEnv = "mainnet";
-
-export const suiClient = new SuiClient({
-  url: getFullnodeUrl(suiEnv),
-});
+/**
+ * Create a DeepBook v3 client for an account
+ * @param address Address of the account trading on DeepBook
+ * @param balanceManagers BalanceManagers the client may reference, keyed by name
+ * @returns DeepBook client bound to the current network
+ */
+export function createDeepBookClient(
+  address: string,
+  balanceManagers: Record<string, BalanceManager> = {}
+): DeepBookClient {
+  return new DeepBookClient({
+    client: getSuiClient(),
+    address,
+    env: getDeepBookEnv(),
+    balanceManagers,
+  });
+}
 
 export interface TradingPairInfo {
   id: string;
@@ -36,8 +58,8 @@ export interface OrderInfo {
   filled_quantity: number;
 }
 
-let tradingPairsCache: TradingPairInfo[] = [];
-let lastFetchTime = 0;
+// Keyed by network so pools of one network never show up on another
+const tradingPairsCache: Record<string, { pairs: TradingPairInfo[]; fetchedAt: number }> = {};
 const CACHE_DURATION = 600000; // 1 hour cache
 
 /**
@@ -46,14 +68,18 @@ const CACHE_DURATION = 600000; // 1 hour cache
  */
 export async function getAllTradingPairs(): Promise<TradingPairInfo[]> {
   const now = Date.now();
+  const { cacheKey, indexerUrl } = getNetwork();
+  const cached = tradingPairsCache[cacheKey];
 
-  if (tradingPairsCache.length > 0 && now - lastFetchTime < CACHE_DURATION) {
-    return tradingPairsCache;
+  if (cached && cached.pairs.length > 0 && now - cached.fetchedAt < CACHE_DURATION) {
+    return cached.pairs;
+  }
+  if (!indexerUrl) {
+    return [];
   }
 
   try {
-    const network = suiEnv === "mainnet" ? "mainnet" : "testnet";
-    const poolsUrl = `https://deepbook-indexer.${network}.mystenlabs.com/get_pools`;
+    const poolsUrl = `${indexerUrl}/get_pools`;
     const poolsResponse = await fetch(poolsUrl);
     const poolsData = await poolsResponse.json();
     console.log("Fetched pools data:", poolsData);
@@ -70,8 +96,7 @@ export async function getAllTradingPairs(): Promise<TradingPairInfo[]> {
       };
     });
 
-    tradingPairsCache = tradingPairs;
-    lastFetchTime = now;
+    tradingPairsCache[cacheKey] = { pairs: tradingPairs, fetchedAt: now };
 
     return tradingPairs;
   } catch (error) {
@@ -99,8 +124,11 @@ export interface MarketSummary {
  * @returns Raw market data from the indexer
  */
 export async function fetchMarketData(): Promise<MarketSummary[]> {
-  const network = suiEnv === "mainnet" ? "mainnet" : "testnet";
-  const tickerUrl = `https://deepbook-indexer.${network}.mystenlabs.com/summary`;
+  const { indexerUrl } = getNetwork();
+  if (!indexerUrl) {
+    return [];
+  }
+  const tickerUrl = `${indexerUrl}/summary`;
 
   const tickerResponse = await fetch(tickerUrl);
   return tickerResponse.json();
@@ -151,44 +179,100 @@ export async function getMarketData(
 }
 
 export class OrderBook {
-  private client: AggregatorClient;
+  private clients = new Map<string, AggregatorClient>();
 
-  constructor(address: string) {
-    this.client = new AggregatorClient({
-      client: suiClient,
-      signer: address,
-    });
+  constructor(private address: string) {}
+
+  // The aggregator client is bound to one network, so one is kept per network
+  private get client(): AggregatorClient {
+    const { name, cacheKey } = getNetwork();
+    if (name === "localnet") {
+      throw new Error("Aggregator swaps are not available on localnet");
+    }
+
+    let client = this.clients.get(cacheKey);
+    if (!client) {
+      client = new AggregatorClient({
+        client: getSuiClient(),
+        signer: this.address,
+        env: name === "testnet" ? Env.Testnet : Env.Mainnet,
+      });
+      this.clients.set(cacheKey, client);
+    }
+    return client;
   }
 
-  async placeOrder(
-    txb: Transaction,
+  /**
+   * Ask the aggregator for the best routes of a swap without building it
+   * @param from Coin type sold
+   * @param target Coin type bought
+   * @param byAmountIn Whether amount is the exact input (true) or the exact output (false)
+   * @param amount Amount in base units
+   * @param settings Slippage, route depth and quote lifetime
+   * @returns Quote to review before building the swap
+   */
+  async quote(
     from: string,
     target: string,
-    isBid: boolean,
-    amount: string
-  ) {
-    console.log(
-      `Placing ${
-        isBid ? "buy" : "sell"
-      } order for ${from} - ${target} using aggregator`
-    );
+    byAmountIn: boolean,
+    amount: string,
+    settings: SwapSettings = DEFAULT_SWAP_SETTINGS
+  ): Promise<SwapQuote> {
+    validateSwapSettings(settings);
+    console.log(`Quoting ${from} - ${target} using aggregator`);
     const res = await this.client.findRouters({
       from,
       target,
       amount,
-      byAmountIn: isBid,
-      depth: 3,
+      byAmountIn,
+      depth: settings.depth,
     });
-    if (!res || !res.routes || res.routes.length === 0) {
-      throw new Error("No routes found for the order");
-    }
-    console.log("Found routes:", res.routes);
+    return buildSwapQuote(res, from, target, settings);
+  }
+
+  /**
+   * Add the swap of a reviewed quote to a transaction
+   * @param txb Transaction to extend
+   * @param quote Quote returned by quote()
+   */
+  async executeQuote(txb: Transaction, quote: SwapQuote) {
+    assertQuoteFresh(quote.expiresAt);
+    console.log("Building swap from routes:", quote.routerData.routes);
     await this.client.fastRouterSwap({
-      routers: res.routes,
-      byAmountIn: isBid,
+      routers: quote.routerData.routes,
+      byAmountIn: quote.byAmountIn,
       txb,
-      slippage: 0.02,
+      slippage: quote.settings.slippage,
       refreshAllCoins: true,
     });
   }
+
+  /**
+   * Quote and add a swap in one step, for callers that do not show the quote
+   * @param txb Transaction to extend
+   * @param from Coin type sold
+   * @param target Coin type bought
+   * @param byAmountIn Whether amount is the exact input (true) or the exact output (false)
+   * @param amount Amount in base units
+   * @param slippage Maximum accepted price movement
+   */
+  async placeOrder(
+    txb: Transaction,
+    from: string,
+    target: string,
+    byAmountIn: boolean,
+    amount: string,
+    slippage: number = DEFAULT_SWAP_SETTINGS.slippage
+  ) {
+    console.log(
+      `Placing exact ${
+        byAmountIn ? "input" : "output"
+      } swap for ${from} - ${target} using aggregator`
+    );
+    const quote = await this.quote(from, target, byAmountIn, amount, {
+      ...DEFAULT_SWAP_SETTINGS,
+      slippage,
+    });
+    await this.executeQuote(txb, quote);
+  }
 }
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { LimitOrderParams, PoolBookParams, validateLimitOrder } from "./deepbookOrders";
+
+const BOOK: PoolBookParams = { tickSize: 0.001, lotSize: 0.1, minSize: 1 };
+
+function order(overrides: Partial<LimitOrderParams>): LimitOrderParams {
+  return {
+    poolKey: "SUI_USDC",
+    balanceManager: "0x" + "c".repeat(64),
+    isBid: true,
+    price: "1.234",
+    quantity: "10.5",
+    ...overrides,
+  };
+}
+
+describe("validateLimitOrder", () => {
+  it("accepts prices and quantities on the tick and lot grid", () => {
+    expect(() => validateLimitOrder(order({}), BOOK)).not.toThrow();
+    expect(() => validateLimitOrder(order({ price: "1.2340", quantity: "1" }), BOOK)).not.toThrow();
+    expect(() => validateLimitOrder(order({ price: "0.0000012" }), { ...BOOK, tickSize: 1e-7 })).not.toThrow();
+  });
+
+  it("rejects values off the grid instead of rounding them", () => {
+    expect(() => validateLimitOrder(order({ price: "1.2345" }), BOOK)).toThrow("multiple of the tick size 0.001");
+    expect(() => validateLimitOrder(order({ quantity: "10.05" }), BOOK)).toThrow("multiple of the lot size 0.1");
+    expect(() => validateLimitOrder(order({ price: "0.00000125" }), { ...BOOK, tickSize: 1e-7 })).toThrow("tick size");
+  });
+
+  it("rejects values with more digits than a double holds, even when they round onto the grid", () => {
+    expect(Number("1.2340000000000000001")).toBe(1.234);
+    expect(() => validateLimitOrder(order({ price: "1.2340000000000000001" }), BOOK)).toThrow("tick size");
+  });
+
+  it("rejects quantities below the pool minimum", () => {
+    expect(() => validateLimitOrder(order({ quantity: "0.5" }), BOOK)).toThrow("below the pool minimum of 1");
+  });
+});
@@ -0,0 +1,327 @@
+import { Transaction } from "@mysten/sui/transactions";
+import { createDeepBookClient, OrderInfo } from "./deepbookClient";
+import type { PoolMap } from "./constants";
+import { getNetwork } from "./network";
+import { parseUnits } from "./coins";
+import { OrderType } from "./types";
+
+// Key under which the trading BalanceManager is registered with the DeepBook client
+export const BALANCE_MANAGER_KEY = "MANAGER";
+
+export type LimitOrderType = keyof typeof OrderType;
+
+export interface LimitOrderParams {
+  poolKey: string;
+  balanceManager: string;
+  isBid: boolean;
+  // Decimal strings as entered, checked exactly against the pool's tick and lot size
+  price: string;
+  quantity: string;
+  orderType?: LimitOrderType;
+  // Unix timestamp in milliseconds, orders without one rest until filled or cancelled
+  expiration?: number;
+  payWithDeep?: boolean;
+}
+
+export interface PoolOpenOrders {
+  poolKey: string;
+  pair: string;
+  orders: OrderInfo[];
+}
+
+export interface PoolBookParams {
+  tickSize: number;
+  lotSize: number;
+  minSize: number;
+}
+
+/**
+ * DeepBook pools for the network the app is connected to
+ * @returns Pool map of the current network
+ */
+export function getPoolMap(): PoolMap {
+  return getNetwork().pools;
+}
+
+/**
+ * DeepBook v3 package id for the network the app is connected to
+ * @returns Package id
+ */
+export function getDeepBookPackageId(): string {
+  const { name, packageIds } = getNetwork();
+  if (!packageIds) {
+    throw new Error(`DeepBook is not available on ${name}`);
+  }
+  return packageIds.DEEPBOOK_PACKAGE_ID;
+}
+
+/**
+ * Find the pool key for a pool name or pair
+ * @param pool Pool key or pair such as "SUI_USDC" or "SUI/USDC"
+ * @returns Key in the pool map
+ */
+export function resolvePoolKey(pool: string): string {
+  const key = Object.keys(getPoolMap()).find(
+    (name) => name.toUpperCase() === pool.toUpperCase().replace("/", "_")
+  );
+  if (!key) {
+    throw new Error(`Unknown DeepBook pool ${pool}`);
+  }
+  return key;
+}
+
+/**
+ * Create a DeepBook client that trades through one BalanceManager
+ * @param sender Owner of the BalanceManager
+ * @param balanceManager BalanceManager object id
+ * @returns DeepBook client with the manager registered under BALANCE_MANAGER_KEY
+ */
+export function getManagedDeepBook(sender: string, balanceManager?: string) {
+  if (!balanceManager) {
+    throw new Error("A balanceManager id is required for DeepBook orders");
+  }
+  return createDeepBookClient(sender, {
+    [BALANCE_MANAGER_KEY]: { address: balanceManager },
+  });
+}
+
+/**
+ * Read tick size, lot size and minimum order size of a pool
+ * @param sender Address used for the devInspect call
+ * @param poolKey Key in the pool map
+ * @returns Book parameters in human units
+ */
+export async function getPoolBookParams(sender: string, poolKey: string): Promise<PoolBookParams> {
+  return createDeepBookClient(sender).poolBookParams(poolKey);
+}
+
+// Decimal places of a book step such as 0.001 or 1e-7
+function stepDecimals(step: number): number {
+  const [mantissa, exponent] = step.toExponential().split("e");
+  return Math.max(0, (mantissa.split(".")[1]?.length ?? 0) - Number(exponent));
+}
+
+// Compared in integer units, so a value with more digits than a double holds is not rounded onto the grid
+function isMultipleOf(value: string, step: number): boolean {
+  const scalar = 10 ** stepDecimals(step);
+  try {
+    return parseUnits(value, scalar) % BigInt(Math.round(step * scalar)) === 0n;
+  } catch {
+    // More decimal places than the step has
+    return false;
+  }
+}
+
+/**
+ * Check a limit order against the pool's book parameters before it reaches the device
+ * @param params Order to check
+ * @param book Pool book parameters
+ */
+export function validateLimitOrder(params: LimitOrderParams, book: PoolBookParams) {
+  if (!(Number(params.price) > 0)) {
+    throw new Error("Price must be greater than zero");
+  }
+  if (!(Number(params.quantity) > 0)) {
+    throw new Error("Quantity must be greater than zero");
+  }
+  if (!isMultipleOf(params.price, book.tickSize)) {
+    throw new Error(`Price must be a multiple of the tick size ${book.tickSize}`);
+  }
+  if (!isMultipleOf(params.quantity, book.lotSize)) {
+    throw new Error(`Quantity must be a multiple of the lot size ${book.lotSize}`);
+  }
+  if (Number(params.quantity) < book.minSize) {
+    throw new Error(`Quantity is below the pool minimum of ${book.minSize}`);
+  }
+  if (params.expiration !== undefined && params.expiration <= Date.now()) {
+    throw new Error("Expiration must be in the future");
+  }
+}
+
+/**
+ * Add a DeepBook limit order to a transaction
+ * @param tx Transaction to extend
+ * @param sender Owner of the BalanceManager
+ * @param params Order details, price and quantity in human units
+ */
+export async function addLimitOrder(tx: Transaction, sender: string, params: LimitOrderParams) {
+  validateLimitOrder(params, await getPoolBookParams(sender, params.poolKey));
+
+  const deepBook = getManagedDeepBook(sender, params.balanceManager);
+  // The DeepBook SDK scales price and quantity by the pool's coin scalars itself, rounding to whole
+  // units, which lands exactly on the grid values checked above
+  tx.add(
+    deepBook.deepBook.placeLimitOrder({
+      poolKey: params.poolKey,
+      balanceManagerKey: BALANCE_MANAGER_KEY,
+      clientOrderId: Date.now().toString(),
+      price: Number(params.price),
+      quantity: Number(params.quantity),
+      isBid: params.isBid,
+      expiration: params.expiration,
+      orderType: OrderType[params.orderType ?? "NO_RESTRICTION"],
+      payWithDeep: params.payWithDeep,
+    })
+  );
+}
+
+/**
+ * Build a transaction placing one limit order
+ * @param sender Owner of the BalanceManager
+ * @param params Order details
+ * @returns Transaction ready for preflight
+ */
+export async function buildLimitOrderTransaction(
+  sender: string,
+  params: LimitOrderParams
+): Promise<Transaction> {
+  const tx = new Transaction();
+  tx.setSender(sender);
+  await addLimitOrder(tx, sender, params);
+  return tx;
+}
+
+/**
+ * Display name of a pool, e.g. "SUI/USDC"
+ * @param poolKey Key in the pool map
+ * @returns Base and quote symbols joined by a slash
+ */
+export function getPoolPair(poolKey: string): string {
+  const pool = getPoolMap()[poolKey];
+  return pool ? `${pool.baseCoin}/${pool.quoteCoin}` : poolKey;
+}
+
+/**
+ * Fetch the open orders of a BalanceManager in one pool
+ * @param sender Owner of the BalanceManager
+ * @param balanceManager BalanceManager object id
+ * @param poolKey Key in the pool map
+ * @returns Orders with price and quantities in human units
+ */
+export async function getOpenOrders(
+  sender: string,
+  balanceManager: string,
+  poolKey: string
+): Promise<OrderInfo[]> {
+  const deepBook = getManagedDeepBook(sender, balanceManager);
+  const orderIds: string[] = await deepBook.accountOpenOrders(poolKey, BALANCE_MANAGER_KEY);
+
+  const orders: OrderInfo[] = [];
+  for (const orderId of orderIds) {
+    const order = await deepBook.getOrderNormalized(poolKey, String(orderId));
+    if (!order) continue;
+    orders.push({
+      orderId: String(order.order_id),
+      isBid: order.isBid,
+      normalized_price: Number(order.normalized_price),
+      quantity: Number(order.quantity),
+      filled_quantity: Number(order.filled_quantity),
+    });
+  }
+  return orders;
+}
+
+/**
+ * Fetch the open orders of a BalanceManager across every known pool
+ * @param sender Owner of the BalanceManager
+ * @param balanceManager BalanceManager object id
+ * @returns Pools that have at least one open order
+ */
+export async function getAllOpenOrders(
+  sender: string,
+  balanceManager: string
+): Promise<PoolOpenOrders[]> {
+  const poolKeys = Object.keys(getPoolMap());
+  const lookups = await Promise.allSettled(
+    poolKeys.map((poolKey) => getOpenOrders(sender, balanceManager, poolKey))
+  );
+
+  const result: PoolOpenOrders[] = [];
+  lookups.forEach((lookup, index) => {
+    const poolKey = poolKeys[index];
+    if (lookup.status === "rejected") {
+      // The account lookup aborts for pools the manager has never traded in
+      console.warn(`No open orders readable for ${poolKey}:`, lookup.reason);
+    } else if (lookup.value.length > 0) {
+      result.push({ poolKey, pair: getPoolPair(poolKey), orders: lookup.value });
+    }
+  });
+  return result;
+}
+
+function newManagedTransaction(sender: string, balanceManager: string) {
+  const tx = new Transaction();
+  tx.setSender(sender);
+  return { tx, deepBook: getManagedDeepBook(sender, balanceManager) };
+}
+
+/**
+ * Build a transaction cancelling one or more orders in a pool
+ * @param sender Owner of the BalanceManager
+ * @param balanceManager BalanceManager object id
+ * @param poolKey Key in the pool map
+ * @param orderIds Orders to cancel
+ * @returns Transaction ready for preflight
+ */
+export function buildCancelOrdersTransaction(
+  sender: string,
+  balanceManager: string,
+  poolKey: string,
+  orderIds: string[]
+): Transaction {
+  if (orderIds.length === 0) {
+    throw new Error("No orders selected");
+  }
+
+  const { tx, deepBook } = newManagedTransaction(sender, balanceManager);
+  for (const orderId of orderIds) {
+    tx.add(deepBook.deepBook.cancelOrder(poolKey, BALANCE_MANAGER_KEY, orderId));
+  }
+  return tx;
+}
+
+/**
+ * Build a transaction cancelling every order of the BalanceManager in a pool
+ * @param sender Owner of the BalanceManager
+ * @param balanceManager BalanceManager object id
+ * @param poolKey Key in the pool map
+ * @returns Transaction ready for preflight
+ */
+export function buildCancelAllOrdersTransaction(
+  sender: string,
+  balanceManager: string,
+  poolKey: string
+): Transaction {
+  const { tx, deepBook } = newManagedTransaction(sender, balanceManager);
+  tx.add(deepBook.deepBook.cancelAllOrders(poolKey, BALANCE_MANAGER_KEY));
+  return tx;
+}
+
+/**
+ * Build a transaction reducing the quantity of an open order
+ * @param sender Owner of the BalanceManager
+ * @param balanceManager BalanceManager object id
+ * @param poolKey Key in the pool map
+ * @param order Order to modify
+ * @param newQuantity New total quantity in base units of the pool
+ * @returns Transaction ready for preflight
+ */
+export function buildModifyOrderTransaction(
+  sender: string,
+  balanceManager: string,
+  poolKey: string,
+  order: OrderInfo,
+  newQuantity: number
+): Transaction {
+  // DeepBook only lets an order shrink, and never below what has already been filled
+  if (!(newQuantity < order.quantity)) {
+    throw new Error(`New quantity must be below the current quantity ${order.quantity}`);
+  }
+  if (!(newQuantity > order.filled_quantity)) {
+    throw new Error(`New quantity must be above the filled quantity ${order.filled_quantity}`);
+  }
+
+  const { tx, deepBook } = newManagedTransaction(sender, balanceManager);
+  tx.add(deepBook.deepBook.modifyOrder(poolKey, BALANCE_MANAGER_KEY, order.orderId, newQuantity));
+  return tx;
+}
@@ -0,0 +1,35 @@
+const EVM_MODE_STORAGE_KEY = "onekey.evmMode";
+
+let evmModeEnabled = localStorage.getItem(EVM_MODE_STORAGE_KEY) === "true";
+const listeners = new Set<() => void>();
+
+/**
+ * Whether the user turned on the Ethereum view, EVM addresses are only derived when it is on
+ * @returns Stored setting, off by default
+ */
+export function getEvmMode(): boolean {
+  return evmModeEnabled;
+}
+
+/**
+ * Turn the Ethereum view on or off and remember the choice
+ * @param enabled New setting
+ */
+export function setEvmMode(enabled: boolean) {
+  localStorage.setItem(EVM_MODE_STORAGE_KEY, String(enabled));
+  if (enabled === evmModeEnabled) return;
+  evmModeEnabled = enabled;
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Get notified when EVM mode is turned on or off
+ * @param listener Called after every change
+ * @returns Function removing the listener
+ */
+export function subscribeEvmMode(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
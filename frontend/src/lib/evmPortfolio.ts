@@ -0,0 +1,82 @@
+import { formatUnits } from "./coins";
+
+// Public Ethereum mainnet endpoint, only read calls are sent to it
+export const ETHEREUM_RPC_URL = "https://ethereum-rpc.publicnode.com";
+export const ETHEREUM_EXPLORER_ADDRESS_URL = "https://etherscan.io/address/";
+
+interface EvmToken {
+  symbol: string;
+  // ERC-20 contract, null for native ETH
+  contract: string | null;
+  scalar: number;
+}
+
+const EVM_TOKENS: EvmToken[] = [
+  { symbol: "ETH", contract: null, scalar: 10 ** 18 },
+  { symbol: "USDC", contract: "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48", scalar: 10 ** 6 },
+  { symbol: "USDT", contract: "0xdac17f958d2ee523a2206206994597c13d831ec7", scalar: 10 ** 6 },
+  { symbol: "WETH", contract: "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2", scalar: 10 ** 18 },
+];
+
+// balanceOf(address) selector
+const BALANCE_OF_SELECTOR = "0x70a08231";
+
+export interface EvmBalance {
+  symbol: string;
+  balance: bigint;
+  formatted: string;
+}
+
+/**
+ * Check that a string is a 20 byte hex Ethereum address
+ * @param address Address to check
+ * @returns Whether the address is well formed
+ */
+export function isValidEvmAddress(address: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(address);
+}
+
+async function ethereumRpc(method: string, params: unknown[]): Promise<string> {
+  const response = await fetch(ETHEREUM_RPC_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+  });
+  if (!response.ok) {
+    throw new Error(`Ethereum RPC returned ${response.status}`);
+  }
+
+  const body = (await response.json()) as { result?: string; error?: { message: string } };
+  if (body.error || body.result === undefined) {
+    throw new Error(`Ethereum RPC ${method} failed: ${body.error?.message ?? "empty result"}`);
+  }
+  return body.result;
+}
+
+async function getTokenBalance(owner: string, token: EvmToken): Promise<bigint> {
+  if (!token.contract) {
+    return BigInt(await ethereumRpc("eth_getBalance", [owner, "latest"]));
+  }
+
+  const data = BALANCE_OF_SELECTOR + owner.slice(2).toLowerCase().padStart(64, "0");
+  const result = await ethereumRpc("eth_call", [{ to: token.contract, data }, "latest"]);
+  return result === "0x" ? 0n : BigInt(result);
+}
+
+/**
+ * Read the ETH and major ERC-20 balances of an address on Ethereum mainnet
+ * @param owner Ethereum address derived from the device
+ * @returns Balances of every tracked token, zero balances included
+ */
+export async function getEvmPortfolio(owner: string): Promise<EvmBalance[]> {
+  if (!isValidEvmAddress(owner)) {
+    throw new Error(`"${owner}" is not an Ethereum address`);
+  }
+
+  return Promise.all(
+    EVM_TOKENS.map(async (token) => {
+      const balance = await getTokenBalance(owner, token);
+      return { symbol: token.symbol, balance, formatted: formatUnits(balance, token.scalar) };
+    })
+  );
+}
@@ -0,0 +1,125 @@
+import HardwareSDK from "@onekeyfe/hd-web-sdk";
+import { OneKeyFailure } from "./walletErrors";
+
+// Result of an SDK call, failures carry the HardwareErrorCode of @onekeyfe/hd-shared
+export type HardwareResponse<T> = Promise<
+  { success: true; payload: T } | { success: false; payload: OneKeyFailure }
+>;
+
+// Message emitted on the SDK's "device" and "UI_EVENT" channels
+export interface HardwareEvent {
+  type: string;
+  payload?: unknown;
+}
+
+export type HardwareListener = (event: HardwareEvent) => void;
+
+// Wallet selection shared by every account call: a passphrase state opens a hidden wallet
+export interface HardwareCallParams {
+  passphraseState?: string;
+  useEmptyPassphrase?: boolean;
+}
+
+export interface SearchedDevice {
+  connectId: string | null;
+  deviceId: string | null;
+  deviceType: string;
+  name: string;
+}
+
+export interface HardwareFeatures {
+  label?: string | null;
+  onekey_firmware_version?: string;
+  onekey_version?: string;
+}
+
+export interface HardwareSuiAddress {
+  path: string;
+  address: string;
+  pub?: string;
+  publicKey?: string;
+}
+
+export interface SuiAddressParams {
+  path: string;
+  showOnOneKey?: boolean;
+}
+
+export interface SuiSignedTx {
+  path: string;
+  public_key: string;
+  signature: string;
+}
+
+export interface HardwareMessageSignature {
+  address: string;
+  signature: string;
+}
+
+export interface HardwareEvmAddress {
+  path: string;
+  address: string;
+}
+
+/**
+ * The part of the OneKey SDK the wallet talks to, implemented by the web SDK and by test devices
+ */
+export interface HardwareTransport {
+  init(settings: { debug?: boolean; connectSrc?: string }): Promise<unknown>;
+  searchDevices(): HardwareResponse<SearchedDevice[]>;
+  getFeatures(connectId: string): HardwareResponse<HardwareFeatures>;
+  getPassphraseState(connectId: string): HardwareResponse<string | undefined>;
+  suiGetAddress(
+    connectId: string,
+    deviceId: string,
+    params: HardwareCallParams & SuiAddressParams
+  ): HardwareResponse<HardwareSuiAddress>;
+  suiGetAddress(
+    connectId: string,
+    deviceId: string,
+    params: HardwareCallParams & { bundle: SuiAddressParams[] }
+  ): HardwareResponse<HardwareSuiAddress[]>;
+  suiSignTransaction(
+    connectId: string,
+    deviceId: string,
+    params: HardwareCallParams & { path: string; rawTx: string }
+  ): HardwareResponse<SuiSignedTx>;
+  suiSignMessage(
+    connectId: string,
+    deviceId: string,
+    params: HardwareCallParams & { path: string; messageHex: string }
+  ): HardwareResponse<HardwareMessageSignature>;
+  evmGetAddress(
+    connectId: string,
+    deviceId: string,
+    params: HardwareCallParams & { path: string; showOnOneKey?: boolean; chainId?: number }
+  ): HardwareResponse<HardwareEvmAddress>;
+  evmSignMessage(
+    connectId: string,
+    deviceId: string,
+    params: HardwareCallParams & { path: string; messageHex: string; chainId?: number }
+  ): HardwareResponse<HardwareMessageSignature>;
+  on(type: string, listener: HardwareListener): void;
+  off(type: string, listener: HardwareListener): void;
+  uiResponse(response: { type: string; payload: unknown }): void;
+  cancel(connectId?: string): void;
+}
+
+let transport: HardwareTransport = HardwareSDK.HardwareWebSdk;
+
+/**
+ * Transport every OneKey SDK call goes through
+ * @returns The web SDK unless another transport was set
+ */
+export function getHardwareTransport(): HardwareTransport {
+  return transport;
+}
+
+/**
+ * Route OneKey SDK calls through another transport, e.g. an in-memory device in tests.
+ * Listeners stay on the transport that was active when they were added.
+ * @param next Transport to use from now on
+ */
+export function setHardwareTransport(next: HardwareTransport) {
+  transport = next;
+}
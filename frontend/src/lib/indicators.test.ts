@@ -0,0 +1,169 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { atr, bollinger, computeIndicators, ema, macd, realizedVolatility, rsi, sma } from "./indicators";
+import {
+  Candle,
+  candlesFromTrades,
+  createFixtureCandleSource,
+  getCandles,
+  indexerCandleSource,
+  setCandleSource,
+} from "./marketHistory";
+
+const HOUR = 3_600_000;
+
+// Hourly candles closing at the given prices, each one spanning a 2 unit range around its close
+function hourlyCandles(closes: number[]): Candle[] {
+  return closes.map((close, i) => ({
+    time: i * HOUR,
+    open: i === 0 ? close : closes[i - 1],
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 100,
+  }));
+}
+
+describe("moving averages", () => {
+  it("averages the window once it is full", () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+  });
+
+  it("seeds the EMA with the first simple average", () => {
+    expect(ema([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+    expect(ema([2, 2, 2, 8], 3)[3]).toBe(5);
+  });
+});
+
+describe("oscillators", () => {
+  it("reads a steady rise as RSI 100 and a flat market as 50", () => {
+    const rising = Array.from({ length: 20 }, (_, i) => 10 + i);
+
+    expect(rsi(rising)[13]).toBeNull();
+    expect(rsi(rising)[14]).toBe(100);
+    expect(rsi(Array(20).fill(10))[19]).toBe(50);
+  });
+
+  it("starts MACD once both EMAs and the signal line have a full window", () => {
+    const points = macd(Array(40).fill(10));
+
+    expect(points[32]).toBeNull();
+    expect(points[33]).toEqual({ macd: 0, signal: 0, histogram: 0 });
+  });
+});
+
+describe("volatility", () => {
+  it("collapses the Bollinger Bands on a flat market", () => {
+    expect(bollinger(Array(20).fill(5))[19]).toEqual({ upper: 5, middle: 5, lower: 5, percentB: 0.5 });
+  });
+
+  it("measures the true range including gaps from the previous close", () => {
+    expect(atr(hourlyCandles(Array(20).fill(10)))[19]).toBeCloseTo(2);
+    const gapped = hourlyCandles([10, 10, 20]);
+    expect(atr(gapped, 3)[2]).toBeCloseTo((2 + 2 + 11) / 3);
+  });
+
+  it("sees no realized volatility in a steady trend and scales it to the horizon", () => {
+    expect(realizedVolatility([100, 101, 102.01, 103.0301])).toBeCloseTo(0);
+    const choppy = [100, 102, 100, 102, 100];
+    expect(realizedVolatility(choppy, 24)).toBeCloseTo(realizedVolatility(choppy)! * Math.sqrt(24));
+    expect(realizedVolatility([100, 101])).toBeNull();
+  });
+});
+
+describe("candle history", () => {
+  it("buckets indexer trades into candles", () => {
+    const candles = candlesFromTrades(
+      [
+        { price: 2, base_volume: 5, timestamp: HOUR + 10 },
+        { price: 1, base_volume: 1, timestamp: 0 },
+        { price: 3, base_volume: 2, timestamp: 60_000 },
+        { price: 1.5, base_volume: 1, timestamp: 120_000 },
+      ],
+      "1h"
+    );
+
+    expect(candles).toEqual([
+      { time: 0, open: 1, high: 3, low: 1, close: 1.5, volume: 4 },
+      { time: HOUR, open: 2, high: 2, low: 2, close: 2, volume: 5 },
+    ]);
+  });
+
+  it("computes indicators from a fixture history without the indexer", async () => {
+    const closes = Array.from({ length: 96 }, (_, i) => 3 + 0.1 * Math.sin(i / 4));
+    setCandleSource(createFixtureCandleSource({ SUI_USDC: hourlyCandles(closes) }));
+
+    const { candles, coveredFrom } = await getCandles("SUI_USDC", "1h", 50);
+    const indicators = computeIndicators(candles, "1h", 24);
+
+    expect(candles).toHaveLength(50);
+    expect(candles[49].close).toBe(closes[95]);
+    expect(indicators).toMatchObject({ interval: "1h", candleCount: 50, close: closes[95] });
+    expect(indicators?.rsi14).toBeGreaterThan(0);
+    expect(indicators?.macd).not.toBeNull();
+    expect(indicators?.realizedVolatility).toBeGreaterThan(0);
+    expect(coveredFrom).toBe(0);
+    expect((await getCandles("DEEP_SUI", "1h", 50)).candles).toEqual([]);
+  });
+
+  describe("from indexer trades", () => {
+    // Indexer without /ohlcv, serving `count` trades `spacing` apart back from the end time, newest first
+    function stubTradesIndexer(count: number, spacing = 60_000) {
+      return vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+        const url = String(input);
+        if (url.includes("/ohlcv/")) return new Response(null, { status: 404 });
+        const params = new URL(url).searchParams;
+        const endTime = Number(params.get("end_time")) * 1000;
+        const startTime = Number(params.get("start_time")) * 1000;
+        const trades = Array.from({ length: count }, (_, i) => ({
+          price: 2,
+          base_volume: 1,
+          timestamp: endTime - i * spacing,
+          trade_id: String(endTime - i * spacing),
+        })).filter((trade) => trade.timestamp >= startTime);
+        return Response.json(trades.slice(0, Number(params.get("limit"))));
+      });
+    }
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it("pages back through trades until the window is covered", async () => {
+      vi.useFakeTimers({ now: 100 * HOUR });
+      const fetchMock = stubTradesIndexer(10_000);
+
+      const { candles, coveredFrom } = await indexerCandleSource("SUI_USDC", "1h", 24);
+
+      expect(coveredFrom).toBe(76 * HOUR);
+      // 24 hours of a trade a minute take two pages
+      expect(fetchMock.mock.calls.filter(([url]) => String(url).includes("/trades/"))).toHaveLength(2);
+      expect(candles).toHaveLength(24);
+      expect(candles[0].time).toBe(77 * HOUR);
+      expect(candles[1].volume).toBe(60);
+    });
+
+    it("keeps only the complete hours when the window takes too many pages", async () => {
+      vi.useFakeTimers({ now: 1000 * HOUR });
+      const fetchMock = stubTradesIndexer(1_000);
+
+      const { candles, coveredFrom } = await indexerCandleSource("SUI_USDC", "1h", 500);
+
+      // 25 pages reach back 416 hours and 15 minutes, the partly fetched hour before that is left out
+      expect(fetchMock.mock.calls.filter(([url]) => String(url).includes("/trades/"))).toHaveLength(25);
+      expect(candles[0]).toMatchObject({ time: 584 * HOUR, volume: 60 });
+      expect(candles).toHaveLength(417);
+      expect(coveredFrom).toBe(1000 * HOUR - 24_975 * 60_000);
+    });
+
+    it("reports a thin pool's window as covered even when its first hours had no trades", async () => {
+      vi.useFakeTimers({ now: 100 * HOUR });
+      stubTradesIndexer(10, 5 * HOUR);
+
+      const { candles, coveredFrom } = await indexerCandleSource("SUI_USDC", "1h", 24);
+
+      expect(candles.map((candle) => candle.time)).toEqual([80, 85, 90, 95, 100].map((hour) => hour * HOUR));
+      expect(coveredFrom).toBe(76 * HOUR);
+    });
+  });
+});
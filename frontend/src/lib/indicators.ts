@@ -0,0 +1,198 @@
+import type { Candle } from "./marketHistory";
+
+// Indicator series are aligned with their input, null until enough candles are in the window
+
+/**
+ * Simple moving average
+ * @param values Series, oldest first
+ * @param period Window length
+ * @returns Average of the last `period` values at each point
+ */
+export function sma(values: number[], period: number): (number | null)[] {
+  let sum = 0;
+  return values.map((value, i) => {
+    sum += value;
+    if (i >= period) sum -= values[i - period];
+    return i >= period - 1 ? sum / period : null;
+  });
+}
+
+/**
+ * Exponential moving average, seeded with the simple average of the first window
+ * @param values Series, oldest first
+ * @param period Window length, the smoothing factor is 2 / (period + 1)
+ * @returns EMA at each point
+ */
+export function ema(values: number[], period: number): (number | null)[] {
+  const k = 2 / (period + 1);
+  let previous: number | null = null;
+  const seed = sma(values, period);
+  return values.map((value, i) => {
+    if (i < period - 1) return null;
+    previous = previous === null ? seed[i] : value * k + previous * (1 - k);
+    return previous;
+  });
+}
+
+/**
+ * Relative strength index with Wilder's smoothing
+ * @param values Closing prices, oldest first
+ * @param period Lookback, 14 by convention
+ * @returns RSI between 0 and 100 at each point
+ */
+export function rsi(values: number[], period = 14): (number | null)[] {
+  let averageGain = 0;
+  let averageLoss = 0;
+  return values.map((value, i) => {
+    if (i === 0) return null;
+    const change = value - values[i - 1];
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    if (i <= period) {
+      averageGain += gain / period;
+      averageLoss += loss / period;
+      if (i < period) return null;
+    } else {
+      averageGain = (averageGain * (period - 1) + gain) / period;
+      averageLoss = (averageLoss * (period - 1) + loss) / period;
+    }
+    if (averageLoss === 0) return averageGain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + averageGain / averageLoss);
+  });
+}
+
+export interface MacdPoint {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+/**
+ * Moving average convergence divergence
+ * @param values Closing prices, oldest first
+ * @param fast Fast EMA period
+ * @param slow Slow EMA period
+ * @param signalPeriod EMA period of the signal line
+ * @returns MACD line, signal line and histogram at each point
+ */
+export function macd(values: number[], fast = 12, slow = 26, signalPeriod = 9): (MacdPoint | null)[] {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const lineStart = slow - 1;
+  const line = values.slice(lineStart).map((_, i) => fastEma[lineStart + i]! - slowEma[lineStart + i]!);
+  const signal = ema(line, signalPeriod);
+
+  return values.map((_, i) => {
+    const j = i - lineStart;
+    if (j < 0 || signal[j] === null) return null;
+    return { macd: line[j], signal: signal[j]!, histogram: line[j] - signal[j]! };
+  });
+}
+
+export interface BollingerPoint {
+  upper: number;
+  middle: number;
+  lower: number;
+  // Position of the close within the bands, 0 at the lower band and 1 at the upper
+  percentB: number;
+}
+
+/**
+ * Bollinger Bands around a simple moving average
+ * @param values Closing prices, oldest first
+ * @param period Window length
+ * @param multiplier Standard deviations between the middle and outer bands
+ * @returns Bands at each point
+ */
+export function bollinger(values: number[], period = 20, multiplier = 2): (BollingerPoint | null)[] {
+  const middle = sma(values, period);
+  return values.map((value, i) => {
+    const mean = middle[i];
+    if (mean === null) return null;
+    const window = values.slice(i - period + 1, i + 1);
+    const deviation = Math.sqrt(window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period);
+    const upper = mean + multiplier * deviation;
+    const lower = mean - multiplier * deviation;
+    return { upper, middle: mean, lower, percentB: upper === lower ? 0.5 : (value - lower) / (upper - lower) };
+  });
+}
+
+/**
+ * Average true range with Wilder's smoothing
+ * @param candles Candles, oldest first
+ * @param period Lookback, 14 by convention
+ * @returns ATR in quote units at each point
+ */
+export function atr(candles: Candle[], period = 14): (number | null)[] {
+  let average = 0;
+  return candles.map((candle, i) => {
+    const trueRange = i === 0
+      ? candle.high - candle.low
+      : Math.max(
+          candle.high - candle.low,
+          Math.abs(candle.high - candles[i - 1].close),
+          Math.abs(candle.low - candles[i - 1].close)
+        );
+    if (i < period) {
+      average += trueRange / period;
+      return i === period - 1 ? average : null;
+    }
+    average = (average * (period - 1) + trueRange) / period;
+    return average;
+  });
+}
+
+/**
+ * Realized volatility: standard deviation of log returns, scaled to a longer horizon
+ * @param values Closing prices, oldest first
+ * @param periodsPerHorizon Candles in the horizon, 24 to scale hourly candles to a daily figure
+ * @returns Volatility as a fraction of price, or null with fewer than three prices
+ */
+export function realizedVolatility(values: number[], periodsPerHorizon = 1): number | null {
+  const returns = values.slice(1).map((value, i) => Math.log(value / values[i]));
+  if (returns.length < 2) return null;
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  return Math.sqrt(variance * periodsPerHorizon);
+}
+
+// Latest indicator values of a pool, as fed into the analysis
+export interface TechnicalIndicators {
+  interval: string;
+  candleCount: number;
+  close: number;
+  sma20: number | null;
+  ema20: number | null;
+  rsi14: number | null;
+  macd: MacdPoint | null;
+  bollinger: BollingerPoint | null;
+  atr14: number | null;
+  // Daily realized volatility as a fraction of price
+  realizedVolatility: number | null;
+}
+
+/**
+ * Compute the standard indicators over a candle history
+ * @param candles Candles, oldest first
+ * @param interval Candle interval the history was fetched with
+ * @param periodsPerDay Candles per day at that interval, to scale volatility to a daily figure
+ * @returns Latest value of each indicator, null where the history is too short
+ */
+export function computeIndicators(candles: Candle[], interval: string, periodsPerDay: number): TechnicalIndicators | null {
+  if (candles.length === 0) return null;
+  const closes = candles.map((candle) => candle.close);
+  const last = <T>(series: (T | null)[]) => series[series.length - 1] ?? null;
+
+  return {
+    interval,
+    candleCount: candles.length,
+    close: closes[closes.length - 1],
+    sma20: last(sma(closes, 20)),
+    ema20: last(ema(closes, 20)),
+    rsi14: last(rsi(closes, 14)),
+    macd: last(macd(closes)),
+    bollinger: last(bollinger(closes)),
+    atr14: last(atr(candles, 14)),
+    realizedVolatility: realizedVolatility(closes, periodsPerDay),
+  };
+}
@@ -0,0 +1,93 @@
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { getNetwork } from "./network";
+import { SuiWallet } from "./suiWallet";
+import { encodeMessage, SignedMessage } from "./messageSigning";
+import { SigningUnavailableError } from "./walletErrors";
+
+/**
+ * Fresh development secret key, shown to the user before connecting so it can be funded and reused
+ * @returns Bech32 encoded "suiprivkey..." secret
+ */
+export function generateSecretKey(): string {
+  return Ed25519Keypair.generate().getSecretKey();
+}
+
+/**
+ * Ed25519 keypair held in the page, for trying the app on testnet or localnet without a device
+ */
+export class KeypairWallet extends SuiWallet {
+  readonly backend = "keypair" as const;
+  readonly canSign = true;
+  private keypair: Ed25519Keypair | null = null;
+
+  /**
+   * Sign with a development key
+   * @param secretKey Bech32 "suiprivkey..." secret
+   * @returns SUI address of the keypair
+   */
+  async connect(secretKey: string): Promise<string> {
+    this.assertDevelopmentNetwork();
+
+    try {
+      this.keypair = Ed25519Keypair.fromSecretKey(secretKey.trim());
+    } catch (error) {
+      throw new Error(`Invalid Ed25519 secret key: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const address = this.keypair.toSuiAddress();
+    this.setAccount(address);
+    this.isConnected = true;
+    console.log("Connected development keypair wallet:", address);
+    return address;
+  }
+
+  disconnect(): void {
+    this.keypair = null;
+    this.isConnected = false;
+    this.address = null;
+    console.log("Disconnected development keypair wallet");
+  }
+
+  // A key typed into a web page must never control mainnet funds
+  private assertDevelopmentNetwork() {
+    if (getNetwork().name === "mainnet") {
+      throw new SigningUnavailableError("Development keypairs only work on testnet and localnet");
+    }
+  }
+
+  protected async signTransactionBytes(txBytes: Uint8Array): Promise<string> {
+    this.assertDevelopmentNetwork();
+    if (!this.keypair) {
+      throw new Error("Wallet not connected");
+    }
+    const { signature } = await this.keypair.signTransaction(txBytes);
+    return signature;
+  }
+
+  async getSignerPublicKey(): Promise<string> {
+    if (!this.keypair) {
+      throw new Error("Wallet not connected");
+    }
+    return this.keypair.getPublicKey().toSuiPublicKey();
+  }
+
+  /**
+   * Sign a personal message with the keypair
+   * @param message Message text
+   * @returns Signature that verifies against the keypair address
+   */
+  async signPersonalMessage(message: string): Promise<SignedMessage> {
+    this.assertDevelopmentNetwork();
+    if (!this.keypair || !this.address) {
+      throw new Error("Wallet not connected");
+    }
+    if (!message) {
+      throw new Error("Message is empty");
+    }
+
+    const { signature } = await this.keypair.signPersonalMessage(encodeMessage(message));
+    return { message, signature, address: this.address };
+  }
+}
+
+export const keypairWallet = new KeypairWallet();
@@ -0,0 +1,250 @@
+import { getNetwork } from "./network";
+
+export interface Candle {
+  // Open time in milliseconds
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  // Volume in base units
+  volume: number;
+}
+
+export type CandleInterval = "1m" | "5m" | "15m" | "1h" | "4h" | "1d";
+
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  "1m": 60_000,
+  "5m": 300_000,
+  "15m": 900_000,
+  "1h": 3_600_000,
+  "4h": 14_400_000,
+  "1d": 86_400_000,
+};
+
+export interface CandleHistory {
+  // Oldest first, intervals without trades are skipped
+  candles: Candle[];
+  // Time in milliseconds from which no trade is missing, later than the first requested candle when
+  // the source could only fetch part of the window
+  coveredFrom: number;
+}
+
+/**
+ * Where candles come from: the DeepBook indexer, or fixtures in tests
+ * @param poolName Pool name as listed by the indexer, e.g. SUI_USDC
+ * @param interval Candle interval
+ * @param limit Most recent candles to return
+ * @returns Candles and how far back they are complete
+ */
+export type CandleSource = (poolName: string, interval: CandleInterval, limit: number) => Promise<CandleHistory>;
+
+// Trades per /trades request, and requests made before a window is given up as too busy to page through
+const TRADES_PAGE_SIZE = 1000;
+const MAX_TRADE_PAGES = 25;
+
+// One trade as returned by the indexer's /trades endpoint
+interface IndexerTrade {
+  price: number;
+  base_volume: number;
+  timestamp: number;
+  trade_id?: string;
+  taker_is_bid?: boolean;
+}
+
+// Trade of one BalanceManager, from its own side
+export interface AccountFill {
+  tradeId: string;
+  time: number;
+  price: number;
+  quantity: number;
+  side: "buy" | "sell";
+  role: "maker" | "taker";
+}
+
+/**
+ * Bucket trades into candles of one interval, intervals without trades are skipped
+ * @param trades Trades in any order
+ * @param interval Candle interval
+ * @returns Candles, oldest first
+ */
+export function candlesFromTrades(trades: IndexerTrade[], interval: CandleInterval): Candle[] {
+  const intervalMs = CANDLE_INTERVAL_MS[interval];
+  const candles = new Map<number, Candle>();
+
+  for (const trade of [...trades].sort((a, b) => a.timestamp - b.timestamp)) {
+    const price = Number(trade.price);
+    const volume = Number(trade.base_volume);
+    const time = Math.floor(trade.timestamp / intervalMs) * intervalMs;
+    const candle = candles.get(time);
+    if (!candle) {
+      candles.set(time, { time, open: price, high: price, low: price, close: price, volume });
+    } else {
+      candle.high = Math.max(candle.high, price);
+      candle.low = Math.min(candle.low, price);
+      candle.close = price;
+      candle.volume += volume;
+    }
+  }
+
+  return [...candles.values()];
+}
+
+/**
+ * Candles from the DeepBook indexer: its /ohlcv endpoint, or recent trades where that is not served
+ */
+export const indexerCandleSource: CandleSource = async (poolName, interval, limit) => {
+  const { indexerUrl } = getNetwork();
+  if (!indexerUrl) {
+    throw new Error("No DeepBook indexer on this network");
+  }
+
+  const ohlcvResponse = await fetch(`${indexerUrl}/ohlcv/${poolName}?interval=${interval}&limit=${limit}`);
+  if (ohlcvResponse.ok) {
+    const { candles } = (await ohlcvResponse.json()) as { candles: number[][] };
+    const ohlcv = candles
+      .map(([time, open, high, low, close, volume]) => ({
+        // Seconds on some indexer versions, milliseconds on others
+        time: time < 1e12 ? time * 1000 : time,
+        open: Number(open),
+        high: Number(high),
+        low: Number(low),
+        close: Number(close),
+        volume: Number(volume),
+      }))
+      .sort((a, b) => a.time - b.time)
+      .slice(-limit);
+    return { candles: ohlcv, coveredFrom: Date.now() - CANDLE_INTERVAL_MS[interval] * limit };
+  }
+
+  const endTime = Date.now();
+  const startTime = endTime - CANDLE_INTERVAL_MS[interval] * limit;
+  const { trades, coveredFrom } = await fetchTrades(indexerUrl, poolName, startTime, endTime);
+  // A candle is only complete when its whole interval was paged through
+  return {
+    candles: candlesFromTrades(trades, interval)
+      .filter((candle) => candle.time >= coveredFrom)
+      .slice(-limit),
+    coveredFrom,
+  };
+};
+
+// Page backwards through the trades of a window, each page ending at the oldest trade of the previous one
+async function fetchTrades(
+  indexerUrl: string,
+  poolName: string,
+  startTime: number,
+  endTime: number
+): Promise<{ trades: IndexerTrade[]; coveredFrom: number }> {
+  const trades = new Map<string, IndexerTrade>();
+  let pageEnd = endTime;
+
+  for (let page = 0; page < MAX_TRADE_PAGES; page++) {
+    const response = await fetch(
+      `${indexerUrl}/trades/${poolName}?start_time=${Math.floor(startTime / 1000)}&end_time=${Math.floor(pageEnd / 1000)}&limit=${TRADES_PAGE_SIZE}`
+    );
+    if (!response.ok) {
+      throw new Error(`Indexer has no trade history for ${poolName} (HTTP ${response.status})`);
+    }
+    const pageTrades = (await response.json()) as IndexerTrade[];
+    for (const trade of pageTrades) {
+      // Pages overlap on the second they meet at
+      trades.set(trade.trade_id ?? `${trade.timestamp}:${trade.price}:${trade.base_volume}`, trade);
+    }
+
+    const oldest = Math.min(...pageTrades.map((trade) => trade.timestamp));
+    if (pageTrades.length < TRADES_PAGE_SIZE || oldest <= startTime) {
+      return { trades: [...trades.values()], coveredFrom: startTime };
+    }
+    // A full page within one second cannot be paged past
+    if (Math.floor(oldest / 1000) >= Math.floor(pageEnd / 1000)) break;
+    pageEnd = oldest;
+  }
+
+  // Only the time after the oldest trade fetched is complete
+  return { trades: [...trades.values()], coveredFrom: pageEnd };
+}
+
+/**
+ * Candle source serving fixed histories, so tests and offline demos never reach the indexer
+ * @param fixtures Candles per pool name, oldest first
+ * @returns Source returning the last `limit` candles of a pool, empty for unknown pools, each history complete
+ */
+export function createFixtureCandleSource(fixtures: Record<string, Candle[]>): CandleSource {
+  return async (poolName, _interval, limit) => ({ candles: (fixtures[poolName] ?? []).slice(-limit), coveredFrom: 0 });
+}
+
+let candleSource: CandleSource = indexerCandleSource;
+// Keyed by network, pool and interval
+const candleCache = new Map<string, { history: CandleHistory; fetchedAt: number }>();
+const CACHE_DURATION = 60000; // 1 minute cache
+
+/**
+ * Use another candle source, e.g. fixtures in tests
+ * @param source Source for every later request
+ */
+export function setCandleSource(source: CandleSource) {
+  candleSource = source;
+  candleCache.clear();
+}
+
+/**
+ * Recent candles of a pool
+ * @param poolName Pool name as listed by the indexer
+ * @param interval Candle interval
+ * @param limit Most recent candles to return
+ * @returns Candles and how far back they are complete
+ */
+export async function getCandles(poolName: string, interval: CandleInterval, limit: number): Promise<CandleHistory> {
+  const key = `${getNetwork().cacheKey}:${poolName}:${interval}:${limit}`;
+  const cached = candleCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_DURATION) {
+    return cached.history;
+  }
+
+  const history = await candleSource(poolName, interval, limit);
+  candleCache.set(key, { history, fetchedAt: Date.now() });
+  return history;
+}
+
+/**
+ * Recent trades of a BalanceManager in a pool, whether it made or took the liquidity
+ * @param poolName Pool name as listed by the indexer
+ * @param balanceManager BalanceManager object id
+ * @param since Oldest fill to return, in milliseconds
+ * @returns Fills, oldest first
+ */
+export async function getAccountFills(poolName: string, balanceManager: string, since: number): Promise<AccountFill[]> {
+  const { indexerUrl } = getNetwork();
+  if (!indexerUrl) {
+    return [];
+  }
+
+  const startTime = Math.floor(since / 1000);
+  const endTime = Math.floor(Date.now() / 1000);
+  const fills = await Promise.all(
+    (["maker", "taker"] as const).map(async (role) => {
+      const response = await fetch(
+        `${indexerUrl}/trades/${poolName}?${role}_balance_manager_id=${balanceManager}&start_time=${startTime}&end_time=${endTime}&limit=500`
+      );
+      if (!response.ok) {
+        throw new Error(`Indexer has no trade history for ${poolName} (HTTP ${response.status})`);
+      }
+      const trades = (await response.json()) as IndexerTrade[];
+      return trades.map((trade): AccountFill => {
+        // The maker sits on the opposite side of the taker
+        const bought = role === "taker" ? !!trade.taker_is_bid : !trade.taker_is_bid;
+        return {
+          tradeId: String(trade.trade_id ?? `${trade.timestamp}-${role}`),
+          time: trade.timestamp,
+          price: Number(trade.price),
+          quantity: Number(trade.base_volume),
+          side: bought ? "buy" : "sell",
+          role,
+        };
+      });
+    })
+  );
+
+  return fills.flat().sort((a, b) => a.time - b.time);
+}
@@ -0,0 +1,58 @@
+import { bcs } from "@mysten/sui/bcs";
+import { verifyPersonalMessageSignature } from "@mysten/sui/verify";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+/**
+ * Personal message signed by an account, in the form off-chain services expect
+ */
+export interface SignedMessage {
+  message: string;
+  // Base64 serialized signature (flag || signature || public key)
+  signature: string;
+  address: string;
+}
+
+export interface MessageVerification {
+  valid: boolean;
+  error?: string;
+}
+
+/**
+ * UTF-8 bytes of a message typed by the user
+ * @param message Message text
+ * @returns Bytes that get signed
+ */
+export function encodeMessage(message: string): Uint8Array {
+  return new TextEncoder().encode(message);
+}
+
+/**
+ * Encode a personal message the way the OneKey firmware expects it for signing
+ * @param message Message bytes
+ * @returns Hex string of the BCS vector<u8>, the device prepends the PersonalMessage intent
+ */
+export function toOneKeyMessagePayload(message: Uint8Array): string {
+  return Buffer.from(bcs.vector(bcs.u8()).serialize(message).toBytes()).toString("hex");
+}
+
+/**
+ * Check that a signature over a personal message was made by an address
+ * @param message Message text that was signed
+ * @param signature Base64 serialized signature
+ * @param address Address expected to have signed
+ * @returns Whether the signature is valid, with the reason when it is not
+ */
+export async function verifyMessageSignature(
+  message: string,
+  signature: string,
+  address: string
+): Promise<MessageVerification> {
+  try {
+    await verifyPersonalMessageSignature(encodeMessage(message), signature.trim(), {
+      address: normalizeSuiAddress(address.trim()),
+    });
+    return { valid: true };
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
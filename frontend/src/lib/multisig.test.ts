@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { verifyTransactionSignature } from "@mysten/sui/verify";
+import {
+  addPartialSignature,
+  executeMultisigTransaction,
+  importMultisigTransaction,
+  MultisigConfig,
+  PendingMultisigTransaction,
+  signedWeight,
+  toMultisigPublicKey,
+} from "./multisig";
+import { executeSignedTransaction } from "./transactionExecution";
+import { prepareOfflineTransfer } from "../test/offlineTransfer";
+
+vi.mock("./transactionExecution", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./transactionExecution")>()),
+  executeSignedTransaction: vi.fn(),
+}));
+
+const alice = Ed25519Keypair.deriveKeypair(
+  "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about"
+);
+const bob = Ed25519Keypair.generate();
+const carol = Ed25519Keypair.generate();
+const outsider = Ed25519Keypair.generate();
+
+const CONFIG: MultisigConfig = {
+  threshold: 2,
+  members: [
+    { label: "Alice", publicKey: alice.getPublicKey().toSuiPublicKey(), weight: 1 },
+    { label: "Bob", publicKey: bob.getPublicKey().toSuiPublicKey(), weight: 1 },
+    { label: "Carol", publicKey: carol.getPublicKey().toSuiPublicKey(), weight: 2 },
+  ],
+};
+
+// Transfer from the multisig that builds without a fullnode
+async function pendingTransfer(): Promise<PendingMultisigTransaction> {
+  const address = toMultisigPublicKey(CONFIG).toSuiAddress();
+  return { config: CONFIG, address, prepared: await prepareOfflineTransfer(address), signatures: [] };
+}
+
+describe("toMultisigPublicKey", () => {
+  it("rejects a threshold above the total weight", () => {
+    expect(() => toMultisigPublicKey({ ...CONFIG, threshold: 5 })).toThrow("Threshold must be between 1 and the total weight of 4");
+  });
+
+  it("rejects keys that are not Sui public keys", () => {
+    expect(() => toMultisigPublicKey({ threshold: 1, members: [{ label: "", publicKey: "abc", weight: 1 }] })).toThrow(
+      "is not a base64 Sui public key"
+    );
+  });
+});
+
+describe("multisig signing", () => {
+  beforeEach(() => {
+    vi.mocked(executeSignedTransaction).mockReset();
+  });
+
+  it("collects member signatures by weight", async () => {
+    let pending = await pendingTransfer();
+    const { signature } = await alice.signTransaction(pending.prepared.txBytes);
+
+    pending = await addPartialSignature(pending, signature);
+    // Signing twice replaces the earlier signature instead of counting it again
+    pending = await addPartialSignature(pending, signature);
+
+    expect(pending.signatures).toHaveLength(1);
+    expect(signedWeight(pending)).toBe(1);
+  });
+
+  it("refuses signatures of non-members and of other transactions", async () => {
+    const pending = await pendingTransfer();
+    const { signature: foreign } = await outsider.signTransaction(pending.prepared.txBytes);
+    const { signature: otherBytes } = await alice.signTransaction(new Uint8Array([1, 2, 3]));
+
+    await expect(addPartialSignature(pending, foreign)).rejects.toThrow("is not a member of multisig");
+    await expect(addPartialSignature(pending, otherBytes)).rejects.toThrow("Signature does not match this transaction");
+  });
+
+  it("does not submit below the threshold", async () => {
+    const pending = await pendingTransfer();
+    const { signature } = await bob.signTransaction(pending.prepared.txBytes);
+
+    await expect(executeMultisigTransaction(await addPartialSignature(pending, signature))).rejects.toThrow(
+      "Signatures weigh 1, the multisig needs 2"
+    );
+    expect(executeSignedTransaction).not.toHaveBeenCalled();
+  });
+
+  it("submits a combined signature that verifies for the multisig address", async () => {
+    let pending = await pendingTransfer();
+    for (const member of [alice, bob]) {
+      const { signature } = await member.signTransaction(pending.prepared.txBytes);
+      pending = await addPartialSignature(pending, signature);
+    }
+
+    await executeMultisigTransaction(pending);
+
+    const [txBytes, combined] = vi.mocked(executeSignedTransaction).mock.calls[0];
+    const signer = await verifyTransactionSignature(txBytes, combined, { address: pending.address });
+    expect(signer.toSuiAddress()).toBe(pending.address);
+  });
+});
+
+describe("importMultisigTransaction", () => {
+  it("rejects exports whose signatures are not a list of signatures", async () => {
+    const address = toMultisigPublicKey(CONFIG).toSuiAddress();
+    const exported = { version: 1, config: CONFIG, address, txBytes: "AA==", description: "" };
+
+    for (const signatures of ["abc", { signature: "abc" }, [42], undefined]) {
+      await expect(importMultisigTransaction(JSON.stringify({ ...exported, signatures }))).rejects.toThrow(
+        "Not an exported multisig transaction"
+      );
+    }
+  });
+});
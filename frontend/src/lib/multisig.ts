@@ -0,0 +1,301 @@
+import { Transaction } from "@mysten/sui/transactions";
+import { MultiSigPublicKey } from "@mysten/sui/multisig";
+import { publicKeyFromSuiBytes, verifyTransactionSignature } from "@mysten/sui/verify";
+import { fromBase64, toBase64 } from "@mysten/sui/utils";
+import {
+  assertPreflightPassed,
+  preflightTransaction,
+  preflightTransactionBytes,
+  PreparedTransaction,
+} from "./transactionPreflight";
+import { executeSignedTransaction, TransactionExecutionResult } from "./transactionExecution";
+import { SigningUnavailableError, TransactionBuildError, WalletError } from "./walletErrors";
+import type { OneKeyWallet } from "./walletIntegration";
+
+const MULTISIG_STORAGE_KEY = "onekey.multisig";
+// Limits enforced by the Sui protocol for a MultiSigPublicKey
+export const MAX_MULTISIG_MEMBERS = 10;
+export const MAX_MEMBER_WEIGHT = 255;
+
+export interface MultisigMember {
+  // Base64 Sui public key (flag || public key), as shown by wallets and `sui keytool`
+  publicKey: string;
+  weight: number;
+  label: string;
+}
+
+export interface MultisigConfig {
+  threshold: number;
+  members: MultisigMember[];
+}
+
+// Signature of one member over the transaction bytes
+export interface PartialSignature {
+  publicKey: string;
+  // Base64 serialized Sui signature (flag || signature || public key)
+  signature: string;
+}
+
+/**
+ * A multisig transaction collecting member signatures until the threshold is met
+ */
+export interface PendingMultisigTransaction {
+  config: MultisigConfig;
+  address: string;
+  prepared: PreparedTransaction;
+  signatures: PartialSignature[];
+}
+
+// Form shared between members: everything needed to review, sign and combine, but no keys
+interface ExportedMultisigTransaction {
+  version: 1;
+  config: MultisigConfig;
+  address: string;
+  description: string;
+  txBytes: string;
+  signatures: PartialSignature[];
+}
+
+/**
+ * Build the multisig public key of a configuration, checking the protocol limits
+ * @param config Members with their weights and the threshold
+ * @returns Multisig public key, its Sui address is the treasury address
+ */
+export function toMultisigPublicKey(config: MultisigConfig): MultiSigPublicKey {
+  if (config.members.length === 0) {
+    throw new Error("Add at least one member");
+  }
+  if (config.members.length > MAX_MULTISIG_MEMBERS) {
+    throw new Error(`A multisig has at most ${MAX_MULTISIG_MEMBERS} members`);
+  }
+
+  const publicKeys = config.members.map((member) => {
+    if (!Number.isInteger(member.weight) || member.weight < 1 || member.weight > MAX_MEMBER_WEIGHT) {
+      throw new Error(`Weight of ${member.label || "a member"} must be between 1 and ${MAX_MEMBER_WEIGHT}`);
+    }
+    try {
+      return { publicKey: publicKeyFromSuiBytes(member.publicKey.trim()), weight: member.weight };
+    } catch {
+      throw new Error(`"${member.publicKey}" is not a base64 Sui public key`);
+    }
+  });
+
+  const totalWeight = config.members.reduce((sum, member) => sum + member.weight, 0);
+  if (!Number.isInteger(config.threshold) || config.threshold < 1 || config.threshold > totalWeight) {
+    throw new Error(`Threshold must be between 1 and the total weight of ${totalWeight}`);
+  }
+
+  return MultiSigPublicKey.fromPublicKeys({ threshold: config.threshold, publicKeys });
+}
+
+/**
+ * Multisig configuration saved the last time one was edited
+ * @returns Stored configuration, or null
+ */
+export function loadMultisigConfig(): MultisigConfig | null {
+  try {
+    const stored = localStorage.getItem(MULTISIG_STORAGE_KEY);
+    if (!stored) return null;
+
+    const config = JSON.parse(stored) as MultisigConfig;
+    toMultisigPublicKey(config);
+    return config;
+  } catch (error) {
+    console.error("Ignoring stored multisig configuration:", error);
+  }
+  localStorage.removeItem(MULTISIG_STORAGE_KEY);
+  return null;
+}
+
+/**
+ * Remember a multisig configuration, only public keys are stored
+ * @param config Valid configuration
+ */
+export function saveMultisigConfig(config: MultisigConfig) {
+  toMultisigPublicKey(config);
+  localStorage.setItem(MULTISIG_STORAGE_KEY, JSON.stringify(config));
+}
+
+/**
+ * Build a transaction sent by the multisig address and dry-run it, ready for members to sign
+ * @param config Multisig configuration
+ * @param description Summary shown to every member when reviewing
+ * @param build Builds the transaction for the multisig address
+ * @returns Pending transaction without signatures
+ */
+export async function createMultisigTransaction(
+  config: MultisigConfig,
+  description: string,
+  build: (sender: string) => Transaction | Promise<Transaction>
+): Promise<PendingMultisigTransaction> {
+  const address = toMultisigPublicKey(config).toSuiAddress();
+  const tx = await build(address);
+  tx.setSenderIfNotSet(address);
+
+  const prepared = await preflightTransaction(tx, address, description);
+  return { config, address, prepared, signatures: [] };
+}
+
+/**
+ * Member of the multisig a public key belongs to
+ * @param pending Pending transaction
+ * @param publicKey Base64 Sui public key
+ * @returns Member, or undefined when the key is not part of the multisig
+ */
+export function findMember(pending: PendingMultisigTransaction, publicKey: string): MultisigMember | undefined {
+  return pending.config.members.find((member) => member.publicKey.trim() === publicKey);
+}
+
+/**
+ * Add a member's signature after checking it signs these exact bytes
+ * @param pending Pending transaction
+ * @param signature Base64 serialized signature of a member
+ * @returns Pending transaction with the signature, replacing an earlier one of the same member
+ */
+export async function addPartialSignature(
+  pending: PendingMultisigTransaction,
+  signature: string
+): Promise<PendingMultisigTransaction> {
+  let signer;
+  try {
+    signer = await verifyTransactionSignature(pending.prepared.txBytes, signature);
+  } catch (error) {
+    throw new WalletError(
+      `Signature does not match this transaction: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const publicKey = signer.toSuiPublicKey();
+  if (!findMember(pending, publicKey)) {
+    throw new WalletError(`${publicKey} is not a member of multisig ${pending.address}`);
+  }
+
+  return {
+    ...pending,
+    signatures: [...pending.signatures.filter((s) => s.publicKey !== publicKey), { publicKey, signature }],
+  };
+}
+
+/**
+ * Have a wallet sign the pending transaction as one of the members
+ * @param wallet Connected wallet whose key is a member
+ * @param pending Pending transaction
+ * @returns Pending transaction with the wallet's signature
+ */
+export async function signAsMember(
+  wallet: OneKeyWallet,
+  pending: PendingMultisigTransaction
+): Promise<PendingMultisigTransaction> {
+  if (!wallet.canSign) {
+    throw new SigningUnavailableError("A watched address cannot sign for a multisig");
+  }
+
+  const publicKey = await wallet.getSignerPublicKey();
+  if (!findMember(pending, publicKey)) {
+    throw new WalletError(`The connected account (${publicKey}) is not a member of this multisig`);
+  }
+
+  return addPartialSignature(pending, await wallet.signPreparedTransaction(pending.prepared));
+}
+
+/**
+ * Combined weight of the signatures collected so far
+ * @param pending Pending transaction
+ * @returns Sum of the weights of the members who signed
+ */
+export function signedWeight(pending: PendingMultisigTransaction): number {
+  return pending.signatures.reduce(
+    (sum, signature) => sum + (findMember(pending, signature.publicKey)?.weight ?? 0),
+    0
+  );
+}
+
+/**
+ * Combine the collected signatures and submit the transaction
+ * @param pending Pending transaction whose signatures meet the threshold
+ * @returns Execution result once the transaction is final
+ */
+export async function executeMultisigTransaction(
+  pending: PendingMultisigTransaction
+): Promise<TransactionExecutionResult> {
+  assertPreflightPassed(pending.prepared);
+  const weight = signedWeight(pending);
+  if (weight < pending.config.threshold) {
+    throw new TransactionBuildError(
+      `Signatures weigh ${weight}, the multisig needs ${pending.config.threshold}`
+    );
+  }
+
+  const signature = toMultisigPublicKey(pending.config).combinePartialSignatures(
+    pending.signatures.map((s) => s.signature)
+  );
+  return executeSignedTransaction(pending.prepared.txBytes, signature);
+}
+
+/**
+ * Serialize a pending transaction so the next member can review and sign it
+ * @param pending Pending transaction
+ * @returns Text to send to the other members
+ */
+export function exportMultisigTransaction(pending: PendingMultisigTransaction): string {
+  const exported: ExportedMultisigTransaction = {
+    version: 1,
+    config: pending.config,
+    address: pending.address,
+    description: pending.prepared.description,
+    txBytes: toBase64(pending.prepared.txBytes),
+    signatures: pending.signatures,
+  };
+  return JSON.stringify(exported);
+}
+
+/**
+ * Read a transaction exported by another member, dry-running it again and checking every signature
+ * @param text Exported transaction
+ * @param current Transaction already pending here, signatures for the same bytes are merged into it
+ * @returns Pending transaction with the signatures of both
+ */
+export async function importMultisigTransaction(
+  text: string,
+  current?: PendingMultisigTransaction | null
+): Promise<PendingMultisigTransaction> {
+  let exported: ExportedMultisigTransaction;
+  try {
+    exported = JSON.parse(text);
+  } catch {
+    throw new Error("Not an exported multisig transaction");
+  }
+  if (
+    exported?.version !== 1 ||
+    !exported.config ||
+    typeof exported.txBytes !== "string" ||
+    !Array.isArray(exported.signatures) ||
+    !exported.signatures.every((s) => typeof s?.signature === "string")
+  ) {
+    throw new Error("Not an exported multisig transaction");
+  }
+
+  const address = toMultisigPublicKey(exported.config).toSuiAddress();
+  if (address !== exported.address) {
+    throw new Error("Members and weights do not derive the multisig address of the transaction");
+  }
+
+  const txBytes = fromBase64(exported.txBytes);
+  const sameTransaction = current && toBase64(current.prepared.txBytes) === exported.txBytes;
+  let pending: PendingMultisigTransaction = sameTransaction
+    ? current
+    : {
+        config: exported.config,
+        address,
+        prepared: await preflightTransactionBytes(txBytes, exported.description),
+        signatures: [],
+      };
+  if (pending.prepared.sender !== address) {
+    throw new Error("Transaction is not sent by the multisig address");
+  }
+
+  for (const { signature } of exported.signatures) {
+    pending = await addPartialSignature(pending, signature);
+  }
+  return pending;
+}
@@ -0,0 +1,192 @@
+import { SuiClient, getFullnodeUrl } from "@mysten/sui/client";
+import {
+  mainnetCoins,
+  mainnetPackageIds,
+  mainnetPools,
+  testnetCoins,
+  testnetPackageIds,
+  testnetPools,
+} from "./constants";
+import type { CoinMap, DeepbookPackageIds, PoolMap } from "./constants";
+
+export type NetworkName = "mainnet" | "testnet" | "localnet";
+
+export const NETWORK_NAMES: NetworkName[] = ["mainnet", "testnet", "localnet"];
+
+export const DEFAULT_LOCALNET_RPC_URL = "http://127.0.0.1:9000";
+
+const NETWORK_STORAGE_KEY = "sui.network";
+
+export interface NetworkConfig {
+  name: NetworkName;
+  rpcUrl: string;
+  // DeepBook indexer, null where none is hosted
+  indexerUrl: string | null;
+  // DeepBook v3 deployment, null where DeepBook is not published
+  packageIds: DeepbookPackageIds | null;
+  coins: CoinMap;
+  pools: PoolMap;
+  // Transaction page of the block explorer, without the digest
+  explorerTxUrl: string | null;
+  // Identifies the network in caches and storage keys, includes the RPC URL for localnet
+  cacheKey: string;
+}
+
+interface StoredNetwork {
+  name: NetworkName;
+  localnetRpcUrl?: string;
+}
+
+function buildNetworkConfig(name: NetworkName, localnetRpcUrl: string = DEFAULT_LOCALNET_RPC_URL): NetworkConfig {
+  switch (name) {
+    case "mainnet":
+      return {
+        name,
+        rpcUrl: getFullnodeUrl("mainnet"),
+        indexerUrl: "https://deepbook-indexer.mainnet.mystenlabs.com",
+        packageIds: mainnetPackageIds,
+        coins: mainnetCoins,
+        pools: mainnetPools,
+        explorerTxUrl: "https://suivision.xyz/txblock/",
+        cacheKey: name,
+      };
+    case "testnet":
+      return {
+        name,
+        rpcUrl: getFullnodeUrl("testnet"),
+        indexerUrl: "https://deepbook-indexer.testnet.mystenlabs.com",
+        packageIds: testnetPackageIds,
+        coins: testnetCoins,
+        pools: testnetPools,
+        explorerTxUrl: "https://testnet.suivision.xyz/txblock/",
+        cacheKey: name,
+      };
+    case "localnet":
+      return {
+        name,
+        rpcUrl: localnetRpcUrl,
+        indexerUrl: null,
+        packageIds: null,
+        // Only the native coin exists on a fresh localnet
+        coins: { SUI: mainnetCoins.SUI },
+        pools: {},
+        explorerTxUrl: null,
+        cacheKey: `${name}:${localnetRpcUrl}`,
+      };
+  }
+}
+
+function loadNetwork(): NetworkConfig {
+  try {
+    const stored = localStorage.getItem(NETWORK_STORAGE_KEY);
+    if (stored) {
+      const { name, localnetRpcUrl } = JSON.parse(stored) as StoredNetwork;
+      if (NETWORK_NAMES.includes(name)) {
+        return buildNetworkConfig(name, localnetRpcUrl);
+      }
+    }
+  } catch (error) {
+    console.error("Ignoring stored network selection:", error);
+  }
+  return buildNetworkConfig("mainnet");
+}
+
+let currentNetwork = loadNetwork();
+const listeners = new Set<() => void>();
+const clients = new Map<string, SuiClient>();
+
+/**
+ * Network the app is connected to
+ * @returns Network configuration, the same object until the network changes
+ */
+export function getNetwork(): NetworkConfig {
+  return currentNetwork;
+}
+
+/**
+ * Switch the whole app to another network and remember the choice
+ * @param name Network to use
+ * @param localnetRpcUrl RPC URL of the local node, only used for localnet
+ */
+export function setNetwork(name: NetworkName, localnetRpcUrl?: string) {
+  if (!NETWORK_NAMES.includes(name)) {
+    throw new Error(`Unknown network ${name}`);
+  }
+
+  const rpcUrl = localnetRpcUrl?.trim() || DEFAULT_LOCALNET_RPC_URL;
+  if (name === "localnet") {
+    let url: URL;
+    try {
+      url = new URL(rpcUrl);
+    } catch {
+      throw new Error(`"${rpcUrl}" is not a valid RPC URL`);
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new Error("RPC URL must use http or https");
+    }
+  }
+
+  const stored: StoredNetwork = name === "localnet" ? { name, localnetRpcUrl: rpcUrl } : { name };
+  localStorage.setItem(NETWORK_STORAGE_KEY, JSON.stringify(stored));
+
+  const next = buildNetworkConfig(name, rpcUrl);
+  if (next.cacheKey === currentNetwork.cacheKey) return;
+  currentNetwork = next;
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Get notified when the network changes
+ * @param listener Called after every switch
+ * @returns Function removing the listener
+ */
+export function subscribeNetwork(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Sui RPC client for the current network
+ * @returns Client shared by everything talking to this network
+ */
+export function getSuiClient(): SuiClient {
+  const { rpcUrl } = currentNetwork;
+  let client = clients.get(rpcUrl);
+  if (!client) {
+    client = new SuiClient({ url: rpcUrl });
+    clients.set(rpcUrl, client);
+  }
+  return client;
+}
+
+/**
+ * Check that an RPC URL answers before switching to it
+ * @param rpcUrl Fullnode JSON-RPC URL
+ * @returns Chain identifier reported by the node
+ */
+export async function probeRpcUrl(rpcUrl: string): Promise<string> {
+  return new SuiClient({ url: rpcUrl }).getChainIdentifier();
+}
+
+/**
+ * DeepBook environment of the current network, for SDKs that only know public networks
+ * @returns "mainnet" or "testnet"
+ */
+export function getDeepBookEnv(): "mainnet" | "testnet" {
+  const { name, packageIds } = currentNetwork;
+  if (name === "localnet" || !packageIds) {
+    throw new Error(`DeepBook is not available on ${name}`);
+  }
+  return name;
+}
+
+/**
+ * Link to a transaction on the block explorer of the current network
+ * @param digest Transaction digest
+ * @returns Explorer URL, or null if the network has no explorer
+ */
+export function getExplorerTxUrl(digest: string): string | null {
+  return currentNetwork.explorerTxUrl ? `${currentNetwork.explorerTxUrl}${digest}` : null;
+}
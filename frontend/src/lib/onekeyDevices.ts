@@ -0,0 +1,77 @@
+import { getDeviceFeatures, getDeviceList } from "./onekeySdkUtils";
+
+const LAST_DEVICE_STORAGE_KEY = "onekey.lastDevice";
+
+const MODEL_NAMES: Record<string, string> = {
+  classic: "Classic",
+  classic1s: "Classic 1S",
+  classicpure: "Classic Pure",
+  mini: "Mini",
+  touch: "Touch",
+  pro: "Pro",
+};
+
+export interface OneKeyDevice {
+  connectId: string;
+  deviceId: string;
+  // Name the owner gave the device, falls back to the SDK's device name
+  label: string;
+  model: string;
+  firmwareVersion: string;
+}
+
+/**
+ * List the plugged in OneKey devices with their label, model and firmware
+ * @returns Devices that can be connected, devices whose features cannot be read are listed with what the search returned
+ */
+export async function listDevices(): Promise<OneKeyDevice[]> {
+  const devices = await getDeviceList();
+
+  const listed = await Promise.all(
+    devices.map(async (device: { connectId: string | null; deviceId: string | null; deviceType: string; name: string }) => {
+      if (!device.connectId || !device.deviceId) return null;
+
+      const model = MODEL_NAMES[device.deviceType] ?? device.deviceType;
+      try {
+        const features = await getDeviceFeatures(device.connectId);
+        return {
+          connectId: device.connectId,
+          deviceId: device.deviceId,
+          label: features.label || device.name,
+          model,
+          firmwareVersion: features.onekey_firmware_version || features.onekey_version || "unknown",
+        };
+      } catch {
+        return { connectId: device.connectId, deviceId: device.deviceId, label: device.name, model, firmwareVersion: "unknown" };
+      }
+    })
+  );
+
+  return listed.filter((device: OneKeyDevice | null): device is OneKeyDevice => device !== null);
+}
+
+/**
+ * Device id chosen the last time a wallet was connected
+ * @returns Device id, or null if no device was chosen yet
+ */
+export function getLastDeviceId(): string | null {
+  return localStorage.getItem(LAST_DEVICE_STORAGE_KEY);
+}
+
+/**
+ * Remember the device chosen when connecting
+ * @param deviceId OneKey device id
+ */
+export function setLastDeviceId(deviceId: string) {
+  localStorage.setItem(LAST_DEVICE_STORAGE_KEY, deviceId);
+}
+
+/**
+ * Pick the device to preselect, preferring the one used last time
+ * @param devices Plugged in devices
+ * @returns Preferred device, or the first one
+ */
+export function preferredDevice<T extends Pick<OneKeyDevice, "deviceId">>(devices: T[]): T | undefined {
+  const lastDeviceId = getLastDeviceId();
+  return devices.find((device) => device.deviceId === lastDeviceId) ?? devices[0];
+}
@@ -1,13 +1,31 @@
-import HardwareSDK from '@onekeyfe/hd-web-sdk';
+import { getHardwareTransport } from './hardwareTransport';
+import { oneKeyError } from './walletErrors';
 
 export const DEFAULT_SUI_PATH = "m/44'/784'/0'/0'/0'";
 export const DEFAULT_EVM_PATH = "m/44'/60'/0'/0/0";
 
+// SUI only supports hardened derivation, so every level of the path ends with '
+const SUI_PATH_PATTERN = /^m\/44'\/784'(\/\d+'){3}$/;
+
+// Derivation path of the SUI account at an index, as used by OneKey and other SUI wallets
+export function suiAccountPath(index: number) {
+  return `m/44'/784'/${index}'/0'/0'`;
+}
+
+export function isValidSuiPath(path: string) {
+  return SUI_PATH_PATTERN.test(path.trim());
+}
+
+// Standard wallet unless a passphrase state selects a hidden wallet
+function passphraseParams(passphraseState?: string) {
+  return passphraseState ? { passphraseState } : { useEmptyPassphrase: true };
+}
+
 // Initialize the SDK with configuration
 export function initOneKeySDK() {
   try {
     // Initialize the SDK according to OneKey docs
-    return HardwareSDK.HardwareWebSdk.init({
+    return getHardwareTransport().init({
       debug: true, // Set to false in production
       connectSrc: 'https://jssdk.onekey.so/0.3.38/', // SDK connection source
     });
@@ -21,9 +39,9 @@ export function initOneKeySDK() {
 export async function getDeviceList() {
   try {
     // According to OneKey docs
-    const response = await HardwareSDK.HardwareWebSdk.searchDevices();
+    const response = await getHardwareTransport().searchDevices();
     if (!response.success) {
-      throw new Error(response.payload.error);
+      throw oneKeyError(response.payload);
     }
     return response.payload;
   } catch (error) {
@@ -33,22 +51,38 @@ export async function getDeviceList() {
   }
 }
 
+// Read a device's features (label, model, firmware version)
+export async function getDeviceFeatures(connectId: string) {
+  try {
+    const response = await getHardwareTransport().getFeatures(connectId);
+    if (!response.success) {
+      throw oneKeyError(response.payload);
+    }
+    return response.payload;
+  } catch (error) {
+    console.error('Failed to get device features:', error);
+    throw error;
+  }
+}
+
 // Helpers for common SUI operations
 export async function getSuiAddress(params: {
   connectId: string;
   deviceId: string;
   path?: string;
+  passphraseState?: string;
 }) {
   try {
-    const { connectId, deviceId, path = DEFAULT_SUI_PATH } = params;
+    const { connectId, deviceId, path = DEFAULT_SUI_PATH, passphraseState } = params;
     // According to OneKey docs: https://developer.onekey.so/connect-to-hardware/page-1/api-reference/sui/suigetaddress
-    const response = await HardwareSDK.HardwareWebSdk.suiGetAddress(connectId, deviceId, {
+    const response = await getHardwareTransport().suiGetAddress(connectId, deviceId, {
       path,
       showOnOneKey: true,
+      ...passphraseParams(passphraseState),
     });
     
     if (!response.success) {
-      throw new Error(response.payload.error);
+      throw oneKeyError(response.payload);
     }
     
     return response.payload.address;
@@ -58,22 +92,49 @@ export async function getSuiAddress(params: {
   }
 }
 
+// Derive several SUI addresses in one device call, without asking to confirm each on screen
+export async function getSuiAddresses(params: {
+  connectId: string;
+  deviceId: string;
+  paths: string[];
+  passphraseState?: string;
+}): Promise<{ path: string; address: string }[]> {
+  try {
+    const { connectId, deviceId, paths, passphraseState } = params;
+    const response = await getHardwareTransport().suiGetAddress(connectId, deviceId, {
+      bundle: paths.map((path) => ({ path, showOnOneKey: false })),
+      ...passphraseParams(passphraseState),
+    });
+
+    if (!response.success) {
+      throw oneKeyError(response.payload);
+    }
+
+    return response.payload;
+  } catch (error) {
+    console.error('Failed to get SUI addresses:', error);
+    throw error;
+  }
+}
+
 export async function getEVMAddress(params: {
   connectId: string;
   deviceId: string;
   path?: string;
+  passphraseState?: string;
 }) {
   try {
-    const { connectId, deviceId, path = DEFAULT_EVM_PATH } = params;
+    const { connectId, deviceId, path = DEFAULT_EVM_PATH, passphraseState } = params;
     // According to OneKey docs: https://developer.onekey.so/connect-to-hardware/page-1/api-reference/sui/suigetaddress
-    const response = await HardwareSDK.HardwareWebSdk.evmGetAddress(connectId, deviceId, {
+    const response = await getHardwareTransport().evmGetAddress(connectId, deviceId, {
       path,
       showOnOneKey: true,
       chainId: 1,
+      ...passphraseParams(passphraseState),
     });
     
     if (!response.success) {
-      throw new Error(response.payload.error);
+      throw oneKeyError(response.payload);
     }
     
     return response.payload.address;
@@ -83,23 +144,54 @@ export async function getEVMAddress(params: {
   }
 }
 
-// Sign SUI transaction
-export async function signSuiTransaction(params: {
+// Sign an EIP-191 personal message, the device adds the "\x19Ethereum Signed Message" prefix
+export async function signEvmMessage(params: {
   connectId: string;
   deviceId: string;
   path?: string;
+  messageHex: string;
+  passphraseState?: string;
+}): Promise<{ address: string; signature: string }> {
+  try {
+    const { connectId, deviceId, path = DEFAULT_EVM_PATH, messageHex, passphraseState } = params;
+    // According to OneKey docs: https://developer.onekey.so/connect-to-hardware/page-1/api-reference/evm/evmsignmessage
+    const response = await getHardwareTransport().evmSignMessage(connectId, deviceId, {
+      path,
+      messageHex,
+      chainId: 1,
+      ...passphraseParams(passphraseState),
+    });
+
+    if (!response.success) {
+      throw oneKeyError(response.payload);
+    }
+
+    return response.payload;
+  } catch (error) {
+    console.error('Failed to sign EVM message:', error);
+    throw error;
+  }
+}
+
+// Sign SUI transaction with the key of the selected account
+export async function signSuiTransaction(params: {
+  connectId: string;
+  deviceId: string;
+  path: string;
   rawTx: string;
+  passphraseState?: string;
 }) {
   try {
-    const { connectId, deviceId, path = DEFAULT_SUI_PATH, rawTx } = params;
+    const { connectId, deviceId, path, rawTx, passphraseState } = params;
     // According to OneKey docs: https://developer.onekey.so/connect-to-hardware/page-1/api-reference/sui/suisigntransaction
-    const response = await HardwareSDK.HardwareWebSdk.suiSignTransaction(connectId, deviceId, {
+    const response = await getHardwareTransport().suiSignTransaction(connectId, deviceId, {
       path,
       rawTx,
+      ...passphraseParams(passphraseState),
     });
     
     if (!response.success) {
-      throw new Error(response.payload.error);
+      throw oneKeyError(response.payload);
     }
     
     return response.payload;
@@ -109,6 +201,101 @@ export async function signSuiTransaction(params: {
   }
 }
 
+// Read the Ed25519 public key of a SUI account without asking to confirm it on screen
+export async function getSuiPublicKey(params: {
+  connectId: string;
+  deviceId: string;
+  path: string;
+  passphraseState?: string;
+}) {
+  try {
+    const { connectId, deviceId, path, passphraseState } = params;
+    const response = await getHardwareTransport().suiGetAddress(connectId, deviceId, {
+      path,
+      showOnOneKey: false,
+      ...passphraseParams(passphraseState),
+    });
+
+    if (!response.success) {
+      throw oneKeyError(response.payload);
+    }
+
+    return (response.payload.pub ?? response.payload.publicKey) as string;
+  } catch (error) {
+    console.error('Failed to get SUI public key:', error);
+    throw error;
+  }
+}
+
+// Sign a personal message with the key of the selected account
+export async function signSuiMessage(params: {
+  connectId: string;
+  deviceId: string;
+  path: string;
+  messageHex: string;
+  passphraseState?: string;
+}): Promise<{ signature: string; address: string }> {
+  try {
+    const { connectId, deviceId, path, messageHex, passphraseState } = params;
+    // According to OneKey docs: https://developer.onekey.so/connect-to-hardware/page-1/api-reference/sui/suisignmessage
+    const response = await getHardwareTransport().suiSignMessage(connectId, deviceId, {
+      path,
+      messageHex,
+      ...passphraseParams(passphraseState),
+    });
+
+    if (!response.success) {
+      throw oneKeyError(response.payload);
+    }
+
+    return response.payload;
+  } catch (error) {
+    console.error('Failed to sign SUI message:', error);
+    throw error;
+  }
+}
+
+// Open the hidden wallet of a device, the SDK asks for the passphrase through a UI request
+export async function getPassphraseState(connectId: string) {
+  try {
+    const response = await getHardwareTransport().getPassphraseState(connectId);
+    if (!response.success) {
+      throw oneKeyError(response.payload);
+    }
+    return response.payload as string;
+  } catch (error) {
+    console.error('Failed to get passphrase state:', error);
+    throw error;
+  }
+}
+
+// Subscribe to the SDK's UI requests (PIN, passphrase, button, firmware prompts)
+export function setupUiListener(onUiRequest: (message: { type: string; payload?: unknown }) => void) {
+  try {
+    getHardwareTransport().on('UI_EVENT', onUiRequest);
+    return () => {
+      getHardwareTransport().off('UI_EVENT', onUiRequest);
+    };
+  } catch (error) {
+    console.error('Failed to setup UI listener:', error);
+    return () => {};
+  }
+}
+
+// Answer a UI request such as a PIN or passphrase prompt
+export function sendUiResponse(response: { type: string; payload: unknown }) {
+  getHardwareTransport().uiResponse(response);
+}
+
+// Abort the request a device is currently processing, e.g. after it was unplugged
+export function cancelDeviceRequest(connectId?: string) {
+  try {
+    getHardwareTransport().cancel(connectId);
+  } catch (error) {
+    console.error('Failed to cancel device request:', error);
+  }
+}
+
 // Listen for device connect/disconnect events
 export function setupDeviceListeners(
   onConnect: (deviceInfo: any) => void,
@@ -128,11 +315,11 @@ export function setupDeviceListeners(
     };
     
     // Add event listeners
-    HardwareSDK.HardwareWebSdk.on('device', deviceHandler);
+    getHardwareTransport().on('device', deviceHandler);
     
     return () => {
       // Clean up listeners
-      HardwareSDK.HardwareWebSdk.off('device', deviceHandler);
+      getHardwareTransport().off('device', deviceHandler);
     };
   } catch (error) {
     console.error('Failed to setup device listeners:', error);
@@ -0,0 +1,162 @@
+import { cancelDeviceRequest, sendUiResponse, setupUiListener } from "./onekeySdkUtils";
+
+// UI request and response types of @onekeyfe/hd-core, which the web SDK does not re-export
+const UI_REQUEST = {
+  REQUEST_PIN: "ui-request_pin",
+  INVALID_PIN: "ui-invalid_pin",
+  REQUEST_BUTTON: "ui-button",
+  REQUEST_PASSPHRASE: "ui-request_passphrase",
+  REQUEST_PASSPHRASE_ON_DEVICE: "ui-request_passphrase_on_device",
+  CLOSE_UI_WINDOW: "ui-close_window",
+  FIRMWARE_TIP: "ui-firmware-tip",
+  FIRMWARE_OLD: "ui-device_firmware_old",
+  FIRMWARE_NOT_SUPPORTED: "ui-device_firmware_unsupported",
+  FIRMWARE_NOT_INSTALLED: "ui-device_firmware_not_installed",
+} as const;
+
+const UI_RESPONSE = {
+  RECEIVE_PIN: "ui-receive_pin",
+  RECEIVE_PASSPHRASE: "ui-receive_passphrase",
+} as const;
+
+// PIN value telling the SDK the user types the PIN on the device itself
+const PIN_ON_DEVICE = "@@ONEKEY_INPUT_PIN_IN_DEVICE";
+
+const FIRMWARE_MESSAGES: Record<string, string> = {
+  [UI_REQUEST.FIRMWARE_OLD]: "The device firmware is too old for this request, update it with OneKey app.",
+  [UI_REQUEST.FIRMWARE_NOT_SUPPORTED]: "The device firmware does not support this request.",
+  [UI_REQUEST.FIRMWARE_NOT_INSTALLED]: "No firmware is installed on the device, install it with OneKey app.",
+};
+
+export type DevicePrompt =
+  | { kind: "pin"; device: string; invalid: boolean }
+  | { kind: "passphrase"; device: string }
+  | { kind: "passphraseOnDevice"; device: string }
+  | { kind: "button"; device: string; code?: string }
+  | { kind: "firmware"; device: string; message: string };
+
+interface UiPayload {
+  device?: { label?: string; name?: string };
+  code?: string;
+  data?: { message?: string };
+}
+
+let currentPrompt: DevicePrompt | null = null;
+let lastPinInvalid = false;
+const listeners = new Set<() => void>();
+let stopListening: (() => void) | null = null;
+
+function setPrompt(prompt: DevicePrompt | null) {
+  currentPrompt = prompt;
+  listeners.forEach((listener) => listener());
+}
+
+function deviceName(payload: UiPayload | undefined) {
+  return payload?.device?.label || payload?.device?.name || "OneKey";
+}
+
+function handleUiRequest({ type, payload }: { type: string; payload?: unknown }) {
+  const ui = payload as UiPayload | undefined;
+  switch (type) {
+    case UI_REQUEST.INVALID_PIN:
+      lastPinInvalid = true;
+      break;
+    case UI_REQUEST.REQUEST_PIN:
+      setPrompt({ kind: "pin", device: deviceName(ui), invalid: lastPinInvalid });
+      lastPinInvalid = false;
+      break;
+    case UI_REQUEST.REQUEST_PASSPHRASE:
+      setPrompt({ kind: "passphrase", device: deviceName(ui) });
+      break;
+    case UI_REQUEST.REQUEST_PASSPHRASE_ON_DEVICE:
+      setPrompt({ kind: "passphraseOnDevice", device: deviceName(ui) });
+      break;
+    case UI_REQUEST.REQUEST_BUTTON:
+      setPrompt({ kind: "button", device: deviceName(ui), code: ui?.code });
+      break;
+    case UI_REQUEST.FIRMWARE_TIP:
+      setPrompt({ kind: "firmware", device: deviceName(ui), message: ui?.data?.message ?? "Firmware update in progress" });
+      break;
+    case UI_REQUEST.FIRMWARE_OLD:
+    case UI_REQUEST.FIRMWARE_NOT_SUPPORTED:
+    case UI_REQUEST.FIRMWARE_NOT_INSTALLED:
+      setPrompt({ kind: "firmware", device: deviceName(ui), message: FIRMWARE_MESSAGES[type] });
+      break;
+    case UI_REQUEST.CLOSE_UI_WINDOW:
+      // Firmware notices stay until the user dismisses them
+      if (currentPrompt?.kind !== "firmware") setPrompt(null);
+      break;
+  }
+}
+
+/**
+ * Start turning the SDK's UI requests into prompts, safe to call more than once
+ */
+export function startUiBridge() {
+  if (!stopListening) {
+    stopListening = setupUiListener(handleUiRequest);
+  }
+}
+
+/**
+ * Prompt the device is waiting on
+ * @returns Current prompt, or null when the device needs no input
+ */
+export function getDevicePrompt(): DevicePrompt | null {
+  return currentPrompt;
+}
+
+/**
+ * Get notified when a prompt opens or closes
+ * @param listener Called on every change
+ * @returns Function removing the listener
+ */
+export function subscribeDevicePrompt(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Send the PIN entered on the scrambled matrix
+ * @param pin Positions clicked on the matrix, digits 1 to 9
+ */
+export function submitPin(pin: string) {
+  if (!/^[1-9]{1,50}$/.test(pin)) {
+    throw new Error("Enter the PIN using the matrix");
+  }
+  sendUiResponse({ type: UI_RESPONSE.RECEIVE_PIN, payload: pin });
+  setPrompt(null);
+}
+
+/**
+ * Let the user type the PIN on the device instead of the matrix
+ */
+export function enterPinOnDevice() {
+  sendUiResponse({ type: UI_RESPONSE.RECEIVE_PIN, payload: PIN_ON_DEVICE });
+  setPrompt(null);
+}
+
+/**
+ * Send the passphrase that opens a hidden wallet
+ * @param value Passphrase, ignored when entered on the device
+ * @param onDevice Type the passphrase on the device instead
+ */
+export function submitPassphrase(value: string, onDevice: boolean = false) {
+  sendUiResponse({
+    type: UI_RESPONSE.RECEIVE_PASSPHRASE,
+    payload: { value: onDevice ? "" : value, passphraseOnDevice: onDevice, save: false },
+  });
+  setPrompt(null);
+}
+
+/**
+ * Close the current prompt, cancelling the device request if it was waiting for input
+ */
+export function dismissDevicePrompt() {
+  if (currentPrompt && currentPrompt.kind !== "firmware") {
+    cancelDeviceRequest();
+  }
+  setPrompt(null);
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { bookLiquidity, cumulativeDepth, depthWithin, estimateSlippage, Level2Book, midPrice } from "./orderBookDepth";
+
+const BOOK: Level2Book = {
+  poolName: "SUI_USDC",
+  bids: [
+    { price: 1.99, quantity: 100 },
+    { price: 1.985, quantity: 200 },
+    { price: 1.95, quantity: 500 },
+  ],
+  asks: [
+    { price: 2.01, quantity: 100 },
+    { price: 2.03, quantity: 200 },
+    { price: 2.1, quantity: 500 },
+  ],
+  timestamp: 0,
+};
+
+describe("depth around mid", () => {
+  it("sums the size resting within 1% and 2% of mid", () => {
+    expect(midPrice(BOOK)).toBe(2);
+    expect(depthWithin(BOOK, 1)).toMatchObject({ bidBase: 300, askBase: 100 });
+    expect(depthWithin(BOOK, 2)).toMatchObject({ bidBase: 300, askBase: 300 });
+    expect(depthWithin(BOOK, 2).askQuote).toBeCloseTo(201 + 406);
+
+    const liquidity = bookLiquidity(BOOK);
+    expect(liquidity?.spread).toBeCloseTo(0.01);
+    expect(liquidity?.within2Pct.bidQuote).toBeCloseTo(199 + 397);
+  });
+
+  it("has no liquidity without orders", () => {
+    expect(bookLiquidity({ ...BOOK, bids: [], asks: [] })).toBeNull();
+  });
+});
+
+describe("estimateSlippage", () => {
+  it("walks the asks for a buy of a base amount", () => {
+    const estimate = estimateSlippage(BOOK, "buy", 200, "base")!;
+
+    expect(estimate.filledQuote).toBeCloseTo(201 + 203);
+    expect(estimate.averagePrice).toBeCloseTo(2.02);
+    expect(estimate.worstPrice).toBe(2.03);
+    expect(estimate.slippage).toBeCloseTo(0.01);
+    expect(estimate.complete).toBe(true);
+  });
+
+  it("walks the bids for a sell and converts a quote amount to base", () => {
+    const estimate = estimateSlippage(BOOK, "sell", 199, "quote")!;
+
+    expect(estimate.filledBase).toBeCloseTo(100);
+    expect(estimate.averagePrice).toBeCloseTo(1.99);
+    expect(estimate.complete).toBe(true);
+  });
+
+  it("reports an order larger than the book as incomplete", () => {
+    const estimate = estimateSlippage(BOOK, "buy", 1000, "base")!;
+
+    expect(estimate.filledBase).toBeCloseTo(800);
+    expect(estimate.complete).toBe(false);
+    expect(estimateSlippage(BOOK, "buy", 0, "base")).toBeNull();
+  });
+});
+
+describe("cumulativeDepth", () => {
+  it("accumulates each side from the mid outwards, ordered by price", () => {
+    expect(cumulativeDepth(BOOK)).toEqual([
+      { price: 1.95, bidDepth: 800, askDepth: null },
+      { price: 1.985, bidDepth: 300, askDepth: null },
+      { price: 1.99, bidDepth: 100, askDepth: null },
+      { price: 2.01, bidDepth: null, askDepth: 100 },
+      { price: 2.03, bidDepth: null, askDepth: 300 },
+      { price: 2.1, bidDepth: null, askDepth: 800 },
+    ]);
+  });
+});
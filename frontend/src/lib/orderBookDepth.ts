@@ -0,0 +1,201 @@
+import { getNetwork } from "./network";
+
+// One price level of the book, quantity in base units
+export interface BookLevel {
+  price: number;
+  quantity: number;
+}
+
+export interface Level2Book {
+  poolName: string;
+  // Best bid first
+  bids: BookLevel[];
+  // Best ask first
+  asks: BookLevel[];
+  timestamp: number;
+}
+
+// Resting size on each side close to the mid price
+export interface DepthWithin {
+  percent: number;
+  bidBase: number;
+  askBase: number;
+  // Base sizes valued at their level prices
+  bidQuote: number;
+  askQuote: number;
+}
+
+export interface BookLiquidity {
+  mid: number;
+  // Best ask minus best bid, as a fraction of mid
+  spread: number;
+  within1Pct: DepthWithin;
+  within2Pct: DepthWithin;
+}
+
+export interface SlippageEstimate {
+  // Base and quote the book can fill for the amount
+  filledBase: number;
+  filledQuote: number;
+  averagePrice: number;
+  worstPrice: number;
+  // Distance of the average fill price from mid, as a fraction of mid
+  slippage: number;
+  // False when the book runs out before the whole amount is filled
+  complete: boolean;
+}
+
+export interface DepthPoint {
+  price: number;
+  bidDepth: number | null;
+  askDepth: number | null;
+}
+
+const BOOK_DEPTH = 100;
+
+/**
+ * Fetch the level-2 order book of a pool from the DeepBook indexer
+ * @param poolName Pool name as listed by the indexer, e.g. SUI_USDC
+ * @param depth Price levels per side
+ * @returns Bids and asks aggregated by price, best first
+ */
+export async function fetchOrderBook(poolName: string, depth = BOOK_DEPTH): Promise<Level2Book> {
+  const { indexerUrl } = getNetwork();
+  if (!indexerUrl) {
+    throw new Error("No DeepBook indexer on this network");
+  }
+
+  const response = await fetch(`${indexerUrl}/orderbook/${poolName}?level=2&depth=${depth}`);
+  if (!response.ok) {
+    throw new Error(`Indexer has no order book for ${poolName} (HTTP ${response.status})`);
+  }
+  const book = (await response.json()) as { timestamp?: string | number; bids: string[][]; asks: string[][] };
+  const toLevels = (levels: string[][]) =>
+    levels
+      .map(([price, quantity]) => ({ price: Number(price), quantity: Number(quantity) }))
+      .filter((level) => level.quantity > 0);
+
+  return {
+    poolName,
+    bids: toLevels(book.bids).sort((a, b) => b.price - a.price),
+    asks: toLevels(book.asks).sort((a, b) => a.price - b.price),
+    timestamp: Number(book.timestamp ?? Date.now()),
+  };
+}
+
+/**
+ * Mid price between the best bid and best ask
+ * @param book Level-2 book
+ * @returns Mid price, the best price of the only side with orders, or null for an empty book
+ */
+export function midPrice(book: Level2Book): number | null {
+  const bestBid = book.bids[0]?.price;
+  const bestAsk = book.asks[0]?.price;
+  if (bestBid !== undefined && bestAsk !== undefined) return (bestBid + bestAsk) / 2;
+  return bestBid ?? bestAsk ?? null;
+}
+
+/**
+ * Size resting within a distance of mid on each side
+ * @param book Level-2 book
+ * @param percent Distance from mid in percent
+ * @returns Base and quote size of the bids and asks in range
+ */
+export function depthWithin(book: Level2Book, percent: number): DepthWithin {
+  const mid = midPrice(book) ?? 0;
+  const bids = book.bids.filter((level) => level.price >= mid * (1 - percent / 100));
+  const asks = book.asks.filter((level) => level.price <= mid * (1 + percent / 100));
+  const sum = (levels: BookLevel[], value: (level: BookLevel) => number) =>
+    levels.reduce((total, level) => total + value(level), 0);
+
+  return {
+    percent,
+    bidBase: sum(bids, (level) => level.quantity),
+    askBase: sum(asks, (level) => level.quantity),
+    bidQuote: sum(bids, (level) => level.quantity * level.price),
+    askQuote: sum(asks, (level) => level.quantity * level.price),
+  };
+}
+
+/**
+ * Liquidity of a book around its mid price
+ * @param book Level-2 book
+ * @returns Spread and the size within 1% and 2% of mid, or null for an empty book
+ */
+export function bookLiquidity(book: Level2Book): BookLiquidity | null {
+  const mid = midPrice(book);
+  if (mid === null) return null;
+  const bestBid = book.bids[0]?.price;
+  const bestAsk = book.asks[0]?.price;
+
+  return {
+    mid,
+    spread: bestBid !== undefined && bestAsk !== undefined ? (bestAsk - bestBid) / mid : 1,
+    within1Pct: depthWithin(book, 1),
+    within2Pct: depthWithin(book, 2),
+  };
+}
+
+/**
+ * Walk the book to estimate the fill of a market order
+ * @param book Level-2 book
+ * @param side Buy takes the asks, sell takes the bids
+ * @param amount Amount of the order
+ * @param amountIn Coin the amount is given in
+ * @returns Fill estimate, or null when the book is empty or the amount is not positive
+ */
+export function estimateSlippage(
+  book: Level2Book,
+  side: "buy" | "sell",
+  amount: number,
+  amountIn: "base" | "quote"
+): SlippageEstimate | null {
+  const mid = midPrice(book);
+  const levels = side === "buy" ? book.asks : book.bids;
+  if (mid === null || levels.length === 0 || !(amount > 0)) return null;
+
+  let remaining = amount;
+  let filledBase = 0;
+  let filledQuote = 0;
+  let worstPrice = levels[0].price;
+  for (const level of levels) {
+    if (remaining <= 0) break;
+    const levelSize = amountIn === "base" ? level.quantity : level.quantity * level.price;
+    const take = Math.min(remaining, levelSize);
+    const base = amountIn === "base" ? take : take / level.price;
+    filledBase += base;
+    filledQuote += base * level.price;
+    remaining -= take;
+    worstPrice = level.price;
+  }
+
+  const averagePrice = filledQuote / filledBase;
+  return {
+    filledBase,
+    filledQuote,
+    averagePrice,
+    worstPrice,
+    slippage: Math.abs(averagePrice - mid) / mid,
+    // Allow for floating point dust left after the last level
+    complete: remaining <= amount * 1e-9,
+  };
+}
+
+/**
+ * Cumulative size from the mid outwards, for a depth chart
+ * @param book Level-2 book
+ * @returns Points ordered by price, bids carry bidDepth and asks carry askDepth
+ */
+export function cumulativeDepth(book: Level2Book): DepthPoint[] {
+  let bidTotal = 0;
+  const bids = book.bids.map((level) => {
+    bidTotal += level.quantity;
+    return { price: level.price, bidDepth: bidTotal, askDepth: null };
+  });
+  let askTotal = 0;
+  const asks = book.asks.map((level) => {
+    askTotal += level.quantity;
+    return { price: level.price, bidDepth: null, askDepth: askTotal };
+  });
+  return [...bids.reverse(), ...asks];
+}
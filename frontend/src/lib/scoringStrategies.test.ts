@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  classifyPair,
+  defaultStrategyConfig,
+  explainFactor,
+  factorScore,
+  scoreBreakdown,
+  scorePair,
+  SCORING_STRATEGIES,
+} from "./scoringStrategies";
+import type { TechnicalIndicators } from "./indicators";
+import type { TradingPair } from "./tradingAnalysis";
+
+function pair(overrides: Partial<TradingPair>): TradingPair {
+  return {
+    id: "SUI_USDC",
+    baseCoin: "SUI",
+    baseCoinId: "0x2::sui::SUI",
+    quoteCoin: "USDC",
+    quoteCoinId: "0xusdc::usdc::USDC",
+    pair: "SUI/USDC",
+    price: 3,
+    volume24h: 15_000_000,
+    marketCap: 0,
+    change24h: 0,
+    volatility: 0.05,
+    liquidity: 1,
+    poolId: "0xpool",
+    poolName: "SUI_USDC",
+    ...overrides,
+  };
+}
+
+describe("classifyPair", () => {
+  it("groups pairs by their coins", () => {
+    expect(classifyPair({ baseCoin: "AUSD", quoteCoin: "USDC" })).toBe("stable");
+    expect(classifyPair({ baseCoin: "WBTC", quoteCoin: "USDC" })).toBe("major");
+    expect(classifyPair({ baseCoin: "TYPUS", quoteCoin: "SUI" })).toBe("lowCap");
+  });
+});
+
+describe("scorePair", () => {
+  it("scores a busy, rising pair high with momentum and low with mean reversion", () => {
+    const rally = pair({ change24h: 10 });
+
+    expect(scorePair(rally, defaultStrategyConfig("momentum"))).toBe(10);
+    expect(scorePair(rally, defaultStrategyConfig("meanReversion"))).toBe(6);
+  });
+
+  it("favours buying a stablecoin below its peg and selling it above", () => {
+    const config = defaultStrategyConfig("pegMonitor");
+    const calm = { baseCoin: "AUSD", quoteCoin: "USDC", volatility: 0.001 };
+
+    expect(scorePair(pair({ ...calm, price: 0.995 }), config)).toBe(10);
+    expect(scorePair(pair({ ...calm, price: 1 }), config)).toBe(7);
+    expect(scorePair(pair({ ...calm, price: 1.005 }), config)).toBe(4);
+  });
+
+  it("only counts factors with a weight", () => {
+    const config = { ...defaultStrategyConfig("momentum"), weights: { liquidity: 1, momentum: 0 } };
+
+    expect(scorePair(pair({ liquidity: 0.3, change24h: 10 }), config)).toBe(3);
+    expect(factorScore("momentum", pair({ change24h: -30 }), SCORING_STRATEGIES.momentum.parameters)).toBe(0);
+  });
+
+  it("rejects a configuration without any weight", () => {
+    expect(() => scorePair(pair({}), { ...defaultStrategyConfig("momentum"), weights: {} })).toThrow(
+      "at least one factor"
+    );
+  });
+});
+
+describe("scoreBreakdown", () => {
+  it("reports each factor's input, sub-score, weight and contribution", () => {
+    const breakdown = scoreBreakdown(pair({ volume24h: 7_500_000, change24h: 5 }), defaultStrategyConfig("momentum"));
+
+    expect(breakdown.map((entry) => entry.factor)).toEqual(["volume", "momentum", "volatility", "liquidity"]);
+    expect(breakdown[0]).toEqual({
+      factor: "volume",
+      label: "Volume",
+      rawInput: 7_500_000,
+      subScore: 0.5,
+      weight: 3,
+      contribution: 1.5,
+    });
+    expect(breakdown[1]).toMatchObject({ rawInput: 5, subScore: 0.75, contribution: 2.25 });
+    expect(breakdown.reduce((sum, entry) => sum + entry.contribution, 0)).toBeCloseTo(7.75);
+    expect(explainFactor(breakdown[1])).toBe("Momentum of 5.00% scores 0.75 with weight 3, adding 2.3 points");
+  });
+
+  it("adds the candle factors and realized volatility when indicators are available", () => {
+    const indicators: TechnicalIndicators = {
+      interval: "1h",
+      candleCount: 96,
+      close: 3,
+      sma20: 3.1,
+      ema20: 3.05,
+      rsi14: 25,
+      macd: { macd: -0.01, signal: -0.005, histogram: -0.005 },
+      bollinger: { upper: 3.3, middle: 3.1, lower: 2.9, percentB: 0.25 },
+      atr14: 0.04,
+      realizedVolatility: 0.05,
+    };
+
+    const breakdown = scoreBreakdown(pair({ volatility: 0.2 }), defaultStrategyConfig("meanReversion"), { indicators });
+
+    expect(breakdown.find((entry) => entry.factor === "volatility")).toMatchObject({ rawInput: 0.05, subScore: 1 });
+    expect(breakdown.find((entry) => entry.factor === "rsi")).toMatchObject({ rawInput: 25, subScore: 0.75 });
+    expect(breakdown.find((entry) => entry.factor === "bands")).toMatchObject({ rawInput: 0.25, subScore: 0.75 });
+  });
+
+  it("scores order book depth within 2% of mid when the book is available", () => {
+    const within = (quote: number) => ({ bidBase: 0, askBase: 0, bidQuote: quote, askQuote: quote });
+    const liquidity = { mid: 3, spread: 0.001, within1Pct: { percent: 1, ...within(2_000) }, within2Pct: { percent: 2, ...within(5_000) } };
+
+    const breakdown = scoreBreakdown(pair({ baseCoin: "TYPUS" }), defaultStrategyConfig("liquidityFirst"), { liquidity });
+
+    expect(breakdown.find((entry) => entry.factor === "depth")).toMatchObject({ rawInput: 10_000, subScore: 0.5 });
+    expect(scoreBreakdown(pair({}), defaultStrategyConfig("liquidityFirst")).map((entry) => entry.factor)).not.toContain(
+      "depth"
+    );
+  });
+});
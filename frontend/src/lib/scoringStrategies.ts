@@ -0,0 +1,349 @@
+import type { TechnicalIndicators } from "./indicators";
+import type { BookLiquidity } from "./orderBookDepth";
+import type { TradingPair } from "./tradingAnalysis";
+
+// Stablecoins on mainnet and the DeepBook testnet
+const STABLECOINS = new Set(["USDC", "WUSDC", "USDT", "WUSDT", "AUSD", "USDY", "BUCK", "FDUSD", "DBUSDC", "DBUSDT"]);
+// Assets deep enough that short term momentum carries information
+const MAJOR_COINS = new Set(["SUI", "DEEP", "WAL", "WETH", "BETH", "WBTC"]);
+
+export type PairClass = "stable" | "major" | "lowCap";
+
+export const PAIR_CLASS_LABELS: Record<PairClass, string> = {
+  stable: "Stablecoin pair",
+  major: "Major pair",
+  lowCap: "Low-cap pair",
+};
+
+/**
+ * Group a pair by the kind of market it is, each class has its own default strategy
+ * @param pair Trading pair with its coin symbols
+ * @returns Stable when both coins are stablecoins, major when the base coin is, low-cap otherwise
+ */
+export function classifyPair(pair: Pick<TradingPair, "baseCoin" | "quoteCoin">): PairClass {
+  if (STABLECOINS.has(pair.baseCoin) && STABLECOINS.has(pair.quoteCoin)) return "stable";
+  if (MAJOR_COINS.has(pair.baseCoin)) return "major";
+  return "lowCap";
+}
+
+// Market signals a strategy can weigh, each normalized to 0-1 where 1 favours buying.
+// trend, rsi and bands need candle history and depth the order book, the others work from the 24h summary alone
+export type FactorId =
+  | "volume"
+  | "momentum"
+  | "reversion"
+  | "volatility"
+  | "stability"
+  | "liquidity"
+  | "peg"
+  | "trend"
+  | "rsi"
+  | "bands"
+  | "depth";
+
+export const FACTOR_LABELS: Record<FactorId, string> = {
+  volume: "Volume",
+  momentum: "Momentum",
+  reversion: "Mean reversion",
+  volatility: "Volatility",
+  stability: "Stability",
+  liquidity: "Liquidity",
+  peg: "Peg deviation",
+  trend: "MACD trend",
+  rsi: "RSI",
+  bands: "Bollinger position",
+  depth: "Depth within 2%",
+};
+
+// Scales the factors are normalized against
+export interface StrategyParameters {
+  // 24h quote volume that scores full marks
+  volumeScale: number;
+  // 24h change in percent that moves momentum from neutral to full marks
+  changeScale: number;
+  // Volatility scoring full marks on the volatility factor
+  targetVolatility: number;
+  // Volatility at which the stability factor reaches zero
+  maxVolatility: number;
+  // Price the pair should trade at, for the peg factor
+  pegPrice: number;
+  // Distance from the peg, in quote units, that moves the peg factor from neutral to full marks
+  pegTolerance: number;
+  // MACD histogram, as a percentage of price, that moves the trend factor from neutral to full marks
+  trendScale: number;
+  // Quote value resting within 2% of mid, both sides together, that scores full marks on depth
+  depthScale: number;
+}
+
+// Data beyond the 24h summary, each part is null when it could not be fetched
+export interface MarketContext {
+  indicators?: TechnicalIndicators | null;
+  liquidity?: BookLiquidity | null;
+}
+
+export type StrategyWeights = Partial<Record<FactorId, number>>;
+
+export type StrategyId = "momentum" | "meanReversion" | "pegMonitor" | "liquidityFirst";
+
+export interface ScoringStrategy {
+  id: StrategyId;
+  name: string;
+  description: string;
+  weights: StrategyWeights;
+  parameters: StrategyParameters;
+}
+
+// Strategy and tuning an analysis runs with
+export interface StrategyConfig {
+  strategyId: StrategyId;
+  weights: StrategyWeights;
+  parameters: StrategyParameters;
+}
+
+const DEFAULT_PARAMETERS: StrategyParameters = {
+  volumeScale: 15_000_000,
+  changeScale: 10,
+  targetVolatility: 0.05,
+  maxVolatility: 0.2,
+  pegPrice: 1,
+  pegTolerance: 0.005,
+  trendScale: 0.5,
+  depthScale: 100_000,
+};
+
+export const SCORING_STRATEGIES: Record<StrategyId, ScoringStrategy> = {
+  momentum: {
+    id: "momentum",
+    name: "Momentum",
+    description: "Follows the 24h trend on busy pairs with moderate volatility",
+    weights: { volume: 3, momentum: 3, volatility: 2, liquidity: 2, trend: 2 },
+    parameters: DEFAULT_PARAMETERS,
+  },
+  meanReversion: {
+    id: "meanReversion",
+    name: "Mean reversion",
+    description: "Buys after a 24h drop and sells after a rally, expecting prices to return",
+    weights: { reversion: 4, volatility: 2, liquidity: 2, volume: 2, rsi: 2, bands: 2 },
+    parameters: { ...DEFAULT_PARAMETERS, changeScale: 5 },
+  },
+  pegMonitor: {
+    id: "pegMonitor",
+    name: "Peg monitor",
+    description: "Buys a stablecoin below its peg and sells it above, while the market is calm",
+    weights: { peg: 6, stability: 2, liquidity: 2, depth: 2 },
+    parameters: { ...DEFAULT_PARAMETERS, maxVolatility: 0.02 },
+  },
+  liquidityFirst: {
+    id: "liquidityFirst",
+    name: "Liquidity first",
+    description: "Only favours thin pairs when the book is tight and trading is steady",
+    weights: { liquidity: 4, volume: 3, stability: 2, momentum: 1, depth: 3 },
+    parameters: { ...DEFAULT_PARAMETERS, volumeScale: 500_000, changeScale: 20, depthScale: 20_000 },
+  },
+};
+
+export const DEFAULT_STRATEGY_BY_CLASS: Record<PairClass, StrategyId> = {
+  stable: "pegMonitor",
+  major: "momentum",
+  lowCap: "liquidityFirst",
+};
+
+/**
+ * Weights and parameters of a built-in strategy, as a starting point for tuning
+ * @param strategyId Built-in strategy
+ * @returns Copy of the strategy's defaults
+ */
+export function defaultStrategyConfig(strategyId: StrategyId): StrategyConfig {
+  const strategy = SCORING_STRATEGIES[strategyId];
+  return { strategyId, weights: { ...strategy.weights }, parameters: { ...strategy.parameters } };
+}
+
+function clamp01(value: number) {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+/**
+ * Market figure a factor reads, volatility comes from candles when they are available
+ * @param factor Factor
+ * @param pair Market data of the pair
+ * @param context Candle indicators and order book liquidity, where they could be fetched
+ * @returns 24h quote volume, 24h change in percent, volatility, liquidity, price, MACD histogram
+ * in percent of price, RSI, Bollinger %B or quote depth. Null when the data needed is missing
+ */
+export function factorInput(factor: FactorId, pair: TradingPair, context: MarketContext = {}): number | null {
+  const { indicators, liquidity } = context;
+  switch (factor) {
+    case "volume":
+      return pair.volume24h;
+    case "momentum":
+    case "reversion":
+      return pair.change24h;
+    case "volatility":
+    case "stability":
+      return indicators?.realizedVolatility ?? pair.volatility;
+    case "liquidity":
+      return pair.liquidity;
+    case "peg":
+      return pair.price;
+    case "trend":
+      return indicators?.macd ? (indicators.macd.histogram / indicators.close) * 100 : null;
+    case "rsi":
+      return indicators?.rsi14 ?? null;
+    case "bands":
+      return indicators?.bollinger?.percentB ?? null;
+    case "depth":
+      return liquidity ? liquidity.within2Pct.bidQuote + liquidity.within2Pct.askQuote : null;
+  }
+}
+
+/**
+ * Normalize one market signal of a pair
+ * @param factor Signal to compute
+ * @param pair Market data of the pair
+ * @param parameters Scales to normalize against
+ * @param context Candle indicators and order book liquidity, where they could be fetched
+ * @returns Sub-score between 0 and 1, 1 favours buying. Null when the data needed is missing
+ */
+export function factorScore(
+  factor: FactorId,
+  pair: TradingPair,
+  parameters: StrategyParameters,
+  context: MarketContext = {}
+): number | null {
+  const input = factorInput(factor, pair, context);
+  if (input === null) return null;
+
+  switch (factor) {
+    case "volume":
+      return clamp01(input / parameters.volumeScale);
+    case "momentum":
+      return clamp01(0.5 + input / (2 * parameters.changeScale));
+    case "reversion":
+      return clamp01(0.5 - input / (2 * parameters.changeScale));
+    case "volatility":
+      return clamp01(1 - Math.abs(input - parameters.targetVolatility) / parameters.targetVolatility);
+    case "stability":
+      return clamp01(1 - input / parameters.maxVolatility);
+    case "liquidity":
+      return clamp01(input);
+    case "peg":
+      return clamp01(0.5 + (parameters.pegPrice - input) / (2 * parameters.pegTolerance));
+    case "trend":
+      return clamp01(0.5 + input / (2 * parameters.trendScale));
+    // Oversold (low RSI) and a close near the lower band favour buying
+    case "rsi":
+      return clamp01(1 - input / 100);
+    case "bands":
+      return clamp01(1 - input);
+    case "depth":
+      return clamp01(input / parameters.depthScale);
+  }
+}
+
+// How one factor moved the score
+export interface FactorBreakdown {
+  factor: FactorId;
+  label: string;
+  // Market figure the factor is computed from, in its own unit
+  rawInput: number;
+  // Normalized sub-score between 0 and 1
+  subScore: number;
+  weight: number;
+  // Points out of 10 the factor adds to the score, the contributions sum to the unrounded score
+  contribution: number;
+}
+
+/**
+ * Format the raw input of a factor for display
+ * @param factor Factor
+ * @param rawInput Value returned by factorInput
+ * @returns Value with its unit
+ */
+export function formatFactorInput(factor: FactorId, rawInput: number): string {
+  switch (factor) {
+    case "volume":
+    case "depth":
+      return rawInput.toLocaleString(undefined, { maximumFractionDigits: 0 });
+    case "momentum":
+    case "reversion":
+      return `${rawInput.toFixed(2)}%`;
+    case "volatility":
+    case "stability":
+      return rawInput.toFixed(4);
+    case "liquidity":
+      return rawInput.toFixed(2);
+    case "peg":
+      return rawInput.toPrecision(6);
+    case "trend":
+      return `${rawInput.toFixed(3)}%`;
+    case "rsi":
+      return rawInput.toFixed(1);
+    case "bands":
+      return rawInput.toFixed(2);
+  }
+}
+
+/**
+ * Describe in one sentence how a factor moved the score
+ * @param entry Factor of a breakdown
+ * @returns Explanation such as "Volume of 12,000,000 scores 0.80 with weight 3, adding 2.4 points"
+ */
+export function explainFactor(entry: FactorBreakdown): string {
+  return `${entry.label} of ${formatFactorInput(entry.factor, entry.rawInput)} scores ${entry.subScore.toFixed(2)} with weight ${
+    entry.weight
+  }, adding ${entry.contribution.toFixed(1)} points`;
+}
+
+/**
+ * Break a strategy's score down into the factors it weighs
+ * @param pair Market data of the pair
+ * @param config Strategy, weights and parameters
+ * @param context Candle indicators and order book liquidity, where they could be fetched
+ * @returns One entry per factor with a weight above zero, in the order of the weights.
+ * Factors lacking their data are left out and the remaining weights share the score
+ */
+export function scoreBreakdown(pair: TradingPair, config: StrategyConfig, context: MarketContext = {}): FactorBreakdown[] {
+  const weighted = (Object.entries(config.weights) as [FactorId, number][]).filter(([, weight]) => weight > 0);
+  if (weighted.length === 0) {
+    throw new Error("Give at least one factor a weight above zero");
+  }
+
+  const scored = weighted.flatMap(([factor, weight]) => {
+    const rawInput = factorInput(factor, pair, context);
+    const subScore = factorScore(factor, pair, config.parameters, context);
+    return rawInput === null || subScore === null ? [] : [{ factor, weight, rawInput, subScore }];
+  });
+  if (scored.length === 0) {
+    throw new Error("None of the weighted factors have market data for this pair");
+  }
+
+  const totalWeight = scored.reduce((sum, entry) => sum + entry.weight, 0);
+  return scored.map(({ factor, weight, rawInput, subScore }) => ({
+    factor,
+    label: FACTOR_LABELS[factor],
+    rawInput,
+    subScore,
+    weight,
+    contribution: (weight / totalWeight) * subScore * 10,
+  }));
+}
+
+/**
+ * Score a pair with a strategy: the weighted average of its factors, scaled to 0-10
+ * @param pair Market data of the pair
+ * @param config Strategy, weights and parameters
+ * @param context Candle indicators and order book liquidity, where they could be fetched
+ * @returns Score rounded to a whole number
+ */
+export function scorePair(pair: TradingPair, config: StrategyConfig, context: MarketContext = {}): number {
+  return totalScore(scoreBreakdown(pair, config, context));
+}
+
+/**
+ * Score a breakdown adds up to
+ * @param breakdown Factor contributions
+ * @returns Sum of the contributions rounded to a whole number
+ */
+export function totalScore(breakdown: FactorBreakdown[]): number {
+  return Math.round(breakdown.reduce((sum, entry) => sum + entry.contribution, 0));
+}
@@ -0,0 +1,165 @@
+import { getSuiClient } from "./network";
+import { DEFAULT_SUI_PATH, getSuiAddresses, isValidSuiPath, suiAccountPath } from "./onekeySdkUtils";
+
+// Standard account indexes derived when scanning a device
+export const DISCOVERY_ACCOUNT_COUNT = 5;
+
+export interface SuiAccount {
+  path: string;
+  address: string;
+  label: string;
+  // SUI balance in MIST on the current network
+  balance: bigint;
+  // Entered by the user rather than found by the index scan
+  custom: boolean;
+}
+
+interface StoredAccounts {
+  activePath?: string;
+  labels: Record<string, string>;
+  customPaths: string[];
+}
+
+/**
+ * Key under which a wallet's accounts are stored, hidden wallets of a device are kept apart
+ * @param deviceId OneKey device id
+ * @param passphraseState Hidden wallet, null for the standard wallet
+ * @returns Wallet storage id
+ */
+export function walletStorageId(deviceId: string, passphraseState: string | null = null): string {
+  return passphraseState ? `${deviceId}:${passphraseState}` : deviceId;
+}
+
+function storageKey(walletId: string) {
+  return `onekey.accounts.${walletId}`;
+}
+
+function loadAccounts(walletId: string): StoredAccounts {
+  try {
+    const stored = localStorage.getItem(storageKey(walletId));
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<StoredAccounts>;
+      return { activePath: parsed.activePath, labels: parsed.labels ?? {}, customPaths: parsed.customPaths ?? [] };
+    }
+  } catch (error) {
+    console.error("Ignoring stored accounts:", error);
+  }
+  return { labels: {}, customPaths: [] };
+}
+
+function saveAccounts(walletId: string, accounts: StoredAccounts) {
+  localStorage.setItem(storageKey(walletId), JSON.stringify(accounts));
+}
+
+/**
+ * Label shown for an account the user has not named
+ * @param path Derivation path
+ * @returns "Account N" for standard paths, otherwise the path itself
+ */
+export function defaultAccountLabel(path: string): string {
+  const match = /^m\/44'\/784'\/(\d+)'\/0'\/0'$/.exec(path);
+  return match ? `Account ${Number(match[1]) + 1}` : path;
+}
+
+/**
+ * Derivation path last selected in a wallet
+ * @param walletId Wallet storage id, see walletStorageId
+ * @returns Stored path, or the first account's path
+ */
+export function getActiveAccountPath(walletId: string): string {
+  const { activePath } = loadAccounts(walletId);
+  return activePath && isValidSuiPath(activePath) ? activePath : DEFAULT_SUI_PATH;
+}
+
+/**
+ * Remember the derivation path selected in a wallet
+ * @param walletId Wallet storage id, see walletStorageId
+ * @param path Derivation path
+ */
+export function setActiveAccountPath(walletId: string, path: string) {
+  saveAccounts(walletId, { ...loadAccounts(walletId), activePath: path });
+}
+
+/**
+ * Name an account, an empty label restores the default one
+ * @param walletId Wallet storage id, see walletStorageId
+ * @param path Derivation path of the account
+ * @param label New label
+ */
+export function setAccountLabel(walletId: string, path: string, label: string) {
+  const accounts = loadAccounts(walletId);
+  const labels = { ...accounts.labels };
+  if (label.trim()) {
+    labels[path] = label.trim();
+  } else {
+    delete labels[path];
+  }
+  saveAccounts(walletId, { ...accounts, labels });
+}
+
+/**
+ * Add a derivation path outside the index scan to the account list
+ * @param walletId Wallet storage id, see walletStorageId
+ * @param path Hardened SUI path such as "m/44'/784'/0'/0'/5'"
+ */
+export function addCustomAccountPath(walletId: string, path: string) {
+  const trimmed = path.trim();
+  if (!isValidSuiPath(trimmed)) {
+    throw new Error(`"${path}" is not a SUI derivation path, expected m/44'/784'/a'/b'/c'`);
+  }
+
+  const accounts = loadAccounts(walletId);
+  if (!accounts.customPaths.includes(trimmed)) {
+    saveAccounts(walletId, { ...accounts, customPaths: [...accounts.customPaths, trimmed] });
+  }
+}
+
+/**
+ * Remove a custom derivation path from the account list
+ * @param walletId Wallet storage id, see walletStorageId
+ * @param path Derivation path to remove
+ */
+export function removeCustomAccountPath(walletId: string, path: string) {
+  const accounts = loadAccounts(walletId);
+  saveAccounts(walletId, { ...accounts, customPaths: accounts.customPaths.filter((p) => p !== path) });
+}
+
+/**
+ * Derive the first accounts of a device plus its custom paths, with their SUI balances
+ * @param connectId OneKey connect id
+ * @param deviceId OneKey device id
+ * @param passphraseState Hidden wallet to derive from, null for the standard wallet
+ * @param count Number of standard account indexes to scan
+ * @returns Accounts in index order, custom paths last
+ */
+export async function discoverSuiAccounts(
+  connectId: string,
+  deviceId: string,
+  passphraseState: string | null,
+  count: number = DISCOVERY_ACCOUNT_COUNT
+): Promise<SuiAccount[]> {
+  const { labels, customPaths } = loadAccounts(walletStorageId(deviceId, passphraseState));
+  const standardPaths = Array.from({ length: count }, (_, index) => suiAccountPath(index));
+  const paths = [...standardPaths, ...customPaths.filter((path) => !standardPaths.includes(path))];
+
+  const derived = await getSuiAddresses({
+    connectId,
+    deviceId,
+    paths,
+    passphraseState: passphraseState ?? undefined,
+  });
+  const client = getSuiClient();
+
+  return Promise.all(
+    derived.map(async ({ path, address }) => {
+      const { totalBalance } = await client.getBalance({ owner: address });
+      return {
+        path,
+        address,
+        label: labels[path] ?? defaultAccountLabel(path),
+        balance: BigInt(totalBalance),
+        custom: !standardPaths.includes(path),
+      };
+    })
+  );
+}
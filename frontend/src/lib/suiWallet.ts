@@ -0,0 +1,246 @@
+import { Transaction } from "@mysten/sui/transactions";
+import { OrderBook } from "./deepbookClient";
+import { TransactionData } from "./tradingAnalysis";
+import { ActionPlan } from "./actionSchema";
+import { buildActionPlan } from "./transactionBuilder";
+import { executeSignedTransaction, TransactionExecutionResult } from "./transactionExecution";
+import { assertQuoteFresh, SwapQuote, SwapSettings } from "./swapQuote";
+import { assertSufficientBalance, resolveTradeIntent } from "./tradeIntent";
+import {
+  assertPreflightPassed,
+  preflightTransaction,
+  PreparedTransaction,
+} from "./transactionPreflight";
+import { SignedMessage } from "./messageSigning";
+import type { OneKeyWallet, WalletBackend } from "./walletIntegration";
+
+/**
+ * Trading logic shared by every wallet backend, subclasses only supply the signer
+ */
+export abstract class SuiWallet implements OneKeyWallet {
+  abstract readonly backend: WalletBackend;
+  // False for backends that can build and review transactions but never sign them
+  abstract readonly canSign: boolean;
+  isConnected: boolean = false;
+  address: string | null = null;
+  evm_address: string | null = null;
+  protected orderBook: OrderBook | null = null;
+
+  abstract disconnect(): void;
+
+  /**
+   * Sign transaction bytes with the key of the active account
+   * @param txBytes BCS serialized TransactionData
+   * @returns Base64 serialized Sui signature
+   */
+  protected abstract signTransactionBytes(txBytes: Uint8Array): Promise<string>;
+
+  abstract signPersonalMessage(message: string): Promise<SignedMessage>;
+
+  /**
+   * Public key of the active account, what other members need to add it to a multisig
+   * @returns Base64 Sui public key (flag || public key)
+   */
+  abstract getSignerPublicKey(): Promise<string>;
+
+  /**
+   * Make an address the active account
+   * @param address SUI address that signs and owns the orders
+   */
+  protected setAccount(address: string) {
+    this.address = address;
+    this.orderBook = new OrderBook(address);
+  }
+
+  /**
+   * Fetch aggregator routes for a trade so the user can review them before building it
+   * @param transactionData Trade details from the analysis view
+   * @param settings Slippage, route depth and quote lifetime
+   * @returns Swap quote
+   */
+  async quoteTransaction(
+    transactionData: TransactionData,
+    settings?: SwapSettings
+  ): Promise<SwapQuote> {
+    if (!this.isConnected || !this.address) {
+      throw new Error("Wallet not connected");
+    }
+
+    const isBuy = transactionData.transactionType === "buy";
+    console.log(
+      `Quoting ${isBuy ? "buy" : "sell"} transaction for ${
+        transactionData.pair
+      } using DeepBook`
+    );
+
+    if (!transactionData.poolId) {
+      throw new Error("Pool ID is required for DeepBook transactions");
+    }
+
+    const intent = await resolveTradeIntent(this.address, {
+      side: transactionData.transactionType,
+      baseCoinType: transactionData.baseCoinId,
+      quoteCoinType: transactionData.quoteCoinId,
+      amount: transactionData.amount,
+      amountMode: transactionData.amountMode ?? "exactIn",
+    });
+
+    const quote = await this.orderBook!.quote(
+      intent.from.type,
+      intent.target.type,
+      intent.byAmountIn,
+      intent.amount.toString(),
+      settings
+    );
+    if (!intent.byAmountIn) {
+      await assertSufficientBalance(this.address, intent.from, quote.maxAmountIn);
+    }
+    return quote;
+  }
+
+  /**
+   * Build the swap of a reviewed quote and dry-run it
+   * @param quote Quote returned by quoteTransaction
+   * @param description Summary shown when reviewing the transaction
+   * @returns Prepared transaction that expires with the quote
+   */
+  async prepareQuotedSwap(quote: SwapQuote, description: string): Promise<PreparedTransaction> {
+    if (!this.isConnected || !this.address) {
+      throw new Error("Wallet not connected");
+    }
+
+    const tx = new Transaction();
+    tx.setSender(this.address);
+    await this.orderBook!.executeQuote(tx, quote);
+
+    const prepared = await preflightTransaction(tx, this.address, description);
+    return { ...prepared, expiresAt: quote.expiresAt };
+  }
+
+  /**
+   * Build a DeepBook trade and dry-run it so it can be reviewed before signing
+   * @param transactionData Trade details from the analysis view
+   * @returns Prepared transaction with predicted effects
+   */
+  async prepareTransaction(transactionData: TransactionData): Promise<PreparedTransaction> {
+    const quote = await this.quoteTransaction(transactionData);
+    return this.prepareQuotedSwap(
+      quote,
+      `${transactionData.transactionType === "buy" ? "Buy" : "Sell"} ${
+        transactionData.amount
+      } on ${transactionData.pair}`
+    );
+  }
+
+  /**
+   * Build the AI action plan into one transaction and dry-run it
+   * @param plan Validated actions returned by the AI agent
+   * @returns Prepared transaction with predicted effects
+   */
+  async prepareSuiTransaction(plan: ActionPlan): Promise<PreparedTransaction> {
+    if (!this.isConnected || !this.address) {
+      throw new Error("Wallet not connected");
+    }
+
+    if (plan.length === 0) {
+      throw new Error("Transaction data is empty");
+    }
+
+    const tx = await buildActionPlan(plan, {
+      sender: this.address,
+      orderBook: this.orderBook!,
+    });
+
+    return preflightTransaction(
+      tx,
+      this.address,
+      plan.map((action) => action.action).join(" → ")
+    );
+  }
+
+  /**
+   * Build a transaction for the connected account and dry-run it
+   * @param description Summary shown when reviewing the transaction
+   * @param build Builds the transaction for the sender address
+   * @returns Prepared transaction with predicted effects
+   */
+  async prepareTransactionBlock(
+    description: string,
+    build: (sender: string) => Transaction | Promise<Transaction>
+  ): Promise<PreparedTransaction> {
+    if (!this.isConnected || !this.address) {
+      throw new Error("Wallet not connected");
+    }
+
+    const tx = await build(this.address);
+    tx.setSenderIfNotSet(this.address);
+    return preflightTransaction(tx, this.address, description);
+  }
+
+  /**
+   * Sign a prepared transaction and submit it to the chain
+   * @param prepared Transaction that passed the preflight
+   * @returns Execution result once the transaction is final
+   */
+  async signAndExecutePrepared(
+    prepared: PreparedTransaction
+  ): Promise<TransactionExecutionResult> {
+    if (!this.isConnected || !this.address) {
+      throw new Error("Wallet not connected");
+    }
+    if (prepared.sender !== this.address) {
+      throw new Error("Prepared transaction belongs to a different account");
+    }
+
+    try {
+      const { txBytes } = prepared;
+      console.log(
+        `Transaction serialization successful, length: ${txBytes.byteLength} bytes`
+      );
+
+      const signature = await this.signPreparedTransaction(prepared);
+      // Confirming on a device takes time, the quote may have gone stale meanwhile
+      if (prepared.expiresAt !== undefined) {
+        assertQuoteFresh(prepared.expiresAt);
+      }
+
+      const result = await executeSignedTransaction(txBytes, signature);
+      console.log("Transaction executed:", result.digest, result.status);
+      return result;
+    } catch (error) {
+      console.error(`Error executing transaction with the ${this.backend} wallet:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sign a prepared transaction without submitting it, e.g. as one member of the multisig that sends it
+   * @param prepared Transaction that passed the preflight
+   * @returns Base64 serialized signature of the active account
+   */
+  async signPreparedTransaction(prepared: PreparedTransaction): Promise<string> {
+    if (!this.isConnected || !this.address) {
+      throw new Error("Wallet not connected");
+    }
+    assertPreflightPassed(prepared);
+    if (prepared.expiresAt !== undefined) {
+      assertQuoteFresh(prepared.expiresAt);
+    }
+
+    const signature = await this.signTransactionBytes(prepared.txBytes);
+    console.log(`Transaction signed by the ${this.backend} wallet`);
+    return signature;
+  }
+
+  async signAndExecuteTransaction(
+    transactionData: TransactionData
+  ): Promise<TransactionExecutionResult> {
+    return this.signAndExecutePrepared(await this.prepareTransaction(transactionData));
+  }
+
+  async signAndExecuteSuiTransaction(
+    plan: ActionPlan
+  ): Promise<TransactionExecutionResult> {
+    return this.signAndExecutePrepared(await this.prepareSuiTransaction(plan));
+  }
+}
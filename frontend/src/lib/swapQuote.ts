@@ -0,0 +1,169 @@
+import type { Path, Router, RouterData } from "@cetusprotocol/aggregator-sdk";
+
+export interface SwapSettings {
+  // Maximum accepted price movement between quote and execution, e.g. 0.01 for 1%
+  slippage: number;
+  // Maximum number of hops the aggregator may use per route
+  depth: number;
+  // How long a quote may be signed after it was fetched
+  quoteTtlMs: number;
+}
+
+export const DEFAULT_SWAP_SETTINGS: SwapSettings = {
+  slippage: 0.02,
+  depth: 3,
+  quoteTtlMs: 30_000,
+};
+
+export const MAX_SLIPPAGE = 0.5;
+export const MAX_ROUTE_DEPTH = 5;
+
+export interface RouteHop {
+  provider: string;
+  poolId: string;
+  from: string;
+  target: string;
+  feeRate: number;
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+export interface QuoteRoute {
+  hops: RouteHop[];
+  amountIn: bigint;
+  amountOut: bigint;
+  // Share of the total input sent through this route, 0 to 1
+  split: number;
+}
+
+export interface SwapQuote {
+  from: string;
+  target: string;
+  byAmountIn: boolean;
+  amountIn: bigint;
+  amountOut: bigint;
+  // Lowest output accepted for exact-in swaps, equals amountOut for exact-out swaps
+  minAmountOut: bigint;
+  // Highest input spent for exact-out swaps, equals amountIn for exact-in swaps
+  maxAmountIn: bigint;
+  // Relative loss against the routes' spot prices, 0 to 1
+  priceImpact: number;
+  // Liquidity provider fees charged along the routes, in units of the input coin
+  feeAmount: bigint;
+  routes: QuoteRoute[];
+  settings: SwapSettings;
+  quotedAt: number;
+  expiresAt: number;
+  routerData: RouterData;
+}
+
+function toBigInt(value: { toString(): string } | string | number): bigint {
+  return BigInt(value.toString());
+}
+
+/**
+ * Check swap settings entered by the user
+ * @param settings Settings to check
+ */
+export function validateSwapSettings(settings: SwapSettings) {
+  if (!(settings.slippage > 0) || settings.slippage > MAX_SLIPPAGE) {
+    throw new Error(`Slippage must be between 0 and ${MAX_SLIPPAGE * 100}%`);
+  }
+  if (!Number.isInteger(settings.depth) || settings.depth < 1 || settings.depth > MAX_ROUTE_DEPTH) {
+    throw new Error(`Route depth must be a whole number from 1 to ${MAX_ROUTE_DEPTH}`);
+  }
+  if (!(settings.quoteTtlMs > 0)) {
+    throw new Error("Quote lifetime must be greater than zero");
+  }
+}
+
+function applyBps(amount: bigint, bps: bigint): bigint {
+  return (amount * bps) / 10000n;
+}
+
+function toHop(path: Path): RouteHop {
+  return {
+    provider: path.provider,
+    poolId: path.id,
+    from: path.from,
+    target: path.target,
+    feeRate: Number(path.feeRate),
+    amountIn: toBigInt(path.amountIn),
+    amountOut: toBigInt(path.amountOut),
+  };
+}
+
+function routeImpact(route: Router): number {
+  // initialPrice is the route's spot price in base units of the target per base unit of the input
+  const spotOut = Number(route.amountIn.toString()) * Number(route.initialPrice.toString());
+  if (!(spotOut > 0)) return 0;
+  const impact = 1 - Number(route.amountOut.toString()) / spotOut;
+  return Math.min(1, Math.max(0, impact));
+}
+
+/**
+ * Turn the aggregator's routing result into a quote the user can review
+ * @param routerData Result of findRouters
+ * @param from Coin type sold
+ * @param target Coin type bought
+ * @param settings Slippage, depth and lifetime the quote was requested with
+ * @param quotedAt Time the routes were fetched
+ * @returns Quote with route breakdown and slippage limits
+ */
+export function buildSwapQuote(
+  routerData: RouterData,
+  from: string,
+  target: string,
+  settings: SwapSettings,
+  quotedAt: number = Date.now()
+): SwapQuote {
+  if (!routerData || routerData.insufficientLiquidity || routerData.routes.length === 0) {
+    throw new Error(routerData?.error?.msg ?? "No routes found for the order");
+  }
+
+  const amountIn = toBigInt(routerData.amountIn);
+  const amountOut = toBigInt(routerData.amountOut);
+  const slippageBps = BigInt(Math.round(settings.slippage * 10000));
+
+  let priceImpact = 0;
+  let feeAmount = 0n;
+  const routes = routerData.routes.map((route: Router) => {
+    const routeIn = toBigInt(route.amountIn);
+    const split = amountIn > 0n ? Number(routeIn) / Number(amountIn) : 0;
+    const hops: RouteHop[] = route.path.map(toHop);
+
+    priceImpact += routeImpact(route) * split;
+    // Fees compound along the hops of a route
+    const keptAfterFees = hops.reduce((kept, hop) => kept * (1 - hop.feeRate), 1);
+    feeAmount += BigInt(Math.round(Number(routeIn) * (1 - keptAfterFees)));
+
+    return { hops, amountIn: routeIn, amountOut: toBigInt(route.amountOut), split };
+  });
+
+  return {
+    from,
+    target,
+    byAmountIn: routerData.byAmountIn,
+    amountIn,
+    amountOut,
+    minAmountOut: routerData.byAmountIn ? amountOut - applyBps(amountOut, slippageBps) : amountOut,
+    maxAmountIn: routerData.byAmountIn ? amountIn : amountIn + applyBps(amountIn, slippageBps),
+    priceImpact,
+    feeAmount,
+    routes,
+    settings,
+    quotedAt,
+    expiresAt: quotedAt + settings.quoteTtlMs,
+    routerData,
+  };
+}
+
+/**
+ * Refuse a quote that is older than its lifetime
+ * @param expiresAt Expiry timestamp of the quote
+ */
+export function assertQuoteFresh(expiresAt: number) {
+  if (Date.now() > expiresAt) {
+    throw new Error("Swap quote has expired, request a new quote before signing");
+  }
+}
@@ -0,0 +1,117 @@
+import { getSuiClient } from "./network";
+import { formatUnits, parseUnits, resolveCoinWithMetadata, ResolvedCoin } from "./coins";
+import { isSuiCoinType, SUI_GAS_RESERVE_MIST } from "./coinSelection";
+
+export type TradeSide = "buy" | "sell";
+// exactIn fixes what is spent, exactOut fixes what is received
+export type AmountMode = "exactIn" | "exactOut";
+
+export interface TradeIntentInput {
+  side: TradeSide;
+  baseCoinType: string;
+  quoteCoinType: string;
+  // Human entered decimal amount, see amountCoinSide for its denomination
+  amount: string;
+  amountMode: AmountMode;
+}
+
+export interface TradeIntent {
+  side: TradeSide;
+  amountMode: AmountMode;
+  // Coin sold and coin bought
+  from: ResolvedCoin;
+  target: ResolvedCoin;
+  // Amount in base units of the coin it is denominated in
+  amount: bigint;
+  byAmountIn: boolean;
+}
+
+/**
+ * Which coin of the pair the entered amount is denominated in
+ * @param side Buy or sell the base coin
+ * @param amountMode Exact input or exact output
+ * @returns "quote" or "base"
+ */
+export function amountCoinSide(side: TradeSide, amountMode: AmountMode): "base" | "quote" {
+  // Buying spends quote and receives base, selling the other way round
+  const spends = side === "buy" ? "quote" : "base";
+  const receives = side === "buy" ? "base" : "quote";
+  return amountMode === "exactIn" ? spends : receives;
+}
+
+/**
+ * Coin balance of an account, minus the gas reserve for SUI
+ * @param owner Account address
+ * @param coin Coin to check
+ * @returns Spendable amount in base units
+ */
+export async function getSpendableBalance(owner: string, coin: ResolvedCoin): Promise<bigint> {
+  const { totalBalance } = await getSuiClient().getBalance({ owner, coinType: coin.type });
+  const balance = BigInt(totalBalance);
+  if (!isSuiCoinType(coin.type)) {
+    return balance;
+  }
+  return balance > SUI_GAS_RESERVE_MIST ? balance - SUI_GAS_RESERVE_MIST : 0n;
+}
+
+/**
+ * Reject a spend the account cannot cover
+ * @param owner Account address
+ * @param coin Coin spent
+ * @param amount Amount spent in base units
+ */
+export async function assertSufficientBalance(owner: string, coin: ResolvedCoin, amount: bigint) {
+  const spendable = await getSpendableBalance(owner, coin);
+  if (amount > spendable) {
+    throw new Error(
+      `Insufficient ${coin.symbol} balance: ${formatUnits(amount, coin.scalar)} needed, ${formatUnits(
+        spendable,
+        coin.scalar
+      )} available`
+    );
+  }
+}
+
+/**
+ * Parse a human entered amount for a coin, rejecting empty and zero values
+ * @param amount Decimal string
+ * @param coin Coin the amount is denominated in
+ * @returns Amount in base units
+ */
+export function parseTradeAmount(amount: string, coin: ResolvedCoin): bigint {
+  if (!amount || amount.trim() === "") {
+    throw new Error("Enter an amount");
+  }
+  const units = parseUnits(amount, coin.scalar);
+  if (units <= 0n) {
+    throw new Error("Amount must be greater than zero");
+  }
+  return units;
+}
+
+/**
+ * Resolve what a trade spends and receives and scale its amount, before any routing happens
+ * @param owner Account that trades
+ * @param input Side, pair, amount and amount mode
+ * @returns Trade intent ready for routing
+ */
+export async function resolveTradeIntent(owner: string, input: TradeIntentInput): Promise<TradeIntent> {
+  const [base, quote] = await Promise.all([
+    resolveCoinWithMetadata(input.baseCoinType),
+    resolveCoinWithMetadata(input.quoteCoinType),
+  ]);
+
+  const from = input.side === "buy" ? quote : base;
+  const target = input.side === "buy" ? base : quote;
+  const byAmountIn = input.amountMode === "exactIn";
+  const amount = parseTradeAmount(input.amount, byAmountIn ? from : target);
+
+  if (byAmountIn) {
+    await assertSufficientBalance(owner, from, amount);
+  } else if ((await getSpendableBalance(owner, from)) === 0n) {
+    // The exact input is only known after routing, but an empty balance can be refused right away
+    throw new Error(`No ${from.symbol} balance to pay for the trade`);
+  }
+
+  return { side: input.side, amountMode: input.amountMode, from, target, amount, byAmountIn };
+}
@@ -1,4 +1,23 @@
 import { fetchMarketData, getAllTradingPairs, getMarketData } from './deepbookClient';
+import type { AmountMode } from './tradeIntent';
+import { getNetwork } from './network';
+import { computeIndicators, TechnicalIndicators } from './indicators';
+import { CANDLE_INTERVAL_MS, CandleInterval, getCandles } from './marketHistory';
+import { BookLiquidity, bookLiquidity, fetchOrderBook, Level2Book } from './orderBookDepth';
+import {
+  classifyPair,
+  defaultStrategyConfig,
+  DEFAULT_STRATEGY_BY_CLASS,
+  FactorBreakdown,
+  PairClass,
+  SCORING_STRATEGIES,
+  scoreBreakdown,
+  StrategyConfig,
+  StrategyId,
+  StrategyParameters,
+  StrategyWeights,
+  totalScore,
+} from './scoringStrategies';
 
 export interface TradingPair {
   id: string;
@@ -23,6 +42,7 @@ export interface TransactionData {
   amount: string;
   total: string;
   transactionType: 'buy' | 'sell';
+  amountMode?: AmountMode; // Defaults to exactIn: amount is what gets spent
   poolId: string; // Added poolId for DeepBook integration
   poolName: string; // Added poolName for DeepBook integration
   baseCoinId: string;
@@ -39,12 +59,26 @@ export interface AnalysisResult {
     volatilityAnalysis: string;
     liquidityAnalysis: string;
   };
+  // Factors behind the score, their contributions add up to it
+  breakdown: FactorBreakdown[];
+  // Indicators over the pool's candle history, null when the indexer had none
+  indicators: TechnicalIndicators | null;
+  // Level-2 book at analysis time and the size resting near mid, null when the indexer had none
+  orderBook: Level2Book | null;
+  liquidity: BookLiquidity | null;
+  // Strategy that produced the score, with the weights and parameters it ran with
+  strategy: {
+    id: StrategyId;
+    name: string;
+    pairClass: PairClass;
+    weights: StrategyWeights;
+    parameters: StrategyParameters;
+  };
   transactionData: TransactionData;
 }
 
-// Cache for trading pairs to avoid too many API calls
-let tradingPairsCache: Record<string, TradingPair> = {};
-let lastFetchTime = 0;
+// Cache for trading pairs to avoid too many API calls, one entry per network
+const tradingPairsCache: Record<string, { pairs: Record<string, TradingPair>; fetchedAt: number }> = {};
 const CACHE_DURATION = 60000; // 1 minute cache
 
 /**
@@ -53,10 +87,12 @@ const CACHE_DURATION = 60000; // 1 minute cache
  */
 export async function fetchTradingPairs(): Promise<Record<string, TradingPair>> {
   const now = Date.now();
+  const { cacheKey } = getNetwork();
+  const cached = tradingPairsCache[cacheKey];
   
   // Return cached data if available and not expired
-  if (Object.keys(tradingPairsCache).length > 0 && now - lastFetchTime < CACHE_DURATION) {
-    return tradingPairsCache;
+  if (cached && Object.keys(cached.pairs).length > 0 && now - cached.fetchedAt < CACHE_DURATION) {
+    return cached.pairs;
   }
   
   try {
@@ -93,8 +129,7 @@ export async function fetchTradingPairs(): Promise<Record<string, TradingPair>>
     
     // Only update cache if we got at least one pair
     if (Object.keys(updatedPairs).length > 0) {
-      tradingPairsCache = updatedPairs;
-      lastFetchTime = now;
+      tradingPairsCache[cacheKey] = { pairs: updatedPairs, fetchedAt: now };
     }
     
     return updatedPairs;
@@ -104,27 +139,61 @@ export async function fetchTradingPairs(): Promise<Record<string, TradingPair>>
   }
 }
 
+// Four days of hourly candles: enough for MACD to settle and for a daily volatility estimate
+const ANALYSIS_INTERVAL: CandleInterval = '1h';
+const ANALYSIS_CANDLES = 96;
+
+// Indicators of a pool, the analysis falls back to the 24h summary when history cannot be fetched
+async function loadIndicators(poolName: string): Promise<TechnicalIndicators | null> {
+  try {
+    const { candles, coveredFrom } = await getCandles(poolName, ANALYSIS_INTERVAL, ANALYSIS_CANDLES);
+    // A history paged only part of the way back, e.g. from a busy pool's trades, would skew every indicator
+    if (coveredFrom > Date.now() - CANDLE_INTERVAL_MS[ANALYSIS_INTERVAL] * ANALYSIS_CANDLES) {
+      return null;
+    }
+    return computeIndicators(
+      candles,
+      ANALYSIS_INTERVAL,
+      CANDLE_INTERVAL_MS['1d'] / CANDLE_INTERVAL_MS[ANALYSIS_INTERVAL]
+    );
+  } catch (error) {
+    console.error(`Error fetching candles for ${poolName}:`, error);
+    return null;
+  }
+}
+
+// Order book of a pool, the analysis falls back to the summary spread when it cannot be fetched
+async function loadOrderBook(poolName: string): Promise<Level2Book | null> {
+  try {
+    return await fetchOrderBook(poolName);
+  } catch (error) {
+    console.error(`Error fetching order book for ${poolName}:`, error);
+    return null;
+  }
+}
+
 /**
  * Analyze a trading pair using AI algorithms
  * @param pair Trading pair to analyze
+ * @param config Scoring strategy and its tuning, defaults to the strategy of the pair's class
  * @returns Analysis result with score, recommendation, and transaction data
  */
-export async function analyzeTradingPair(pair: string): Promise<AnalysisResult> {
+export async function analyzeTradingPair(pair: string, config?: StrategyConfig): Promise<AnalysisResult> {
   const tradingPairs = await fetchTradingPairs();
   if (!tradingPairs[pair]) {
     throw new Error(`Trading pair ${pair} not found`);
   }
 
   const pairData = tradingPairs[pair];
-  
-  // Calculate score based on various metrics
-  const volumeScore = (pairData.volume24h / 15000000) * 3; // Scale 0-3
-  const changeScore = (pairData.change24h / 10) * 3; // Scale 0-3
-  const volatilityScore = (1 - Math.abs(pairData.volatility - 0.05) / 0.05) * 2; // Scale 0-2, optimal at 0.05
-  const liquidityScore = pairData.liquidity * 2; // Scale 0-2
-  
-  const rawScore = volumeScore + changeScore + volatilityScore + liquidityScore;
-  const score = Math.min(Math.max(Math.round(rawScore), 0), 10);
+  const pairClass = classifyPair(pairData);
+  const strategyConfig = config ?? defaultStrategyConfig(DEFAULT_STRATEGY_BY_CLASS[pairClass]);
+  const [indicators, orderBook] = await Promise.all([
+    loadIndicators(pairData.poolName),
+    loadOrderBook(pairData.poolName)
+  ]);
+  const liquidity = orderBook ? bookLiquidity(orderBook) : null;
+  const breakdown = scoreBreakdown(pairData, strategyConfig, { indicators, liquidity });
+  const score = totalScore(breakdown);
   
   // Determine recommendation based on score
   let recommendation = "";
@@ -141,15 +210,20 @@ export async function analyzeTradingPair(pair: string): Promise<AnalysisResult>
   }
   
   // Generate analysis text
+  const volatility = indicators?.realizedVolatility ?? pairData.volatility;
   const analysis = {
-    priceAnalysis: `Current price is ${pairData.price} with ${pairData.change24h}% change in 24h`,
+    priceAnalysis: `Current price is ${pairData.price} with ${pairData.change24h}% change in 24h${
+      indicators ? describeTrend(indicators) : ''
+    }`,
     volumeAnalysis: `24h volume is ${pairData.volume24h.toLocaleString()} which is ${
       pairData.volume24h > 10000000 ? "high" : pairData.volume24h > 5000000 ? "moderate" : "low"
     }`,
-    volatilityAnalysis: `Volatility is ${pairData.volatility} which is ${
-      pairData.volatility > 0.1 ? "high" : pairData.volatility > 0.05 ? "moderate" : "low"
-    }`,
-    liquidityAnalysis: `Liquidity is ${pairData.liquidity} which is ${
+    volatilityAnalysis: `${indicators?.realizedVolatility != null ? 'Realized daily volatility' : 'Volatility'} is ${
+      volatility.toFixed(4)
+    } which is ${
+      volatility > 0.1 ? "high" : volatility > 0.05 ? "moderate" : "low"
+    }${indicators?.atr14 != null ? `, ${indicators.interval} ATR is ${indicators.atr14.toPrecision(4)}` : ''}`,
+    liquidityAnalysis: liquidity ? describeDepth(liquidity, pairData.quoteCoin) : `Liquidity is ${pairData.liquidity} which is ${
       pairData.liquidity > 0.7 ? "high" : pairData.liquidity > 0.4 ? "moderate" : "low"
     }`
   };
@@ -172,10 +246,44 @@ export async function analyzeTradingPair(pair: string): Promise<AnalysisResult>
     score,
     recommendation,
     analysis,
+    breakdown,
+    indicators,
+    orderBook,
+    liquidity,
+    strategy: {
+      id: strategyConfig.strategyId,
+      name: SCORING_STRATEGIES[strategyConfig.strategyId].name,
+      pairClass,
+      weights: strategyConfig.weights,
+      parameters: strategyConfig.parameters
+    },
     transactionData
   };
 }
 
+// Moving averages, RSI and MACD as a clause appended to the price analysis
+function describeTrend(indicators: TechnicalIndicators): string {
+  const parts: string[] = [];
+  if (indicators.sma20 !== null) {
+    parts.push(`${indicators.close >= indicators.sma20 ? 'above' : 'below'} its ${indicators.interval} SMA20 of ${indicators.sma20.toPrecision(4)}`);
+  }
+  if (indicators.rsi14 !== null) {
+    const zone = indicators.rsi14 >= 70 ? ' (overbought)' : indicators.rsi14 <= 30 ? ' (oversold)' : '';
+    parts.push(`RSI ${indicators.rsi14.toFixed(1)}${zone}`);
+  }
+  if (indicators.macd !== null) {
+    parts.push(`MACD ${indicators.macd.histogram >= 0 ? 'above' : 'below'} its signal line`);
+  }
+  return parts.length > 0 ? `, ${parts.join(', ')}` : '';
+}
+
+// Spread and the quote value resting within 1% and 2% of mid
+function describeDepth(liquidity: BookLiquidity, quoteCoin: string): string {
+  const format = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+  const { within1Pct, within2Pct } = liquidity;
+  return `Spread is ${(liquidity.spread * 100).toFixed(3)}%, with ${format(within1Pct.bidQuote)} / ${format(within1Pct.askQuote)} ${quoteCoin} bid / ask within 1% of mid and ${format(within2Pct.bidQuote)} / ${format(within2Pct.askQuote)} within 2%`;
+}
+
 /**
  * Get all available trading pairs
  * @returns Array of trading pair names
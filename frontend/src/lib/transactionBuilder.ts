@@ -0,0 +1,186 @@
+import { Transaction } from "@mysten/sui/transactions";
+import { SUI_SYSTEM_STATE_OBJECT_ID } from "@mysten/sui/utils";
+import { OrderBook } from "./deepbookClient";
+import {
+  addLimitOrder,
+  BALANCE_MANAGER_KEY,
+  getManagedDeepBook,
+  resolvePoolKey,
+} from "./deepbookOrders";
+import { getVerifiedDefaultBalanceManager } from "./balanceManager";
+import { parseUnits, resolveCoin, resolveCoinWithMetadata } from "./coins";
+import { addCoinTransfer, getAllCoins } from "./coinSelection";
+import { assertSufficientBalance, parseTradeAmount } from "./tradeIntent";
+import {
+  Action,
+  ActionPlan,
+  ActionPlanError,
+  ActionPlanIssue,
+  DeepbookCancelAction,
+  DeepbookLimitOrderAction,
+  MergeCoinsAction,
+  StakeAction,
+  SwapAction,
+  TransferAction,
+} from "./actionSchema";
+
+// Minimum amount the Sui system accepts for a new stake (1 SUI)
+const MIN_STAKE_MIST = 1_000_000_000n;
+// Upper bound on coin objects merged in one command
+const MAX_MERGE_COINS = 255;
+
+export interface ActionBuildContext {
+  sender: string;
+  orderBook: OrderBook;
+}
+
+async function addTransfer(tx: Transaction, action: TransferAction, context: ActionBuildContext) {
+  const coin = await resolveCoinWithMetadata(action.coin);
+  await addCoinTransfer(tx, {
+    owner: context.sender,
+    coin,
+    amount: action.amount === "max" ? "max" : parseUnits(action.amount, coin.scalar),
+    recipient: action.recipient,
+  });
+}
+
+async function addSwap(tx: Transaction, action: SwapAction, context: ActionBuildContext) {
+  const [from, to] = await Promise.all([
+    resolveCoinWithMetadata(action.from),
+    resolveCoinWithMetadata(action.to),
+  ]);
+  if (from.type === to.type) {
+    throw new Error("Cannot swap a coin into itself");
+  }
+
+  const amount = parseTradeAmount(action.amount, from);
+  await assertSufficientBalance(context.sender, from, amount);
+  await context.orderBook.placeOrder(
+    tx,
+    from.type,
+    to.type,
+    true,
+    amount.toString(),
+    action.slippage
+  );
+}
+
+async function addDeepBookLimitOrder(
+  tx: Transaction,
+  action: DeepbookLimitOrderAction,
+  context: ActionBuildContext
+) {
+  const balanceManager =
+    action.balanceManager ?? (await getVerifiedDefaultBalanceManager(context.sender));
+  if (!balanceManager) {
+    throw new Error("A balanceManager id is required for DeepBook orders");
+  }
+
+  await addLimitOrder(tx, context.sender, {
+    poolKey: resolvePoolKey(action.pool),
+    balanceManager,
+    isBid: action.side === "buy",
+    price: action.price,
+    quantity: action.quantity,
+    orderType: action.orderType,
+    expiration: action.expiration,
+  });
+}
+
+async function addCancel(tx: Transaction, action: DeepbookCancelAction, context: ActionBuildContext) {
+  const poolKey = resolvePoolKey(action.pool);
+  const deepBook = getManagedDeepBook(
+    context.sender,
+    action.balanceManager ?? (await getVerifiedDefaultBalanceManager(context.sender)) ?? undefined
+  );
+  tx.add(deepBook.deepBook.cancelOrder(poolKey, BALANCE_MANAGER_KEY, action.orderId));
+}
+
+async function addMergeCoins(tx: Transaction, action: MergeCoinsAction, context: ActionBuildContext) {
+  const coin = resolveCoin(action.coin);
+  const coins = (await getAllCoins(context.sender, coin.type)).slice(0, MAX_MERGE_COINS);
+  if (coins.length < 2) {
+    throw new Error(`Nothing to merge, account holds ${coins.length} ${coin.symbol} coin object(s)`);
+  }
+
+  if (coin.symbol === "SUI") {
+    // Gas payment coins are smashed into one, which merges them without a separate command
+    tx.setGasPayment(
+      coins.map((c) => ({ objectId: c.coinObjectId, version: c.version, digest: c.digest }))
+    );
+    return;
+  }
+
+  const [primary, ...rest] = coins;
+  tx.mergeCoins(
+    tx.object(primary.coinObjectId),
+    rest.map((c) => tx.object(c.coinObjectId))
+  );
+}
+
+function addStake(tx: Transaction, action: StakeAction) {
+  const amount = parseUnits(action.amount, resolveCoin("SUI").scalar);
+  if (amount < MIN_STAKE_MIST) {
+    throw new Error("Stake amount must be at least 1 SUI");
+  }
+
+  const [stakeCoin] = tx.splitCoins(tx.gas, [amount]);
+  tx.moveCall({
+    target: "0x3::sui_system::request_add_stake",
+    arguments: [
+      tx.object(SUI_SYSTEM_STATE_OBJECT_ID),
+      stakeCoin,
+      tx.pure.address(action.validator),
+    ],
+  });
+}
+
+async function addAction(tx: Transaction, action: Action, context: ActionBuildContext) {
+  switch (action.action) {
+    case "transfer":
+      return addTransfer(tx, action, context);
+    case "swap":
+      return addSwap(tx, action, context);
+    case "deepbook_limit_order":
+      return addDeepBookLimitOrder(tx, action, context);
+    case "deepbook_cancel":
+      return addCancel(tx, action, context);
+    case "merge_coins":
+      return addMergeCoins(tx, action, context);
+    case "stake":
+      return addStake(tx, action);
+  }
+}
+
+/**
+ * Turn a validated action plan into a single programmable transaction block
+ * @param plan Plan returned by parseActionPlan
+ * @param context Sender and trading clients used by the steps
+ * @returns Transaction containing every step, in order
+ * @throws ActionPlanError listing every step that could not be built
+ */
+export async function buildActionPlan(
+  plan: ActionPlan,
+  context: ActionBuildContext
+): Promise<Transaction> {
+  const tx = new Transaction();
+  tx.setSender(context.sender);
+
+  const issues: ActionPlanIssue[] = [];
+  for (const [index, action] of plan.entries()) {
+    try {
+      await addAction(tx, action, context);
+    } catch (error) {
+      issues.push({
+        step: index + 1,
+        action: action.action,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ActionPlanError(issues);
+  }
+  return tx;
+}
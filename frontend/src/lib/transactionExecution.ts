@@ -0,0 +1,158 @@
+import type {
+  BalanceChange,
+  SuiObjectChange,
+  SuiTransactionBlockResponse,
+  SuiTransactionBlockResponseOptions,
+} from "@mysten/sui/client";
+import { messageWithIntent, toSerializedSignature } from "@mysten/sui/cryptography";
+import { Ed25519PublicKey } from "@mysten/sui/keypairs/ed25519";
+import { fromHex, MIST_PER_SUI } from "@mysten/sui/utils";
+import { getSuiClient } from "./network";
+import { ChainExecutionError } from "./walletErrors";
+
+/**
+ * Signature payload returned by `suiSignTransaction` on the OneKey device
+ */
+export interface OneKeySignedTransaction {
+  signature: string;
+  public_key: string;
+}
+
+export interface GasUsage {
+  computationCost: bigint;
+  storageCost: bigint;
+  storageRebate: bigint;
+  nonRefundableStorageFee: bigint;
+  total: bigint;
+}
+
+export interface TransactionExecutionResult {
+  digest: string;
+  status: "success" | "failure";
+  error?: string;
+  gasUsed: GasUsage;
+  balanceChanges: BalanceChange[];
+  objectChanges: SuiObjectChange[];
+  checkpoint: string | null;
+  timestamp: string;
+}
+
+const EXECUTION_OPTIONS: SuiTransactionBlockResponseOptions = {
+  showEffects: true,
+  showBalanceChanges: true,
+  showObjectChanges: true,
+};
+
+/**
+ * Encode transaction bytes the way the OneKey firmware expects them for signing
+ * @param txBytes BCS serialized TransactionData
+ * @returns Hex string of the intent message
+ */
+export function toOneKeySigningPayload(txBytes: Uint8Array): string {
+  return Buffer.from(messageWithIntent("TransactionData", txBytes)).toString("hex");
+}
+
+/**
+ * Combine the raw Ed25519 signature and public key from the device into a Sui serialized signature
+ * @param signedTx Signature payload from the OneKey device
+ * @returns Base64 serialized signature (flag || signature || public key)
+ */
+export function toSuiSignature(signedTx: OneKeySignedTransaction): string {
+  if (!signedTx.signature || !signedTx.public_key) {
+    throw new Error("OneKey device returned an incomplete signature");
+  }
+
+  return toSerializedSignature({
+    signatureScheme: "ED25519",
+    signature: fromHex(signedTx.signature),
+    publicKey: new Ed25519PublicKey(fromHex(signedTx.public_key)),
+  });
+}
+
+/**
+ * Sum up the gas cost reported in transaction effects
+ * @param response Transaction response with effects
+ * @returns Gas usage breakdown in MIST
+ */
+export function getGasUsage(response: SuiTransactionBlockResponse): GasUsage {
+  const gas = response.effects?.gasUsed;
+  const computationCost = BigInt(gas?.computationCost ?? 0);
+  const storageCost = BigInt(gas?.storageCost ?? 0);
+  const storageRebate = BigInt(gas?.storageRebate ?? 0);
+  const nonRefundableStorageFee = BigInt(gas?.nonRefundableStorageFee ?? 0);
+
+  return {
+    computationCost,
+    storageCost,
+    storageRebate,
+    nonRefundableStorageFee,
+    total: computationCost + storageCost - storageRebate,
+  };
+}
+
+/**
+ * Format a MIST amount as SUI
+ * @param mist Amount in MIST
+ * @returns Human readable SUI amount
+ */
+export function formatMist(mist: bigint): string {
+  const sign = mist < 0n ? "-" : "";
+  const abs = mist < 0n ? -mist : mist;
+  const whole = abs / BigInt(MIST_PER_SUI);
+  const fraction = (abs % BigInt(MIST_PER_SUI)).toString().padStart(9, "0").replace(/0+$/, "");
+  return `${sign}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/**
+ * Submit a signed transaction to the network and wait until it is final
+ * @param txBytes BCS serialized TransactionData that was signed
+ * @param signature Serialized Sui signature
+ * @returns Typed execution result read from the finalized effects
+ */
+export async function executeSignedTransaction(
+  txBytes: Uint8Array,
+  signature: string
+): Promise<TransactionExecutionResult> {
+  let submitted;
+  try {
+    submitted = await getSuiClient().executeTransactionBlock({
+      transactionBlock: txBytes,
+      signature,
+      options: EXECUTION_OPTIONS,
+    });
+  } catch (error) {
+    throw new ChainExecutionError(
+      `The network rejected the transaction: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  console.log("Transaction submitted:", submitted.digest);
+
+  // Effects returned by execute are local to the validator quorum; wait for the checkpoint
+  let finalized;
+  try {
+    finalized = await getSuiClient().waitForTransaction({
+      digest: submitted.digest,
+      options: EXECUTION_OPTIONS,
+    });
+  } catch (error) {
+    throw new ChainExecutionError(
+      `Transaction ${submitted.digest} was submitted but did not finalize: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  const effectsStatus = finalized.effects?.status;
+  return {
+    digest: finalized.digest,
+    status: effectsStatus?.status === "success" ? "success" : "failure",
+    error: effectsStatus?.error,
+    gasUsed: getGasUsage(finalized),
+    balanceChanges: finalized.balanceChanges ?? [],
+    objectChanges: finalized.objectChanges ?? [],
+    checkpoint: finalized.checkpoint ?? null,
+    timestamp: finalized.timestampMs
+      ? new Date(Number(finalized.timestampMs)).toISOString()
+      : new Date().toISOString(),
+  };
+}
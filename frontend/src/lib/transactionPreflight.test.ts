@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { bcs } from "@mysten/sui/bcs";
+import { Transaction } from "@mysten/sui/transactions";
+import { getSuiClient } from "./network";
+import { preflightTransaction } from "./transactionPreflight";
+import { transferFromGas } from "../test/offlineTransfer";
+
+vi.mock("./network", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./network")>()),
+  getSuiClient: vi.fn(),
+}));
+
+const SENDER = "0x" + "a".repeat(64);
+const RECIPIENT = "0x" + "b".repeat(64);
+const BALANCE = 2_000_000_000n;
+const GAS_USED = { computationCost: "1000000", storageCost: "2000000", storageRebate: "1000000", nonRefundableStorageFee: "0" };
+
+// Value of the mock gas coin a fullnode pays with when a dry run has no gas payment
+const MOCK_GAS_COIN = 1_000_000_000n * 1_000_000_000n;
+
+// SUI split from the gas coin by the transaction's SplitCoins commands
+function splitFromGas(transactionBlock: Uint8Array) {
+  const { commands, inputs } = Transaction.from(transactionBlock).getData();
+  return commands.reduce((total, command) => {
+    if (command.SplitCoins?.coin.$kind !== "GasCoin") return total;
+    return command.SplitCoins.amounts.reduce((sum, amount) => {
+      const input = amount.$kind === "Input" ? inputs[amount.Input].Pure : undefined;
+      return sum + (input ? BigInt(bcs.u64().fromBase64(input.bytes)) : 0n);
+    }, total);
+  }, 0n);
+}
+
+// Fullnode dry run: the budget is taken from the gas coin before the commands run, so a split from
+// tx.gas aborts when it is larger than what is left
+function fakeClient() {
+  return {
+    getReferenceGasPrice: vi.fn(async () => 1000n),
+    getBalance: vi.fn(async () => ({ totalBalance: String(BALANCE) })),
+    dryRunTransactionBlock: vi.fn(async ({ transactionBlock }: { transactionBlock: Uint8Array }) => {
+      const { gasData } = Transaction.from(transactionBlock).getData();
+      const gasCoin = gasData.payment?.length === 0 ? MOCK_GAS_COIN : BALANCE;
+      const covered = BigInt(gasData.budget!) + splitFromGas(transactionBlock) <= gasCoin;
+      return {
+        effects: {
+          status: covered ? { status: "success" } : { status: "failure", error: "InsufficientCoinBalance in command 0" },
+          gasUsed: GAS_USED,
+        },
+        balanceChanges: [],
+        objectChanges: [],
+      };
+    }),
+  };
+}
+
+describe("preflightTransaction", () => {
+  let client: ReturnType<typeof fakeClient>;
+
+  beforeEach(() => {
+    client = fakeClient();
+    vi.mocked(getSuiClient).mockReturnValue(client as unknown as ReturnType<typeof getSuiClient>);
+  });
+
+  it("estimates a SUI transfer whose amount plus the largest budget exceeds the balance", async () => {
+    const prepared = await preflightTransaction(transferFromGas(1_500_000_000n, RECIPIENT), SENDER, "Send 1.5 SUI");
+
+    expect(prepared.preflight.status).toBe("success");
+    // 1000000 computation + 1000 * 1000 overhead + 1000000 net storage, with a 20% margin
+    expect(prepared.preflight.gasBudget).toBe(3_600_000n);
+
+    const { sender, gasData } = Transaction.from(prepared.txBytes).getData();
+    expect(sender).toBe(SENDER);
+    expect(gasData.budget).toBe("3600000");
+    expect(gasData.payment).toHaveLength(1);
+  });
+
+  it("dry runs against a mock gas coin with the maximum budget", async () => {
+    await preflightTransaction(transferFromGas(1_500_000_000n, RECIPIENT), SENDER, "Send 1.5 SUI");
+
+    const [{ transactionBlock }] = client.dryRunTransactionBlock.mock.calls[0];
+    const { gasData } = Transaction.from(transactionBlock).getData();
+    expect(gasData.budget).toBe("50000000000");
+    expect(gasData.payment).toEqual([]);
+  });
+
+  it("fails when the amount and the gas budget together exceed the balance", async () => {
+    const prepared = await preflightTransaction(transferFromGas(BALANCE - 1_000_000n, RECIPIENT), SENDER, "Send almost all SUI");
+
+    expect(prepared.preflight).toMatchObject({ status: "failure", error: "InsufficientCoinBalance in command 0" });
+    // The signed bytes are the ones dry-run, not the estimate with the mock gas coin
+    const [{ transactionBlock }] = client.dryRunTransactionBlock.mock.calls[1];
+    expect(transactionBlock).toEqual(prepared.txBytes);
+    expect(Transaction.from(prepared.txBytes).getData().gasData.payment).toHaveLength(1);
+  });
+});
@@ -0,0 +1,201 @@
+import type {
+  BalanceChange,
+  DryRunTransactionBlockResponse,
+  SuiClient,
+  SuiObjectChange,
+} from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { getSuiClient } from "./network";
+import { TransactionBuildError } from "./walletErrors";
+
+// Highest gas budget accepted by the protocol (50 SUI)
+const MAX_GAS_BUDGET = 50_000_000_000n;
+// Same per-transaction overhead the Sui SDK adds when it estimates a budget itself
+const GAS_SAFE_OVERHEAD = 1000n;
+// Extra headroom on top of the dry-run estimate, in basis points
+export const GAS_SAFETY_MARGIN_BPS = 2000n;
+
+export interface PreflightResult {
+  status: "success" | "failure";
+  error?: string;
+  gasPrice: bigint;
+  gasBudget: bigint;
+  estimatedGas: bigint;
+  balanceChanges: BalanceChange[];
+  objectChanges: SuiObjectChange[];
+}
+
+/**
+ * A transaction that passed the preflight and is ready to be signed on the device
+ */
+export interface PreparedTransaction {
+  description: string;
+  sender: string;
+  txBytes: Uint8Array;
+  preflight: PreflightResult;
+  // Time after which the transaction must not be signed, e.g. when it embeds a swap quote
+  expiresAt?: number;
+}
+
+/**
+ * Derive a gas budget from dry-run effects, with the safety margin applied
+ * @param gasUsed Gas summary from the dry-run effects
+ * @param gasPrice Reference gas price
+ * @returns Gas budget in MIST
+ */
+export function computeGasBudget(
+  gasUsed: DryRunTransactionBlockResponse["effects"]["gasUsed"],
+  gasPrice: bigint
+): bigint {
+  const computationCost = BigInt(gasUsed.computationCost) + GAS_SAFE_OVERHEAD * gasPrice;
+  const netCost =
+    computationCost + BigInt(gasUsed.storageCost) - BigInt(gasUsed.storageRebate);
+  const baseBudget = netCost > computationCost ? netCost : computationCost;
+  const budget = baseBudget + (baseBudget * GAS_SAFETY_MARGIN_BPS) / 10000n;
+  return budget > MAX_GAS_BUDGET ? MAX_GAS_BUDGET : budget;
+}
+
+/**
+ * Dry-run a transaction against the current chain state before it is sent to the device.
+ * On success the transaction gets its final gas budget and is serialized for signing.
+ * @param tx Transaction to check
+ * @param sender Address that will sign the transaction
+ * @param description Short human readable summary shown in the review dialog
+ * @returns Prepared transaction with the dry-run prediction
+ */
+export async function preflightTransaction(
+  tx: Transaction,
+  sender: string,
+  description: string
+): Promise<PreparedTransaction> {
+  tx.setSenderIfNotSet(sender);
+  const client = getSuiClient();
+
+  const [gasPrice, suiBalance] = await Promise.all([
+    client.getReferenceGasPrice(),
+    client.getBalance({ owner: sender }),
+  ]);
+  const available = BigInt(suiBalance.totalBalance);
+  if (available === 0n) {
+    throw new TransactionBuildError("Account has no SUI to pay for gas");
+  }
+
+  // Resolve inputs and intents such as coinWithBalance on the transaction itself, then size the budget
+  // the way the SDK does: dry-run a copy of its commands with the maximum budget and no payment, so the
+  // node pays with a mock gas coin and the estimate is not capped by the account's coins
+  const kindBytes = await buildTransaction(tx, client, { onlyTransactionKind: true });
+  const estimateTx = Transaction.fromKind(kindBytes);
+  estimateTx.setSender(sender);
+  estimateTx.setGasPrice(gasPrice);
+  estimateTx.setGasBudget(MAX_GAS_BUDGET);
+  estimateTx.setGasPayment([]);
+  const estimateBytes = await buildTransaction(estimateTx, client);
+  const estimate = await client.dryRunTransactionBlock({
+    transactionBlock: estimateBytes,
+  });
+
+  if (estimate.effects.status.status !== "success") {
+    console.warn("Dry run aborted:", estimate.effects.status.error);
+    return toPreparedTransaction(description, sender, estimateBytes, estimate, gasPrice, 0n);
+  }
+
+  const gasBudget = computeGasBudget(estimate.effects.gasUsed, gasPrice);
+  if (gasBudget > available) {
+    throw new TransactionBuildError(
+      `Gas budget of ${gasBudget} MIST exceeds the SUI balance of ${available} MIST`
+    );
+  }
+  tx.setGasPrice(gasPrice);
+  tx.setGasBudget(gasBudget);
+  const txBytes = await buildTransaction(tx, client);
+
+  // The mock gas coin covers any amount, only the bytes that get signed show whether the real gas
+  // coins pay for the budget and every split from tx.gas
+  const dryRun = await client.dryRunTransactionBlock({ transactionBlock: txBytes });
+  if (dryRun.effects.status.status !== "success") {
+    console.warn("Dry run aborted:", dryRun.effects.status.error);
+  }
+  return toPreparedTransaction(description, sender, txBytes, dryRun, gasPrice, gasBudget);
+}
+
+// Dry-run prediction in the shape the review dialog shows
+function toPreparedTransaction(
+  description: string,
+  sender: string,
+  txBytes: Uint8Array,
+  dryRun: DryRunTransactionBlockResponse,
+  gasPrice: bigint,
+  gasBudget: bigint
+): PreparedTransaction {
+  const gasUsed = dryRun.effects.gasUsed;
+  const failed = dryRun.effects.status.status !== "success";
+
+  return {
+    description,
+    sender,
+    txBytes,
+    preflight: {
+      status: failed ? "failure" : "success",
+      error: failed ? dryRun.effects.status.error ?? "Dry run failed" : undefined,
+      gasPrice,
+      gasBudget,
+      estimatedGas:
+        BigInt(gasUsed.computationCost) +
+        BigInt(gasUsed.storageCost) -
+        BigInt(gasUsed.storageRebate),
+      balanceChanges: dryRun.balanceChanges,
+      objectChanges: dryRun.objectChanges,
+    },
+  };
+}
+
+/**
+ * Dry-run transaction bytes built elsewhere, e.g. by another member of a multisig, without changing them
+ * @param txBytes BCS serialized TransactionData with gas already set
+ * @param description Short human readable summary shown in the review dialog
+ * @returns Prepared transaction with the dry-run prediction
+ */
+export async function preflightTransactionBytes(
+  txBytes: Uint8Array,
+  description: string
+): Promise<PreparedTransaction> {
+  const { sender, gasData } = Transaction.from(txBytes).getData();
+  if (!sender || !gasData.price || !gasData.budget) {
+    throw new TransactionBuildError("Transaction bytes are missing the sender or gas settings");
+  }
+
+  const dryRun = await getSuiClient().dryRunTransactionBlock({ transactionBlock: txBytes });
+  return toPreparedTransaction(
+    description,
+    sender,
+    txBytes,
+    dryRun,
+    BigInt(gasData.price),
+    BigInt(gasData.budget)
+  );
+}
+
+// Resolving objects and gas coins fails for bad inputs, report that as a build failure
+async function buildTransaction(
+  tx: Transaction,
+  client: SuiClient,
+  options: { onlyTransactionKind?: boolean } = {}
+): Promise<Uint8Array> {
+  try {
+    return await tx.build({ client, ...options });
+  } catch (error) {
+    throw new TransactionBuildError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Refuse to continue with a transaction whose dry run aborted
+ * @param prepared Prepared transaction
+ */
+export function assertPreflightPassed(prepared: PreparedTransaction) {
+  if (prepared.preflight.status !== "success") {
+    throw new TransactionBuildError(
+      `Transaction would abort on chain, not sending it to the device: ${prepared.preflight.error}`
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  ChainExecutionError,
+  DeviceBusyError,
+  DeviceNotFoundError,
+  FirmwareTooOldError,
+  oneKeyError,
+  toWalletError,
+  TransportError,
+  UserRejectedError,
+  WalletError,
+  WrongPassphraseError,
+  WrongPinError,
+} from "./walletErrors";
+
+describe("oneKeyError", () => {
+  it.each([
+    [803, UserRejectedError, "userRejected"],
+    [802, UserRejectedError, "userRejected"],
+    [109, UserRejectedError, "userRejected"],
+    [117, DeviceBusyError, "deviceBusy"],
+    [601, DeviceBusyError, "deviceBusy"],
+    [105, DeviceNotFoundError, "deviceNotFound"],
+    [817, DeviceNotFoundError, "deviceNotFound"],
+    [101, FirmwareTooOldError, "firmwareTooOld"],
+    [414, FirmwareTooOldError, "firmwareTooOld"],
+    [112, WrongPassphraseError, "wrongPassphrase"],
+    [812, WrongPassphraseError, "wrongPassphrase"],
+    [801, WrongPinError, "wrongPin"],
+    [808, TransportError, "transport"],
+    [712, TransportError, "transport"],
+  ])("maps code %i to %o", (code, errorClass, kind) => {
+    const error = oneKeyError({ error: "Device said no", code });
+
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error.kind).toBe(kind);
+    expect(error.code).toBe(code);
+    expect(error.message).toBe("Device said no");
+  });
+
+  it("reads codes sent as strings", () => {
+    expect(oneKeyError({ error: "Action cancelled", code: "803" })).toBeInstanceOf(UserRejectedError);
+  });
+
+  it("keeps a generic WalletError for unknown or missing codes", () => {
+    for (const code of [804, "not-a-code", undefined]) {
+      const error = oneKeyError({ error: "Something failed", code });
+      expect(error.constructor).toBe(WalletError);
+      expect(error.kind).toBe("unknown");
+    }
+  });
+
+  it("carries a title and a recovery step", () => {
+    const error = oneKeyError({ error: "Bridge not installed", code: 808 });
+
+    expect(error.title).toBe("Connection to device failed");
+    expect(error.recovery).toMatch(/OneKey Bridge/);
+  });
+});
+
+describe("toWalletError", () => {
+  it("returns wallet errors unchanged", () => {
+    const error = new ChainExecutionError("Insufficient gas");
+
+    expect(toWalletError(error)).toBe(error);
+  });
+
+  it("wraps other errors and thrown values", () => {
+    expect(toWalletError(new Error("boom"))).toMatchObject({ kind: "unknown", message: "boom" });
+    expect(toWalletError("boom")).toMatchObject({ kind: "unknown", message: "Unknown error" });
+  });
+});
@@ -0,0 +1,185 @@
+export type WalletErrorKind =
+  | "userRejected"
+  | "deviceBusy"
+  | "deviceNotFound"
+  | "firmwareTooOld"
+  | "wrongPassphrase"
+  | "wrongPin"
+  | "transport"
+  | "build"
+  | "chainExecution"
+  | "signingUnavailable"
+  | "unknown";
+
+// Failure payload returned by OneKey SDK calls
+export interface OneKeyFailure {
+  error: string;
+  code?: string | number;
+}
+
+/**
+ * Base of every wallet error, carries a title and the step the user can take to recover
+ */
+export class WalletError extends Error {
+  kind: WalletErrorKind = "unknown";
+  title = "Wallet error";
+  recovery = "Try again, and reconnect the device if the problem persists.";
+  // OneKey SDK error code, when the error came from the device
+  code?: number;
+
+  constructor(message: string, code?: number) {
+    super(message);
+    this.name = "WalletError";
+    this.code = code;
+  }
+}
+
+export class UserRejectedError extends WalletError {
+  kind = "userRejected" as const;
+  title = "Rejected on device";
+  recovery = "Nothing was signed. Start the request again and approve it on the device to continue.";
+
+  constructor(message: string = "The request was cancelled on the device", code?: number) {
+    super(message, code);
+    this.name = "UserRejectedError";
+  }
+}
+
+export class DeviceBusyError extends WalletError {
+  kind = "deviceBusy" as const;
+  title = "Device busy";
+  recovery = "Finish or cancel the request shown on the device, then try again.";
+
+  constructor(message: string = "The device is handling another request", code?: number) {
+    super(message, code);
+    this.name = "DeviceBusyError";
+  }
+}
+
+export class DeviceNotFoundError extends WalletError {
+  kind = "deviceNotFound" as const;
+  title = "Device not found";
+  recovery = "Plug in and unlock your OneKey device, then reconnect the wallet.";
+
+  constructor(message: string = "The OneKey device could not be found", code?: number) {
+    super(message, code);
+    this.name = "DeviceNotFoundError";
+  }
+}
+
+export class FirmwareTooOldError extends WalletError {
+  kind = "firmwareTooOld" as const;
+  title = "Firmware update required";
+  recovery = "Update the device firmware with the OneKey app, then try again.";
+
+  constructor(message: string = "The device firmware does not support this request", code?: number) {
+    super(message, code);
+    this.name = "FirmwareTooOldError";
+  }
+}
+
+export class WrongPassphraseError extends WalletError {
+  kind = "wrongPassphrase" as const;
+  title = "Wrong passphrase";
+  recovery = "Reconnect and enter the passphrase of the hidden wallet this account belongs to.";
+
+  constructor(message: string = "The passphrase does not open this wallet", code?: number) {
+    super(message, code);
+    this.name = "WrongPassphraseError";
+  }
+}
+
+export class WrongPinError extends WalletError {
+  kind = "wrongPin" as const;
+  title = "Wrong PIN";
+  recovery = "Reconnect and enter the device PIN again. Too many wrong attempts wipe the device.";
+
+  constructor(message: string = "The PIN entered was not accepted by the device", code?: number) {
+    super(message, code);
+    this.name = "WrongPinError";
+  }
+}
+
+export class TransportError extends WalletError {
+  kind = "transport" as const;
+  title = "Connection to device failed";
+  recovery = "Check the USB cable and that OneKey Bridge is running, then reload the page and reconnect.";
+
+  constructor(message: string = "Could not communicate with the device", code?: number) {
+    super(message, code);
+    this.name = "TransportError";
+  }
+}
+
+export class TransactionBuildError extends WalletError {
+  kind = "build" as const;
+  title = "Transaction could not be built";
+  recovery = "Check the amounts and your balances, then build the transaction again.";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "TransactionBuildError";
+  }
+}
+
+export class ChainExecutionError extends WalletError {
+  kind = "chainExecution" as const;
+  title = "Transaction not executed";
+  recovery = "Check the network status and your SUI balance for gas, then submit the transaction again.";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ChainExecutionError";
+  }
+}
+
+export class SigningUnavailableError extends WalletError {
+  kind = "signingUnavailable" as const;
+  title = "Signing not available";
+  recovery = "Connect a OneKey device, or a development keypair on testnet or localnet, to sign.";
+
+  constructor(message: string = "This wallet cannot sign") {
+    super(message);
+    this.name = "SigningUnavailableError";
+  }
+}
+
+// HardwareErrorCode values of @onekeyfe/hd-shared, grouped by the error they surface as
+const USER_REJECTED_CODES = [109, 802, 803];
+const DEVICE_BUSY_CODES = [107, 117, 601];
+const DEVICE_NOT_FOUND_CODES = [103, 104, 105, 106, 110, 720, 817, 901];
+const FIRMWARE_TOO_OLD_CODES = [101, 407, 414, 415];
+const WRONG_PASSPHRASE_CODES = [112, 113, 114, 812];
+const WRONG_PIN_CODES = [801];
+const TRANSPORT_CODES = [300, 301, 302, 303, 304, 305, 500, 600, 602, 603, 806, 807, 808, 809, 810, 900, 902];
+
+/**
+ * Typed error for a failed OneKey SDK call
+ * @param failure Payload of the unsuccessful response
+ * @returns Error matching the SDK error code
+ */
+export function oneKeyError(failure: OneKeyFailure): WalletError {
+  const code = failure.code === undefined ? undefined : Number(failure.code);
+  const message = failure.error;
+
+  if (code === undefined || Number.isNaN(code)) return new WalletError(message);
+  if (USER_REJECTED_CODES.includes(code)) return new UserRejectedError(message, code);
+  if (DEVICE_BUSY_CODES.includes(code)) return new DeviceBusyError(message, code);
+  if (DEVICE_NOT_FOUND_CODES.includes(code)) return new DeviceNotFoundError(message, code);
+  if (FIRMWARE_TOO_OLD_CODES.includes(code)) return new FirmwareTooOldError(message, code);
+  if (WRONG_PASSPHRASE_CODES.includes(code)) return new WrongPassphraseError(message, code);
+  if (WRONG_PIN_CODES.includes(code)) return new WrongPinError(message, code);
+  // Bluetooth transport errors occupy the 700 range
+  if (TRANSPORT_CODES.includes(code) || (code >= 700 && code < 800)) return new TransportError(message, code);
+  return new WalletError(message, code);
+}
+
+/**
+ * Wrap anything thrown by a wallet call so the UI can show its title and recovery step
+ * @param error Caught value
+ * @returns The error itself if it is already a WalletError
+ */
+export function toWalletError(error: unknown): WalletError {
+  if (error instanceof WalletError) return error;
+  return new WalletError(error instanceof Error ? error.message : "Unknown error");
+}
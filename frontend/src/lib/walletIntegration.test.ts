@@ -0,0 +1,191 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { verifyTransactionSignature } from "@mysten/sui/verify";
+import { FakeOneKeyDevice, fakeKeypair } from "../test/fakeOneKeyDevice";
+import { prepareOfflineTransfer } from "../test/offlineTransfer";
+import { setHardwareTransport } from "./hardwareTransport";
+import { DEFAULT_SUI_PATH, suiAccountPath } from "./onekeySdkUtils";
+import { getDevicePrompt, submitPin } from "./onekeyUiBridge";
+import { setActiveAccountPath, walletStorageId } from "./suiAccounts";
+import { executeSignedTransaction, TransactionExecutionResult } from "./transactionExecution";
+import { verifyMessageSignature } from "./messageSigning";
+import { DeviceNotFoundError, UserRejectedError, WalletError } from "./walletErrors";
+
+// Submitting to a fullnode is the only network call left once the device is faked
+vi.mock("./transactionExecution", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./transactionExecution")>()),
+  executeSignedTransaction: vi.fn(),
+}));
+
+const device = new FakeOneKeyDevice();
+setHardwareTransport(device);
+// Loaded after the fake is in place, the wallet module subscribes to device events when it is imported
+const { OneKeyHardwareWallet } = await import("./walletIntegration");
+
+const EXECUTED: TransactionExecutionResult = {
+  digest: "fake-digest",
+  status: "success",
+  gasUsed: { computationCost: 0n, storageCost: 0n, storageRebate: 0n, nonRefundableStorageFee: 0n, total: 0n },
+  balanceChanges: [],
+  objectChanges: [],
+  checkpoint: null,
+  timestamp: "0",
+};
+
+describe("OneKeyHardwareWallet", () => {
+  let wallet: InstanceType<typeof OneKeyHardwareWallet>;
+
+  beforeEach(() => {
+    device.reset();
+    vi.mocked(executeSignedTransaction).mockReset();
+    vi.mocked(executeSignedTransaction).mockResolvedValue(EXECUTED);
+    wallet = new OneKeyHardwareWallet();
+  });
+
+  describe("connect", () => {
+    it("derives the default SUI account of the device", async () => {
+      const address = await wallet.connect();
+
+      expect(address).toBe(fakeKeypair(DEFAULT_SUI_PATH).toSuiAddress());
+      expect(wallet.isConnected).toBe(true);
+      expect(wallet.deviceAttached).toBe(true);
+      expect(wallet.path).toBe(DEFAULT_SUI_PATH);
+      // EVM mode is off, so the device is not asked for an Ethereum address
+      expect(device.calls).not.toContain("evmGetAddress");
+    });
+
+    it("opens the account selected in an earlier session", async () => {
+      setActiveAccountPath(walletStorageId(device.deviceId, null), suiAccountPath(2));
+
+      const address = await wallet.connect();
+
+      expect(address).toBe(fakeKeypair(suiAccountPath(2)).toSuiAddress());
+      expect(wallet.path).toBe(suiAccountPath(2));
+    });
+
+    it("fails with DeviceNotFoundError when no device is plugged in", async () => {
+      device.unplug();
+
+      await expect(wallet.connect()).rejects.toBeInstanceOf(DeviceNotFoundError);
+      expect(wallet.isConnected).toBe(false);
+    });
+
+    it("fails with UserRejectedError when the address is rejected on the device", async () => {
+      device.rejectNextRequest();
+
+      await expect(wallet.connect()).rejects.toBeInstanceOf(UserRejectedError);
+      expect(wallet.isConnected).toBe(false);
+    });
+
+    it("asks for the PIN through the UI bridge before deriving the address", async () => {
+      device.lockWithPin("1357");
+
+      const connecting = wallet.connect();
+      await vi.waitFor(() => expect(getDevicePrompt()?.kind).toBe("pin"));
+      submitPin("1357");
+
+      await expect(connecting).resolves.toBe(fakeKeypair(DEFAULT_SUI_PATH).toSuiAddress());
+      expect(getDevicePrompt()).toBeNull();
+    });
+
+    it("reports a wrong PIN with its SDK error code", async () => {
+      device.lockWithPin("1357");
+
+      const connecting = wallet.connect();
+      await vi.waitFor(() => expect(getDevicePrompt()?.kind).toBe("pin"));
+      submitPin("2468");
+
+      await expect(connecting).rejects.toMatchObject({ kind: "wrongPin", code: 801 });
+      expect(wallet.isConnected).toBe(false);
+    });
+  });
+
+  describe("signAndExecutePrepared", () => {
+    it("submits a signature that verifies for the account", async () => {
+      const address = await wallet.connect();
+      const prepared = await prepareOfflineTransfer(address);
+
+      const result = await wallet.signAndExecutePrepared(prepared);
+
+      expect(result).toBe(EXECUTED);
+      const [txBytes, signature] = vi.mocked(executeSignedTransaction).mock.calls[0];
+      expect(txBytes).toBe(prepared.txBytes);
+      const publicKey = await verifyTransactionSignature(txBytes, signature, { address });
+      expect(publicKey.toSuiAddress()).toBe(address);
+    });
+
+    it("does not submit a transaction rejected on the device", async () => {
+      const address = await wallet.connect();
+      device.rejectNextRequest("suiSignTransaction");
+
+      await expect(wallet.signAndExecutePrepared(await prepareOfflineTransfer(address))).rejects.toBeInstanceOf(
+        UserRejectedError
+      );
+      expect(executeSignedTransaction).not.toHaveBeenCalled();
+    });
+
+    it("fails when the device is unplugged while waiting for confirmation", async () => {
+      const address = await wallet.connect();
+      const prepared = await prepareOfflineTransfer(address);
+      device.holdForConfirmation();
+
+      const signing = wallet.signAndExecutePrepared(prepared);
+      await vi.waitFor(() => expect(getDevicePrompt()?.kind).toBe("button"));
+      device.unplug();
+
+      await expect(signing).rejects.toBeInstanceOf(DeviceNotFoundError);
+      expect(device.calls).toContain("cancel");
+      expect(wallet.deviceAttached).toBe(false);
+      expect(executeSignedTransaction).not.toHaveBeenCalled();
+    });
+
+    it("signs again once the device is plugged back in", async () => {
+      const address = await wallet.connect();
+      const prepared = await prepareOfflineTransfer(address);
+      device.unplug();
+
+      await expect(wallet.signAndExecutePrepared(prepared)).rejects.toBeInstanceOf(DeviceNotFoundError);
+      expect(device.calls).not.toContain("suiSignTransaction");
+
+      device.plugIn("fake-connect-2");
+
+      await expect(wallet.signAndExecutePrepared(prepared)).resolves.toBe(EXECUTED);
+      expect(device.calls).toContain("suiSignTransaction");
+    });
+  });
+
+  describe("signPersonalMessage", () => {
+    it("returns a signature that verifies for the account", async () => {
+      const address = await wallet.connect();
+
+      const signed = await wallet.signPersonalMessage("Log in to the trading agent");
+
+      expect(signed.address).toBe(address);
+      expect(await verifyMessageSignature(signed.message, signed.signature, address)).toEqual({ valid: true });
+    });
+
+    it("maps a rejection on the device to UserRejectedError", async () => {
+      await wallet.connect();
+      device.rejectNextRequest("suiSignMessage");
+
+      const signing = wallet.signPersonalMessage("Log in to the trading agent");
+
+      await expect(signing).rejects.toBeInstanceOf(UserRejectedError);
+      await expect(signing).rejects.toMatchObject({ code: 803, title: "Rejected on device" });
+    });
+
+    it("refuses to sign before a device is connected", async () => {
+      await expect(wallet.signPersonalMessage("hello")).rejects.toThrow("Wallet not connected");
+      expect(device.calls).toEqual([]);
+    });
+
+    it("keeps a WalletError for failures without a known code", async () => {
+      await wallet.connect();
+      device.failNextRequest({ error: "Firmware error", code: 804 }, "suiSignMessage");
+
+      const signing = wallet.signPersonalMessage("hello");
+
+      await expect(signing).rejects.toBeInstanceOf(WalletError);
+      await expect(signing).rejects.not.toBeInstanceOf(UserRejectedError);
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import { Transaction } from "@mysten/sui/transactions";
-import { OrderBook, suiClient } from "./deepbookClient";
+import { Ed25519PublicKey } from "@mysten/sui/keypairs/ed25519";
+import { fromHex } from "@mysten/sui/utils";
+import { SuiWallet } from "./suiWallet";
 import {
   initOneKeySDK,
   getDeviceList,
@@ -8,72 +10,262 @@ import {
   signSuiTransaction,
   DEFAULT_SUI_PATH,
   DEFAULT_EVM_PATH,
+  isValidSuiPath,
+  cancelDeviceRequest,
+  getPassphraseState,
+  getSuiPublicKey,
+  setupDeviceListeners,
+  signEvmMessage,
+  signSuiMessage,
 } from "./onekeySdkUtils";
+import { SearchedDevice } from "./hardwareTransport";
+import { getEvmMode, subscribeEvmMode } from "./evmMode";
+import { startUiBridge } from "./onekeyUiBridge";
+import { OneKeyDevice, preferredDevice, setLastDeviceId } from "./onekeyDevices";
+import {
+  discoverSuiAccounts,
+  getActiveAccountPath,
+  setActiveAccountPath,
+  SuiAccount,
+  walletStorageId,
+} from "./suiAccounts";
 import { TransactionData } from "./tradingAnalysis";
-import { bcs } from "@mysten/sui/bcs";
+import { ActionPlan } from "./actionSchema";
+import {
+  toOneKeySigningPayload,
+  toSuiSignature,
+  TransactionExecutionResult,
+} from "./transactionExecution";
+import { SwapQuote, SwapSettings } from "./swapQuote";
+import { PreparedTransaction } from "./transactionPreflight";
+import { clearWalletSession, loadWalletSession, saveWalletSession } from "./walletSession";
+import { DeviceNotFoundError, WalletError, WrongPassphraseError } from "./walletErrors";
+import {
+  encodeMessage,
+  SignedMessage,
+  toOneKeyMessagePayload,
+  verifyMessageSignature,
+} from "./messageSigning";
+
+export type DeviceHandle = Pick<OneKeyDevice, "connectId" | "deviceId">;
+
+export interface ConnectOptions {
+  // Open the passphrase protected hidden wallet instead of the standard one
+  hiddenWallet?: boolean;
+}
+
+// Where the keys live: a OneKey device, an in-browser development keypair, or nowhere for a watched address
+export type WalletBackend = "onekey" | "keypair" | "watch";
 
 export interface OneKeyWallet {
+  backend: WalletBackend;
+  canSign: boolean;
   isConnected: boolean;
   address: string | null;
   evm_address: string | null;
-  connect: () => Promise<string>;
   disconnect: () => void;
-  signAndExecuteTransaction: (transaction: TransactionData) => Promise<any>;
-  signAndExecuteSuiTransaction: (transaction: []) => Promise<any>;
+  quoteTransaction: (transaction: TransactionData, settings?: SwapSettings) => Promise<SwapQuote>;
+  prepareQuotedSwap: (quote: SwapQuote, description: string) => Promise<PreparedTransaction>;
+  prepareTransaction: (transaction: TransactionData) => Promise<PreparedTransaction>;
+  prepareSuiTransaction: (plan: ActionPlan) => Promise<PreparedTransaction>;
+  prepareTransactionBlock: (
+    description: string,
+    build: (sender: string) => Transaction | Promise<Transaction>
+  ) => Promise<PreparedTransaction>;
+  signAndExecutePrepared: (prepared: PreparedTransaction) => Promise<TransactionExecutionResult>;
+  signPreparedTransaction: (prepared: PreparedTransaction) => Promise<string>;
+  signAndExecuteTransaction: (transaction: TransactionData) => Promise<TransactionExecutionResult>;
+  signAndExecuteSuiTransaction: (plan: ActionPlan) => Promise<TransactionExecutionResult>;
+  signPersonalMessage: (message: string) => Promise<SignedMessage>;
+  getSignerPublicKey: () => Promise<string>;
 }
 
-export class OneKeyHardwareWallet implements OneKeyWallet {
-  isConnected: boolean = false;
-  address: string | null = null;
-  evm_address: string | null = null;
+async function findDefaultDevice(): Promise<DeviceHandle> {
+  const devices = (await getDeviceList()).filter(
+    (d): d is SearchedDevice & DeviceHandle => d.connectId !== null && d.deviceId !== null
+  );
+
+  if (devices.length === 0) {
+    throw new DeviceNotFoundError(
+      "No OneKey devices found. Please connect your hardware wallet and try again."
+    );
+  }
+
+  return preferredDevice(devices) ?? devices[0];
+}
+
+export class OneKeyHardwareWallet extends SuiWallet {
+  readonly backend = "onekey" as const;
+  readonly canSign = true;
+  // Derivation path of the active SUI account, used for every signature
+  path: string = DEFAULT_SUI_PATH;
+  deviceId: string | null = null;
+  // False while the connected device is unplugged, signing is refused until it is back
+  deviceAttached: boolean = false;
+  // Identifies the open hidden wallet, null for the standard wallet
+  passphraseState: string | null = null;
   private connectId: string | null = null;
-  private deviceId: string | null = null;
-  private orderBook: OrderBook | null = null;
+  private rejectPendingRequest: ((error: Error) => void) | null = null;
 
   constructor() {
+    super();
     initOneKeySDK();
+    startUiBridge();
+    this.restoreSession();
+    setupDeviceListeners(
+      (event) => {
+        const device = event?.payload?.device;
+        if (device) this.rebindDevice(device);
+      },
+      (event) => {
+        const device = event?.payload?.device;
+        if (device) this.handleDeviceRemoved(device);
+      }
+    );
+    // The EVM address is only kept while EVM mode is on
+    subscribeEvmMode(() => {
+      if (!getEvmMode() && this.evm_address) {
+        this.evm_address = null;
+        this.saveSession();
+      }
+    });
   }
 
-  async connect(): Promise<string> {
-    try {
-      const devices = await getDeviceList();
+  /**
+   * Restore the account of the last session, then look for its device in the background
+   */
+  private restoreSession() {
+    const session = loadWalletSession();
+    if (!session) return;
+
+    this.deviceId = session.deviceId;
+    this.connectId = session.connectId;
+    this.path = session.path;
+    this.setAccount(session.address);
+    this.evm_address = getEvmMode() ? session.evmAddress : null;
+    this.passphraseState = session.passphraseState;
+    this.isConnected = true;
+    this.deviceAttached = false;
+    console.log("Restored OneKey session for", session.address, session.path);
+
+    getDeviceList()
+      .then((devices) => {
+        const device = devices.find((d) => d.deviceId === session.deviceId);
+        if (device) this.rebindDevice(device);
+      })
+      .catch((error: unknown) => console.error("Failed to look for the session's device:", error));
+  }
 
-      if (devices.length === 0) {
-        throw new Error(
-          "No OneKey devices found. Please connect your hardware wallet and try again."
-        );
-      }
+  private saveSession() {
+    if (!this.isConnected || !this.deviceId || !this.connectId || !this.address) return;
+    saveWalletSession({
+      deviceId: this.deviceId,
+      connectId: this.connectId,
+      path: this.path,
+      address: this.address,
+      evmAddress: this.evm_address,
+      passphraseState: this.passphraseState,
+    });
+  }
 
-      const device = devices[0];
-      this.connectId = device.connectId;
-      this.deviceId = device.deviceId;
+  /**
+   * Storage id of the open wallet, hidden wallets of a device keep their own accounts
+   */
+  get walletId(): string | null {
+    return this.deviceId ? walletStorageId(this.deviceId, this.passphraseState) : null;
+  }
+
+  // Passphrase state to pass to SDK calls, undefined selects the standard wallet
+  private get passphraseParam(): string | undefined {
+    return this.passphraseState ?? undefined;
+  }
+
+  /**
+   * Fail the request waiting on the device and stop signing until it is plugged back in
+   * @param device Device reported by the SDK's disconnect event
+   */
+  private handleDeviceRemoved(device: { connectId: string | null; deviceId: string | null }) {
+    const removed =
+      (device.deviceId !== null && device.deviceId === this.deviceId) ||
+      (device.connectId !== null && device.connectId === this.connectId);
+    if (!this.isConnected || !removed) return;
+
+    console.log("OneKey device removed:", this.deviceId);
+    this.deviceAttached = false;
+    if (this.rejectPendingRequest) {
+      this.rejectPendingRequest(new DeviceNotFoundError("OneKey device was removed before the request was confirmed"));
+      this.rejectPendingRequest = null;
+      cancelDeviceRequest(this.connectId ?? undefined);
+    }
+  }
+
+  /**
+   * Run a device request that fails as soon as the device is unplugged instead of hanging
+   * @param request Pending SDK call
+   * @returns Result of the request
+   */
+  private untilDeviceRemoved<T>(request: Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.rejectPendingRequest = reject;
+      request.then(resolve, reject).finally(() => {
+        if (this.rejectPendingRequest === reject) {
+          this.rejectPendingRequest = null;
+        }
+      });
+    });
+  }
+
+  /**
+   * Connect to a OneKey device and derive the addresses of its active account
+   * @param device Device picked by the user, defaults to the last used device or the first one found
+   * @param options Whether to open a hidden wallet, its passphrase is asked through the UI bridge
+   * @returns SUI address of the active account
+   */
+  async connect(device?: DeviceHandle, options: ConnectOptions = {}): Promise<string> {
+    try {
+      const target = device ?? (await findDefaultDevice());
+      this.connectId = target.connectId;
+      this.deviceId = target.deviceId;
       if (!this.connectId || !this.deviceId) {
         throw new Error("Device connection information is missing");
       }
 
+      this.passphraseState = options.hiddenWallet ? await getPassphraseState(this.connectId) : null;
+      if (options.hiddenWallet && !this.passphraseState) {
+        throw new WrongPassphraseError("No passphrase was entered for the hidden wallet");
+      }
+
+      const path = getActiveAccountPath(walletStorageId(this.deviceId, this.passphraseState));
       const address = await getSuiAddress({
         connectId: this.connectId,
         deviceId: this.deviceId,
-        path: DEFAULT_SUI_PATH,
+        path,
+        passphraseState: this.passphraseParam,
       });
       if (!address) {
         throw new Error("Failed to retrieve SUI address from OneKey device");
       }
 
-      const evm_address = await getEVMAddress({
-        connectId: this.connectId,
-        deviceId: this.deviceId,
-        path: DEFAULT_EVM_PATH,
-      });
-      if (!evm_address) {
+      // Deriving the EVM address asks for a second confirmation on the device, skip it unless EVM mode is on
+      const evm_address = getEvmMode()
+        ? await getEVMAddress({
+            connectId: this.connectId,
+            deviceId: this.deviceId,
+            path: DEFAULT_EVM_PATH,
+            passphraseState: this.passphraseParam,
+          })
+        : null;
+      if (getEvmMode() && !evm_address) {
         throw new Error("Failed to retrieve EVM address from OneKey device");
       }
 
-      this.address = address;
+      this.setAccount(address);
+      this.path = path;
       this.evm_address = evm_address;
       this.isConnected = true;
-
-      this.orderBook = new OrderBook(this.address);
+      this.deviceAttached = true;
+      setLastDeviceId(this.deviceId);
+      this.saveSession();
 
       console.log(
         "Connected to OneKey hardware wallet with SUI address:",
@@ -81,7 +273,7 @@ export class OneKeyHardwareWallet implements OneKeyWallet {
         "EVM address:",
         this.evm_address
       );
-      return this.address;
+      return address;
     } catch (error) {
       console.error("Error connecting to OneKey hardware wallet:", error);
       throw error;
@@ -92,164 +284,244 @@ export class OneKeyHardwareWallet implements OneKeyWallet {
     this.isConnected = false;
     this.address = null;
     this.evm_address = null;
+    this.path = DEFAULT_SUI_PATH;
     this.connectId = null;
     this.deviceId = null;
+    this.deviceAttached = false;
+    this.passphraseState = null;
+    clearWalletSession();
     console.log("Disconnected from OneKey hardware wallet");
   }
 
-  async signAndExecuteTransaction(transactionData: TransactionData): Promise<any> {
-    if (!this.isConnected || !this.address) {
-      throw new Error("Wallet not connected");
+  /**
+   * Reattach the connected device when it is plugged back in, following a new connect id if it got one
+   * @param device Device reported by the SDK's connect event
+   * @returns Whether the device is the connected one
+   */
+  rebindDevice(device: { connectId: string | null; deviceId: string | null }): boolean {
+    if (!this.isConnected || !device.connectId || !device.deviceId || device.deviceId !== this.deviceId) {
+      return false;
     }
+    if (device.connectId !== this.connectId) {
+      console.log("OneKey device reconnected, rebinding", this.connectId, "->", device.connectId);
+      this.connectId = device.connectId;
+    }
+    this.deviceAttached = true;
+    this.saveSession();
+    return true;
+  }
 
-    try {
-      const isBuy = transactionData.transactionType === "buy";
-      console.log(
-        `Creating ${isBuy ? "buy" : "sell"} transaction for ${
-          transactionData.pair
-        } using DeepBook`
-      );
-
-      if (!transactionData.poolId) {
-        throw new Error("Pool ID is required for DeepBook transactions");
-      }
-
-      console.log("Creating DeepBook transaction...", transactionData);
+  /**
+   * Scan the connected device for SUI accounts and their balances
+   * @param count Number of account indexes to derive
+   * @returns Accounts including the user's custom paths
+   */
+  async discoverAccounts(count?: number): Promise<SuiAccount[]> {
+    if (!this.isConnected || !this.connectId || !this.deviceId) {
+      throw new Error("Wallet not connected");
+    }
+    return discoverSuiAccounts(this.connectId, this.deviceId, this.passphraseState, count);
+  }
 
-      const tx = new Transaction();
-      tx.setSender(this.address);
-      await this.orderBook!.placeOrder(
-        tx,
-        transactionData.baseCoinId,
-        transactionData.quoteCoinId,
-        isBuy,
-        transactionData.amount
-      );
+  /**
+   * Make another derivation path the active account, confirming its address on the device
+   * @param path Hardened SUI derivation path
+   * @returns Address of the selected account
+   */
+  async selectAccount(path: string): Promise<string> {
+    if (!this.isConnected || !this.connectId || !this.deviceId) {
+      throw new Error("Wallet not connected");
+    }
+    if (!isValidSuiPath(path)) {
+      throw new Error(`"${path}" is not a SUI derivation path`);
+    }
 
-      tx.setGasBudget(10000);
-      const txBytes = await tx.build({ client: suiClient, onlyTransactionKind: false });
-      console.log(
-        `Transaction serialization successful, length: ${txBytes.byteLength} bytes`
-      );
+    const address = await getSuiAddress({
+      connectId: this.connectId,
+      deviceId: this.deviceId,
+      path,
+      passphraseState: this.passphraseParam,
+    });
+    if (!address) {
+      throw new Error("Failed to retrieve SUI address from OneKey device");
+    }
 
-      const serializedTx = Buffer.from(txBytes).toString("hex");
-      console.log(
-        "Transaction serialization successful, length: ",
-        serializedTx.length
-      );
-      console.log(
-        "Sending transaction to OneKey hardware wallet for signing..."
-      );
+    this.setAccount(address);
+    this.path = path;
+    setActiveAccountPath(walletStorageId(this.deviceId, this.passphraseState), path);
+    this.saveSession();
+    console.log("Switched to SUI account", path, address);
+    return address;
+  }
 
-      if (!this.connectId || !this.deviceId) {
-        throw new Error("Device connection information is missing");
-      }
+  /**
+   * Have the OneKey device sign transaction bytes, failing if it is unplugged meanwhile
+   * @param txBytes BCS serialized TransactionData
+   * @returns Base64 serialized Sui signature
+   */
+  protected async signTransactionBytes(txBytes: Uint8Array): Promise<string> {
+    if (!this.connectId || !this.deviceId) {
+      throw new Error("Device connection information is missing");
+    }
+    if (!this.deviceAttached) {
+      throw new DeviceNotFoundError("OneKey device is not plugged in, reconnect it to sign");
+    }
 
-      const signedTx = await signSuiTransaction({
+    console.log(
+      "Sending transaction to OneKey hardware wallet for signing..."
+    );
+    const signedTx = await this.untilDeviceRemoved(
+      signSuiTransaction({
         connectId: this.connectId,
         deviceId: this.deviceId,
-        path: DEFAULT_SUI_PATH,
-        rawTx: serializedTx,
-      });
+        path: this.path,
+        rawTx: toOneKeySigningPayload(txBytes),
+        passphraseState: this.passphraseParam,
+      })
+    );
+    return toSuiSignature(signedTx);
+  }
 
-      console.log("Transaction signed successfully by OneKey hardware wallet");
-
-      return {
-        digest:
-          signedTx.signature ||
-          "deepbook-transaction-" + Math.random().toString(36).substring(2, 15),
-        status: "success",
-        timestamp: new Date().toISOString(),
-        transaction: transactionData,
-        deepbookTx: tx,
-      };
-    } catch (error) {
-      console.error(
-        "Error executing transaction with OneKey hardware wallet:",
-        error
-      );
-      throw error;
+  /**
+   * Read the public key of the active account from the device
+   * @returns Base64 Sui public key (flag || public key)
+   */
+  async getSignerPublicKey(): Promise<string> {
+    if (!this.isConnected || !this.connectId || !this.deviceId) {
+      throw new Error("Wallet not connected");
     }
+
+    const publicKey = await getSuiPublicKey({
+      connectId: this.connectId,
+      deviceId: this.deviceId,
+      path: this.path,
+      passphraseState: this.passphraseParam,
+    });
+    return new Ed25519PublicKey(fromHex(publicKey)).toSuiPublicKey();
   }
 
-  async signAndExecuteSuiTransaction(transactionData: []): Promise<any> {
-    if (!this.isConnected || !this.address) {
+  /**
+   * Derive the Ethereum address of the connected device, confirming it on screen
+   * @returns EVM address, also kept in the session while EVM mode is on
+   */
+  async deriveEvmAddress(): Promise<string> {
+    if (!this.isConnected || !this.connectId || !this.deviceId) {
       throw new Error("Wallet not connected");
     }
-
-    if (transactionData.length === 0) {
-      throw new Error("Transaction data is empty");
+    if (!getEvmMode()) {
+      throw new Error("Turn on EVM mode in Settings to use an Ethereum address");
     }
 
-    try {
-      const tx = new Transaction();
-      tx.setSender(this.address);
-      
-      for (const action of transactionData) {
-        if (action.action == "transfer") {
-          const split_coin = tx.splitCoins(tx.gas, [tx.pure(bcs.U64.serialize(parseFloat(action.amount)*1000000000))]);
-          tx.transferObjects([split_coin], action.recipient);
-        }
-      }
-
-      tx.setGasBudget(10000);
-      const txBytes = await tx.build({ client: suiClient, onlyTransactionKind: false });
-      console.log(
-        `Transaction serialization successful, length: ${txBytes.byteLength} bytes`
-      );
+    const evm_address = await getEVMAddress({
+      connectId: this.connectId,
+      deviceId: this.deviceId,
+      path: DEFAULT_EVM_PATH,
+      passphraseState: this.passphraseParam,
+    });
+    if (!evm_address) {
+      throw new Error("Failed to retrieve EVM address from OneKey device");
+    }
 
-      const serializedTx = Buffer.from(txBytes).toString("hex");
-      console.log(
-        "Transaction serialization successful, length: ",
-        serializedTx.length
-      );
-      console.log(
-        "Sending transaction to OneKey hardware wallet for signing..."
-      );
+    this.evm_address = evm_address;
+    this.saveSession();
+    return evm_address;
+  }
 
-      if (!this.connectId || !this.deviceId) {
-        throw new Error("Device connection information is missing");
-      }
+  /**
+   * Have the OneKey device sign an EIP-191 personal message with the Ethereum account
+   * @param message Message text reviewed on the device before signing
+   * @returns Signing address and 0x prefixed signature
+   */
+  async signEvmPersonalMessage(message: string): Promise<{ address: string; signature: string }> {
+    if (!this.isConnected || !this.evm_address) {
+      throw new Error("Derive the EVM address before signing with it");
+    }
+    if (!message) {
+      throw new Error("Message is empty");
+    }
+    if (!this.connectId || !this.deviceId) {
+      throw new Error("Device connection information is missing");
+    }
+    if (!this.deviceAttached) {
+      throw new DeviceNotFoundError("OneKey device is not plugged in, reconnect it to sign");
+    }
 
-      const signedTx = await signSuiTransaction({
+    const { address, signature } = await this.untilDeviceRemoved(
+      signEvmMessage({
         connectId: this.connectId,
         deviceId: this.deviceId,
-        path: DEFAULT_SUI_PATH,
-        rawTx: serializedTx,
-      });
-
-      console.log("================")
-      console.dir(signedTx)
-      console.log("================")
-
-      console.dir({
-        digest:
-          signedTx.signature ||
-          "deepbook-transaction-" + Math.random().toString(36).substring(2, 15),
-        status: "success",
-        timestamp: new Date().toISOString(),
-        transaction: transactionData,
-        deepbookTx: tx,
+        path: DEFAULT_EVM_PATH,
+        messageHex: Buffer.from(message, "utf8").toString("hex"),
+        passphraseState: this.passphraseParam,
       })
-      console.log("Transaction signed successfully by OneKey hardware wallet");
-
-      return {
-        digest:
-          signedTx.signature ||
-          "deepbook-transaction-" + Math.random().toString(36).substring(2, 15),
-        status: "success",
-        timestamp: new Date().toISOString(),
-        transaction: transactionData,
-        deepbookTx: tx,
-      };
-    } catch (error) {
-      console.error(
-        "Error executing transaction with OneKey hardware wallet:",
-        error
-      );
-      throw error;
+    );
+    return { address, signature: signature.startsWith("0x") ? signature : `0x${signature}` };
+  }
+
+  /**
+   * Have the OneKey device sign a personal message, proving ownership of the active account
+   * @param message Message text reviewed on the device before signing
+   * @returns Signature that verifies against the account address
+   */
+  async signPersonalMessage(message: string): Promise<SignedMessage> {
+    if (!this.isConnected || !this.address) {
+      throw new Error("Wallet not connected");
     }
+    if (!message) {
+      throw new Error("Message is empty");
+    }
+    if (!this.connectId || !this.deviceId) {
+      throw new Error("Device connection information is missing");
+    }
+    if (!this.deviceAttached) {
+      throw new DeviceNotFoundError("OneKey device is not plugged in, reconnect it to sign");
+    }
+
+    const device = {
+      connectId: this.connectId,
+      deviceId: this.deviceId,
+      path: this.path,
+      passphraseState: this.passphraseParam,
+    };
+    // The message signature carries no public key, read it so the signature can be serialized
+    const publicKey = await getSuiPublicKey(device);
+    const { signature } = await this.untilDeviceRemoved(
+      signSuiMessage({ ...device, messageHex: toOneKeyMessagePayload(encodeMessage(message)) })
+    );
+
+    const signed = {
+      message,
+      signature: toSuiSignature({ signature, public_key: publicKey }),
+      address: this.address,
+    };
+    const verification = await verifyMessageSignature(message, signed.signature, signed.address);
+    if (!verification.valid) {
+      throw new WalletError(`Device signature does not verify for ${signed.address}: ${verification.error}`);
+    }
+    console.log("Message signed by", signed.address);
+    return signed;
   }
 }
 
-export const wallet = new OneKeyHardwareWallet();
+export const hardwareWallet = new OneKeyHardwareWallet();
+
+let activeWallet: OneKeyWallet = hardwareWallet;
+
+/**
+ * Wallet backend the app currently trades with
+ * @returns Active wallet, the OneKey device unless another backend was connected
+ */
+export function getWallet(): OneKeyWallet {
+  return activeWallet;
+}
+
+/**
+ * Make another backend the active wallet, disconnecting the previous one
+ * @param next Connected wallet backend
+ */
+export function setActiveWallet(next: OneKeyWallet) {
+  if (next !== activeWallet && activeWallet.isConnected) {
+    activeWallet.disconnect();
+  }
+  activeWallet = next;
+}
@@ -0,0 +1,64 @@
+import { isValidSuiAddress } from "@mysten/sui/utils";
+import { isValidSuiPath } from "./onekeySdkUtils";
+
+const SESSION_STORAGE_KEY = "onekey.session";
+
+// Only public identifiers are stored, nothing that could sign or reveal keys
+export interface WalletSession {
+  deviceId: string;
+  connectId: string;
+  path: string;
+  address: string;
+  evmAddress: string | null;
+  // Fingerprint of the hidden wallet in use, not the passphrase itself
+  passphraseState: string | null;
+}
+
+/**
+ * Session saved by the last connection, if it is still well formed
+ * @returns Stored session, or null
+ */
+export function loadWalletSession(): WalletSession | null {
+  try {
+    const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!stored) return null;
+
+    const session = JSON.parse(stored) as Partial<WalletSession>;
+    if (
+      typeof session.deviceId === "string" &&
+      typeof session.connectId === "string" &&
+      typeof session.path === "string" &&
+      isValidSuiPath(session.path) &&
+      typeof session.address === "string" &&
+      isValidSuiAddress(session.address)
+    ) {
+      return {
+        deviceId: session.deviceId,
+        connectId: session.connectId,
+        path: session.path,
+        address: session.address,
+        evmAddress: typeof session.evmAddress === "string" ? session.evmAddress : null,
+        passphraseState: typeof session.passphraseState === "string" ? session.passphraseState : null,
+      };
+    }
+  } catch (error) {
+    console.error("Ignoring stored wallet session:", error);
+  }
+  clearWalletSession();
+  return null;
+}
+
+/**
+ * Remember the connected device and account so a reload can restore them
+ * @param session Device, path and addresses of the connection
+ */
+export function saveWalletSession(session: WalletSession) {
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+}
+
+/**
+ * Forget the stored session, on disconnect
+ */
+export function clearWalletSession() {
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+}
@@ -0,0 +1,49 @@
+import { isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils";
+import { SuiWallet } from "./suiWallet";
+import { SignedMessage } from "./messageSigning";
+import { SigningUnavailableError } from "./walletErrors";
+
+/**
+ * Any address, followed read-only: analysis, balances and transaction previews work, signing does not
+ */
+export class WatchOnlyWallet extends SuiWallet {
+  readonly backend = "watch" as const;
+  readonly canSign = false;
+
+  /**
+   * Start watching an address
+   * @param address SUI address to follow
+   * @returns Normalized address
+   */
+  async connect(address: string): Promise<string> {
+    const normalized = normalizeSuiAddress(address.trim());
+    if (!isValidSuiAddress(normalized)) {
+      throw new Error(`"${address}" is not a SUI address`);
+    }
+
+    this.setAccount(normalized);
+    this.isConnected = true;
+    console.log("Watching address:", normalized);
+    return normalized;
+  }
+
+  disconnect(): void {
+    this.isConnected = false;
+    this.address = null;
+    console.log("Stopped watching address");
+  }
+
+  protected async signTransactionBytes(): Promise<string> {
+    throw new SigningUnavailableError("Watch-only wallets cannot sign transactions");
+  }
+
+  async signPersonalMessage(): Promise<SignedMessage> {
+    throw new SigningUnavailableError("Watch-only wallets cannot sign messages");
+  }
+
+  async getSignerPublicKey(): Promise<string> {
+    throw new SigningUnavailableError("The public key of a watched address is unknown until it signs");
+  }
+}
+
+export const watchOnlyWallet = new WatchOnlyWallet();
@@ -0,0 +1,281 @@
+import { bcs } from "@mysten/sui/bcs";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { fromBase64, fromHex, toHex } from "@mysten/sui/utils";
+import {
+  HardwareCallParams,
+  HardwareEvent,
+  HardwareListener,
+  HardwareResponse,
+  HardwareTransport,
+  HardwareSuiAddress,
+  SuiAddressParams,
+} from "../lib/hardwareTransport";
+import { OneKeyFailure } from "../lib/walletErrors";
+
+// Well known test seed, the device derives the same keys as any SUI wallet restored from it
+export const FAKE_MNEMONIC =
+  "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+
+// HardwareErrorCode values the fake device answers with
+export const FAKE_ERROR_CODES = {
+  DeviceNotFound: 105,
+  PinInvalid: 801,
+  ActionCancelled: 803,
+} as const;
+
+const INTENT_PREFIX_LENGTH = 3;
+
+/**
+ * Keypair the fake device signs with for a derivation path
+ * @param path Hardened SUI derivation path
+ * @returns Ed25519 keypair derived from FAKE_MNEMONIC
+ */
+export function fakeKeypair(path: string): Ed25519Keypair {
+  return Ed25519Keypair.deriveKeypair(FAKE_MNEMONIC, path);
+}
+
+/**
+ * OneKey device kept in memory: no USB, bridge or network.
+ * Keys come from FAKE_MNEMONIC, and tests script rejections, PIN prompts and unplugging.
+ */
+export class FakeOneKeyDevice implements HardwareTransport {
+  connectId = "fake-connect-1";
+  readonly deviceId = "FAKE0NEKEY0001";
+  readonly label = "Test OneKey";
+  plugged = true;
+  // Every request sent to the device, by SDK method name
+  readonly calls: string[] = [];
+  private pin: string | null = null;
+  private failures: { method?: string; failure: OneKeyFailure }[] = [];
+  private holding = false;
+  private pendingRelease: ((failure: OneKeyFailure | null) => void) | null = null;
+  private pendingUiResponse: ((payload: unknown) => void) | null = null;
+  private listeners = new Map<string, Set<HardwareListener>>();
+
+  /**
+   * Put the device back to plugged in, unlocked and answering every request
+   */
+  reset() {
+    this.connectId = "fake-connect-1";
+    this.plugged = true;
+    this.pin = null;
+    this.failures = [];
+    this.holding = false;
+    this.calls.length = 0;
+  }
+
+  /**
+   * Make the next device request fail as if the user pressed cancel on the device
+   * @param method SDK method to reject, any request when omitted
+   */
+  rejectNextRequest(method?: string) {
+    this.failNextRequest({ error: "Action cancelled by user", code: FAKE_ERROR_CODES.ActionCancelled }, method);
+  }
+
+  /**
+   * Make the next device request fail with an SDK failure payload
+   * @param failure Error message and HardwareErrorCode
+   * @param method SDK method to fail, any request when omitted
+   */
+  failNextRequest(failure: OneKeyFailure, method?: string) {
+    this.failures.push({ method, failure });
+  }
+
+  /**
+   * Lock the device: the next request asks for this PIN through a UI request first
+   * @param pin PIN as entered on the matrix
+   */
+  lockWithPin(pin: string) {
+    this.pin = pin;
+  }
+
+  /**
+   * Keep requests waiting for a button press on the device until confirm() or unplug()
+   */
+  holdForConfirmation() {
+    this.holding = true;
+  }
+
+  /**
+   * Press the confirm button for the request waiting on the device
+   */
+  confirm() {
+    this.holding = false;
+    this.pendingRelease?.(null);
+  }
+
+  /**
+   * Pull the USB cable, the SDK reports a device-disconnect event
+   */
+  unplug() {
+    this.plugged = false;
+    this.emit("device", { type: "device-disconnect", payload: { device: this.searchedDevice() } });
+  }
+
+  /**
+   * Plug the device back in, the bridge may assign it a new connect id
+   * @param connectId Connect id reported after reconnecting
+   */
+  plugIn(connectId: string = this.connectId) {
+    this.plugged = true;
+    this.connectId = connectId;
+    this.emit("device", { type: "device-connect", payload: { device: this.searchedDevice() } });
+  }
+
+  async init() {
+    return true;
+  }
+
+  async searchDevices() {
+    this.calls.push("searchDevices");
+    return { success: true as const, payload: this.plugged ? [this.searchedDevice()] : [] };
+  }
+
+  getFeatures(connectId: string) {
+    return this.request("getFeatures", connectId, async () => ({
+      label: this.label,
+      onekey_firmware_version: "4.10.0",
+    }));
+  }
+
+  async getPassphraseState() {
+    this.calls.push("getPassphraseState");
+    return { success: false as const, payload: { error: "Passphrase is not enabled on the fake device" } };
+  }
+
+  suiGetAddress(
+    connectId: string,
+    deviceId: string,
+    params: HardwareCallParams & SuiAddressParams
+  ): HardwareResponse<HardwareSuiAddress>;
+  suiGetAddress(
+    connectId: string,
+    deviceId: string,
+    params: HardwareCallParams & { bundle: SuiAddressParams[] }
+  ): HardwareResponse<HardwareSuiAddress[]>;
+  suiGetAddress(
+    connectId: string,
+    _deviceId: string,
+    params: HardwareCallParams & (SuiAddressParams | { bundle: SuiAddressParams[] })
+  ): HardwareResponse<HardwareSuiAddress | HardwareSuiAddress[]> {
+    return this.request("suiGetAddress", connectId, async () =>
+      "bundle" in params ? params.bundle.map(({ path }) => this.suiAddress(path)) : this.suiAddress(params.path)
+    );
+  }
+
+  suiSignTransaction(connectId: string, _deviceId: string, params: HardwareCallParams & { path: string; rawTx: string }) {
+    return this.request("suiSignTransaction", connectId, async () => {
+      const keypair = fakeKeypair(params.path);
+      // rawTx already carries the TransactionData intent, the device hashes and signs it as is
+      const txBytes = fromHex(params.rawTx).slice(INTENT_PREFIX_LENGTH);
+      const { signature } = await keypair.signWithIntent(txBytes, "TransactionData");
+      return {
+        path: params.path,
+        public_key: toHex(keypair.getPublicKey().toRawBytes()),
+        signature: rawSignatureHex(signature),
+      };
+    });
+  }
+
+  suiSignMessage(connectId: string, _deviceId: string, params: HardwareCallParams & { path: string; messageHex: string }) {
+    return this.request("suiSignMessage", connectId, async () => {
+      const keypair = fakeKeypair(params.path);
+      // messageHex is the BCS vector<u8>, the device prepends the PersonalMessage intent
+      const message = new Uint8Array(bcs.vector(bcs.u8()).parse(fromHex(params.messageHex)));
+      const { signature } = await keypair.signPersonalMessage(message);
+      return { address: keypair.toSuiAddress(), signature: rawSignatureHex(signature) };
+    });
+  }
+
+  async evmGetAddress() {
+    this.calls.push("evmGetAddress");
+    return { success: false as const, payload: { error: "Ethereum is not supported by the fake device" } };
+  }
+
+  async evmSignMessage() {
+    this.calls.push("evmSignMessage");
+    return { success: false as const, payload: { error: "Ethereum is not supported by the fake device" } };
+  }
+
+  on(type: string, listener: HardwareListener) {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)!.add(listener);
+  }
+
+  off(type: string, listener: HardwareListener) {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  uiResponse(response: { type: string; payload: unknown }) {
+    this.calls.push(`uiResponse:${response.type}`);
+    const resolve = this.pendingUiResponse;
+    this.pendingUiResponse = null;
+    resolve?.(response.payload);
+  }
+
+  cancel() {
+    this.calls.push("cancel");
+    this.pendingRelease?.({ error: "Action cancelled", code: FAKE_ERROR_CODES.ActionCancelled });
+  }
+
+  private searchedDevice() {
+    return { connectId: this.connectId, deviceId: this.deviceId, deviceType: "pro", name: this.label };
+  }
+
+  private suiAddress(path: string): HardwareSuiAddress {
+    const keypair = fakeKeypair(path);
+    return { path, address: keypair.toSuiAddress(), pub: toHex(keypair.getPublicKey().toRawBytes()) };
+  }
+
+  private emit(type: string, event: HardwareEvent) {
+    this.listeners.get(type)?.forEach((listener) => listener(event));
+  }
+
+  // Answer a request the way the SDK does: unlock, queued failures and button presses come first
+  private async request<T>(method: string, connectId: string, work: () => Promise<T>): HardwareResponse<T> {
+    this.calls.push(method);
+    if (!this.plugged || connectId !== this.connectId) {
+      return { success: false, payload: { error: "Device not found", code: FAKE_ERROR_CODES.DeviceNotFound } };
+    }
+
+    if (this.pin !== null) {
+      const entered = await this.askUi("ui-request_pin");
+      if (entered !== this.pin) {
+        this.emit("UI_EVENT", { type: "ui-invalid_pin", payload: { device: { label: this.label } } });
+        return { success: false, payload: { error: "PIN invalid", code: FAKE_ERROR_CODES.PinInvalid } };
+      }
+      this.pin = null;
+    }
+
+    const failing = this.failures.findIndex((queued) => !queued.method || queued.method === method);
+    if (failing !== -1) {
+      const [{ failure }] = this.failures.splice(failing, 1);
+      return { success: false, payload: failure };
+    }
+
+    if (this.holding) {
+      this.emit("UI_EVENT", { type: "ui-button", payload: { device: { label: this.label } } });
+      const cancelled = await new Promise<OneKeyFailure | null>((resolve) => {
+        this.pendingRelease = resolve;
+      });
+      this.pendingRelease = null;
+      if (cancelled) {
+        return { success: false, payload: cancelled };
+      }
+    }
+
+    return { success: true, payload: await work() };
+  }
+
+  private askUi(type: string): Promise<unknown> {
+    return new Promise((resolve) => {
+      this.pendingUiResponse = resolve;
+      this.emit("UI_EVENT", { type, payload: { device: { label: this.label } } });
+    });
+  }
+}
+
+// Serialized Ed25519 signatures are flag || signature || public key, the device returns the signature alone
+function rawSignatureHex(serialized: string): string {
+  return toHex(fromBase64(serialized).slice(1, 65));
+}
@@ -0,0 +1,46 @@
+import { Transaction } from "@mysten/sui/transactions";
+import { PreparedTransaction } from "../lib/transactionPreflight";
+
+// Gas coin that is never looked up, so transactions paying with it build without a fullnode
+export const FAKE_GAS_PAYMENT = [{ objectId: "0x1234", version: "1", digest: "11111111111111111111111111111111" }];
+
+/**
+ * SUI transfer split from the fake gas coin, price and budget are left to the caller
+ * @param amount Amount in MIST
+ * @param recipient Address receiving the SUI
+ * @returns Transaction without sender, gas price or budget
+ */
+export function transferFromGas(amount: bigint | number, recipient: string): Transaction {
+  const tx = new Transaction();
+  tx.setGasPayment(FAKE_GAS_PAYMENT);
+  const [coin] = tx.splitCoins(tx.gas, [amount]);
+  tx.transferObjects([coin], recipient);
+  return tx;
+}
+
+/**
+ * Transfer of 1000 MIST that passed a made-up preflight, ready to be signed
+ * @param sender Address signing the transfer
+ * @param recipient Address receiving the SUI, the sender by default
+ * @returns Prepared transaction built without a fullnode
+ */
+export async function prepareOfflineTransfer(sender: string, recipient = sender): Promise<PreparedTransaction> {
+  const tx = transferFromGas(1_000, recipient);
+  tx.setSender(sender);
+  tx.setGasPrice(1000);
+  tx.setGasBudget(10_000_000);
+
+  return {
+    description: "Send 1000 MIST",
+    sender,
+    txBytes: await tx.build(),
+    preflight: {
+      status: "success",
+      gasPrice: 1000n,
+      gasBudget: 10_000_000n,
+      estimatedGas: 1_000_000n,
+      balanceChanges: [],
+      objectChanges: [],
+    },
+  };
+}
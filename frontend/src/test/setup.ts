@@ -0,0 +1,39 @@
+import { beforeEach, vi } from "vitest";
+
+// The web SDK loads its iframe from jssdk.onekey.so, tests route OneKey calls to FakeOneKeyDevice instead
+vi.mock("@onekeyfe/hd-web-sdk", () => ({ default: { HardwareWebSdk: {} } }));
+
+// Node has no localStorage, sessions, accounts and settings are kept in memory for each test
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+
+  key(index: number) {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  clear() {
+    this.items.clear();
+  }
+}
+
+vi.stubGlobal("localStorage", new MemoryStorage());
+
+beforeEach(() => {
+  localStorage.clear();
+});
@@ -1,12 +1,13 @@
 import path from "path"
 import react from "@vitejs/plugin-react"
-import { defineConfig } from "vite"
+import { defineConfig } from "vitest/config"
 import { nodePolyfills } from "vite-plugin-node-polyfills"
 
 export default defineConfig({
   plugins: [
     react(),
-    nodePolyfills({
+    // Browser shims for Node builtins, tests run in Node and use the real ones
+    !process.env.VITEST && nodePolyfills({
       include: ['buffer', 'process', 'util', 'stream'],
       globals: {
         Buffer: true,
@@ -20,5 +21,9 @@ export default defineConfig({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    environment: "node",
+    setupFiles: ["./src/test/setup.ts"],
+  },
 })
 